@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Routes, Route } from 'react-router-dom';
 import TopNav from './layout/TopNav';
 import MainPanel from './layout/MainPanel';
@@ -9,12 +9,27 @@ import SettingsModal from './settings/SettingsModal';
 import ClickHighlighter from './recording/ClickHighlighter';
 import DrawingOverlay from './recording/DrawingOverlay';
 import ScreenshotFlash from './recording/ScreenshotFlash';
+import RecordingOverlay from './recording/RecordingOverlay';
+import RecoveryDialog from './recording/RecoveryDialog';
+import CountdownOverlay from './recording/CountdownOverlay';
 import { useApp } from '../contexts/AppContext';
 import { useRecording } from '../contexts/RecordingContext';
 
 export default function AppShell() {
   const { state } = useApp();
-  const { state: recordingState, options, updateOptions } = useRecording();
+  const { state: recordingState, options, updateOptions, screenshots, annotations } = useRecording();
+  const [showScreenshotFlash, setShowScreenshotFlash] = useState(false);
+  const screenshotCountRef = useRef(screenshots.length);
+
+  // Flash once for each screenshot taken; removals in review do not count
+  useEffect(() => {
+    if (screenshots.length > screenshotCountRef.current) {
+      setShowScreenshotFlash(true);
+    }
+    screenshotCountRef.current = screenshots.length;
+  }, [screenshots.length]);
+
+  const handleScreenshotFlashComplete = useCallback(() => setShowScreenshotFlash(false), []);
 
   return (
     <div className="flex h-screen bg-background">
@@ -31,27 +46,34 @@ export default function AppShell() {
         </main>
       </div>
 
+      {/* Pre-recording Countdown */}
+      {recordingState === 'countdown' && <CountdownOverlay />}
+
       {/* Review Panel */}
       {recordingState === 'stopped' && <ReviewPanel />}
 
       {/* Visual Effects - Only active during recording */}
       {(recordingState === 'recording' || recordingState === 'paused') && (
         <>
+          <RecordingOverlay />
           <ClickHighlighter enabled={options.highlightClicks} />
           <DrawingOverlay 
-            enabled={options.enableDrawing} 
+            enabled={options.enableDrawing}
+            tool={options.drawingTool}
+            layer={annotations}
             onDisable={() => updateOptions({ enableDrawing: false })}
           />
         </>
       )}
 
       {/* Screenshot Flash Effect */}
-      <ScreenshotFlash trigger={false} />
+      <ScreenshotFlash trigger={showScreenshotFlash} onComplete={handleScreenshotFlashComplete} />
 
       {/* Modals */}
       {!state.isOnboarded && <OnboardingModal />}
       <ShareModal />
       <SettingsModal />
+      <RecoveryDialog />
     </div>
   );
 }
@@ -7,12 +7,10 @@ import { ConnectionStatus } from '@/components/ui/connection-status';
 import { Video, AlertTriangle, Play, ExternalLink, Clock, FileVideo, Upload, Share2 } from 'lucide-react';
 import { useYouTube } from '../../contexts/YouTubeContext';
 import { useApp } from '../../contexts/AppContext';
-import { useRecording } from '../../contexts/RecordingContext';
 import { withErrorBoundary } from '../ErrorBoundary';
 import { withPerformanceMonitoring } from '../../utils/performanceMonitor';
 import { formatDistanceToNow } from 'date-fns';
 import VideoModal from './VideoModal';
-import RecordingPanel from '../recording/RecordingPanel';
 
 const RecordingCard = memo(({ recording, onClick }: { recording: any; onClick: () => void }) => (
   <ModernCard variant="layered" className="p-6" onClick={onClick}>
@@ -88,7 +86,6 @@ function formatDuration(ms: number) {
 function MainPanelComponent() {
   const { isConnected, isConnecting, connectionError } = useYouTube();
   const { state } = useApp();
-  const { state: recordingState } = useRecording();
   const [selectedRecording, setSelectedRecording] = useState(null);
 
   const getConnectionStatus = () => {
@@ -115,13 +112,6 @@ function MainPanelComponent() {
 
   return (
     <div className="flex-1 p-8 bg-gradient-to-br from-gray-50 to-white min-h-screen">
-      {/* Recording Panel - Always at the top when recording */}
-      {(recordingState === 'recording' || recordingState === 'paused') && (
-        <div className="fixed top-20 left-8 z-50">
-          <RecordingPanel />
-        </div>
-      )}
-
       <div className="max-w-7xl mx-auto">
         {/* Hero Section */}
         <div className="text-center mb-12 mt-20">
@@ -9,6 +9,7 @@ import { useApp } from '../../contexts/AppContext';
 import { useRecording } from '../../contexts/RecordingContext';
 import { isYouTubeConfigured } from '../../config';
 import FloatingRecordButton from '../recording/FloatingRecordButton';
+import UploadTray from './UploadTray';
 
 export default function TopNav() {
   const { userEmail, isConnecting } = useYouTube();
@@ -20,7 +21,7 @@ export default function TopNav() {
     dispatch({ type: 'SET_SETTINGS_OPEN', payload: true });
   };
 
-  const showRecordButton = recordingState !== 'recording' && recordingState !== 'paused' && recordingState !== 'starting';
+  const showRecordButton = recordingState !== 'recording' && recordingState !== 'paused' && recordingState !== 'starting' && recordingState !== 'countdown';
 
   return (
     <header className="fixed top-0 left-0 right-0 z-50 h-16 bg-background border-b border-border flex items-center justify-between px-6">
@@ -56,6 +57,9 @@ export default function TopNav() {
           >
             Settings
           </button>
+
+          {/* Background uploads - Stays available while recording */}
+          <UploadTray />
         </div>
 
         {/* Record Button - Only show when not recording */}
@@ -0,0 +1,143 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { CircleAlert, CircleCheck, CloudUpload, ExternalLink, Pause, Play, RotateCw, X } from 'lucide-react';
+import { useYouTube } from '../../contexts/YouTubeContext';
+import { UploadQueueItem } from '../../services/uploadQueueService';
+import { formatFileSize } from '../../utils/formatters';
+
+const STATUS_LABELS: Record<UploadQueueItem['status'], string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  failed: 'Failed',
+  completed: 'Uploaded',
+  cancelled: 'Cancelled',
+};
+
+export default function UploadTray() {
+  const { uploadQueue, pauseUpload, resumeUpload, cancelUpload, clearFinishedUploads } = useYouTube();
+  const navigate = useNavigate();
+
+  if (uploadQueue.length === 0) return null;
+
+  const activeCount = uploadQueue.filter(item =>
+    item.status === 'queued' || item.status === 'uploading' || item.status === 'paused'
+  ).length;
+  const hasFinished = uploadQueue.some(item => item.status === 'completed' || item.status === 'cancelled');
+
+  const renderActions = (item: UploadQueueItem) => {
+    const iconButton = (Icon: React.ElementType, title: string, onClick: () => void) => (
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={onClick}
+        className="h-7 w-7 p-0"
+        title={title}
+      >
+        <Icon className="h-4 w-4" />
+      </Button>
+    );
+
+    switch (item.status) {
+      case 'queued':
+      case 'uploading':
+        return (
+          <>
+            {iconButton(Pause, 'Pause', () => pauseUpload(item.id))}
+            {iconButton(X, 'Cancel', () => cancelUpload(item.id))}
+          </>
+        );
+      case 'paused':
+        return (
+          <>
+            {iconButton(Play, 'Resume', () => resumeUpload(item.id))}
+            {iconButton(X, 'Cancel', () => cancelUpload(item.id))}
+          </>
+        );
+      case 'failed':
+        return (
+          <>
+            {iconButton(RotateCw, 'Retry', () => resumeUpload(item.id))}
+            {iconButton(X, 'Cancel', () => cancelUpload(item.id))}
+          </>
+        );
+      case 'completed':
+        return iconButton(ExternalLink, 'Open', () => navigate(`/recording/${item.id}`));
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative text-black hover:text-black/80 transition-colors"
+          title="Uploads"
+        >
+          <CloudUpload className="h-5 w-5" />
+          {activeCount > 0 && (
+            <span className="absolute -top-1.5 -right-2 min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+              {activeCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel>Uploads to YouTube</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        <div className="max-h-80 overflow-y-auto space-y-1">
+          {uploadQueue.map(item => (
+            <div key={item.id} className="px-2 py-1.5 space-y-1.5">
+              <div className="flex items-center justify-between space-x-2">
+                <div className="min-w-0 text-sm">
+                  <p className="font-medium truncate">{item.title}</p>
+                  <p className="text-xs text-muted-foreground flex items-center space-x-1">
+                    {item.status === 'completed' && <CircleCheck className="h-3 w-3 text-green-600" />}
+                    {item.status === 'failed' && <CircleAlert className="h-3 w-3 text-destructive" />}
+                    <span className="truncate">
+                      {STATUS_LABELS[item.status]}
+                      {(item.status === 'uploading' || item.status === 'paused') && ` · ${item.progress}%`}
+                      {` · ${formatFileSize(item.size)}`}
+                    </span>
+                  </p>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {renderActions(item)}
+                </div>
+              </div>
+              {(item.status === 'uploading' || item.status === 'paused') && (
+                <Progress value={item.progress} className="h-1.5" />
+              )}
+              {item.status === 'failed' && item.error && (
+                <p className="text-xs text-destructive">{item.error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {hasFinished && (
+          <>
+            <DropdownMenuSeparator />
+            <div className="px-2 py-1">
+              <Button size="sm" variant="ghost" onClick={clearFinishedUploads} className="w-full">
+                Clear finished
+              </Button>
+            </div>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -15,7 +15,8 @@ import {
   Loader2,
   ArrowLeft,
   FolderOpen,
-  FileVideo
+  FileVideo,
+  Pencil
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,6 +25,7 @@ import { useYouTube } from '../../contexts/YouTubeContext';
 import { useToast } from '@/components/ui/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 import DeleteConfirmationModal from '../ui/DeleteConfirmationModal';
+import EditVideoDetailsDialog from '../preview/EditVideoDetailsDialog';
 
 export default function VideoSharePage() {
   const { recordingId } = useParams<{ recordingId: string }>();
@@ -33,6 +35,7 @@ export default function VideoSharePage() {
   const [copied, setCopied] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showEditDetails, setShowEditDetails] = useState(false);
 
   const { state } = useApp();
   const { isConnected } = useYouTube();
@@ -222,6 +225,18 @@ export default function VideoSharePage() {
                 <span>Open in YouTube</span>
               </Button>
 
+              {isConnected && recording.youtubeVideoId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowEditDetails(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <Pencil className="h-4 w-4" />
+                  <span>Edit Details</span>
+                </Button>
+              )}
+
               <Button
                 variant="destructive"
                 size="sm"
@@ -255,6 +270,15 @@ export default function VideoSharePage() {
         recording={recording}
         isLoading={isDeleting}
       />
+
+      {recording.youtubeVideoId && (
+        <EditVideoDetailsDialog
+          isOpen={showEditDetails}
+          onClose={() => setShowEditDetails(false)}
+          recordingId={recording.id}
+          videoId={recording.youtubeVideoId}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Pencil, Save } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { useYouTube } from '../../contexts/YouTubeContext';
+import { VideoDetails } from '../../services/realYouTubeService';
+import { validateVideoDescription, validateVideoTitle } from '../../utils/videoMetadata';
+import { ErrorHandler } from '../../utils/errorHandler';
+import { VIDEO_METADATA_CONFIG } from '../../config';
+
+interface EditVideoDetailsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Library id of the recording, kept in step with YouTube */
+  recordingId: string;
+  videoId: string;
+}
+
+export default function EditVideoDetailsDialog({ isOpen, onClose, recordingId, videoId }: EditVideoDetailsDialogProps) {
+  const { getVideoDetails, updateVideoDetails } = useYouTube();
+  const { toast } = useToast();
+  const [details, setDetails] = useState<VideoDetails | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The description only lives on YouTube, so the form starts from what YouTube has
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setDetails(null);
+    setLoadError(null);
+    getVideoDetails(videoId)
+      .then(result => !cancelled && setDetails(result))
+      .catch(error => {
+        ErrorHandler.logError('video-details-load', error, { videoId });
+        if (!cancelled) setLoadError(ErrorHandler.formatErrorForUser(error));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, videoId, getVideoDetails]);
+
+  const update = (changes: Partial<VideoDetails>) => setDetails(current => current && { ...current, ...changes });
+
+  const validationError = details && (validateVideoTitle(details.title) ?? validateVideoDescription(details.description));
+
+  const handleSave = async () => {
+    if (!details || validationError) return;
+
+    setIsSaving(true);
+    try {
+      await updateVideoDetails(recordingId, videoId, details);
+      toast({
+        title: "Video Updated",
+        description: "Your changes have been saved to YouTube",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Update Failed",
+        description: ErrorHandler.formatErrorForUser(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Pencil className="h-5 w-5 text-primary" />
+            <span>Edit Video Details</span>
+          </DialogTitle>
+          <DialogDescription>
+            Changes are saved to YouTube and to your library.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!details ? (
+          <div className="flex items-center justify-center py-8 text-sm text-muted-foreground">
+            {loadError ?? <Loader2 className="h-6 w-6 animate-spin" />}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Title</label>
+                <span className={`text-xs ${details.title.length > VIDEO_METADATA_CONFIG.maxTitleLength ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {details.title.length}/{VIDEO_METADATA_CONFIG.maxTitleLength}
+                </span>
+              </div>
+              <Input
+                value={details.title}
+                onChange={(e) => update({ title: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Description</label>
+                <span className={`text-xs ${details.description.length > VIDEO_METADATA_CONFIG.maxDescriptionLength ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {details.description.length}/{VIDEO_METADATA_CONFIG.maxDescriptionLength}
+                </span>
+              </div>
+              <textarea
+                value={details.description}
+                onChange={(e) => update({ description: e.target.value })}
+                disabled={isSaving}
+                rows={6}
+                className="placeholder:text-muted-foreground dark:bg-input/30 border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none resize-y focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Privacy</label>
+              <Select
+                value={details.privacy}
+                onValueChange={(privacy) => update({ privacy: privacy as VideoDetails['privacy'] })}
+                disabled={isSaving}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="public">Public</SelectItem>
+                  <SelectItem value="unlisted">Unlisted (Anyone with link)</SelectItem>
+                  <SelectItem value="private">Private (Only you)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {validationError && (
+              <p className="text-xs text-destructive">{validationError}</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!details || !!validationError || isSaving}>
+            {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
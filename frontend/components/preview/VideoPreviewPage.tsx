@@ -23,7 +23,8 @@ import {
   Heart,
   Reply,
   MoreHorizontal,
-  Send
+  Send,
+  Pencil
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { useApp } from '../../contexts/AppContext';
@@ -32,17 +33,19 @@ import { useToast } from '@/components/ui/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 import { YouTubeCommentsService, YouTubeComment } from '../../services/youtubeCommentsService';
 import DeleteConfirmationModal from '../ui/DeleteConfirmationModal';
+import EditVideoDetailsDialog from './EditVideoDetailsDialog';
 
 interface VideoPreviewPageProps {
   recording: any;
   onClose: () => void;
 }
 
-export default function VideoPreviewPage({ recording, onClose }: VideoPreviewPageProps) {
+export default function VideoPreviewPage({ recording: selectedRecording, onClose }: VideoPreviewPageProps) {
   const [copied, setCopied] = useState(false);
   const [youtubeError, setYoutubeError] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showEditDetails, setShowEditDetails] = useState(false);
   
   // Comments state
   const [comments, setComments] = useState<YouTubeComment[]>([]);
@@ -53,10 +56,13 @@ export default function VideoPreviewPage({ recording, onClose }: VideoPreviewPag
   
   const containerRef = useRef<HTMLDivElement>(null);
   const commentsRef = useRef<HTMLDivElement>(null);
-  const { dispatch } = useApp();
+  const { state, dispatch } = useApp();
   const { isConnected } = useYouTube();
   const { toast } = useToast();
 
+  // Follow the library so edits to the title and privacy show straight away
+  const recording = state.recordings.find(r => r.id === selectedRecording.id) ?? selectedRecording;
+
   const getYouTubeEmbedUrl = (url: string): string | null => {
     if (!url) return null;
     try {
@@ -291,6 +297,13 @@ export default function VideoPreviewPage({ recording, onClose }: VideoPreviewPag
                 Open in YouTube
               </Button>
             )}
+
+            {isConnected && videoId && (
+              <Button variant="outline" onClick={() => setShowEditDetails(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit Details
+              </Button>
+            )}
             
             <Button 
               variant="destructive" 
@@ -505,6 +518,15 @@ export default function VideoPreviewPage({ recording, onClose }: VideoPreviewPag
         recording={recording}
         isDeleting={isDeleting}
       />
+
+      {videoId && (
+        <EditVideoDetailsDialog
+          isOpen={showEditDetails}
+          onClose={() => setShowEditDetails(false)}
+          recordingId={recording.id}
+          videoId={videoId}
+        />
+      )}
     </div>
   );
 }
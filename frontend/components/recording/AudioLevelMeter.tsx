@@ -0,0 +1,44 @@
+import React from 'react';
+
+interface AudioLevelMeterProps {
+  /** RMS level between 0 and 1 */
+  level: number;
+  orientation?: 'horizontal' | 'vertical';
+  muted?: boolean;
+  className?: string;
+}
+
+const METER_FLOOR_DB = -60;
+
+// Linear RMS barely moves for normal speech, so the bar follows decibels instead
+function levelToFill(level: number): number {
+  if (level <= 0) return 0;
+  const db = 20 * Math.log10(level);
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+export default function AudioLevelMeter({
+  level,
+  orientation = 'horizontal',
+  muted = false,
+  className = ''
+}: AudioLevelMeterProps) {
+  const fill = muted ? 0 : levelToFill(level);
+  const color = fill > 0.9 ? 'bg-red-500' : fill > 0.7 ? 'bg-yellow-500' : 'bg-green-500';
+  const isVertical = orientation === 'vertical';
+
+  return (
+    <div
+      className={`relative overflow-hidden rounded-full bg-muted ${isVertical ? 'w-1.5 h-10' : 'h-1.5 w-full'} ${className}`}
+      role="meter"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(fill * 100)}
+    >
+      <div
+        className={`absolute ${isVertical ? 'bottom-0 left-0 w-full' : 'left-0 top-0 h-full'} ${color} transition-all duration-75`}
+        style={isVertical ? { height: `${fill * 100}%` } : { width: `${fill * 100}%` }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { X } from 'lucide-react';
+import { useRecording } from '../../contexts/RecordingContext';
+
+export default function CountdownOverlay() {
+  const { countdownRemaining, cancelCountdown } = useRecording();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        cancelCountdown();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [cancelCountdown]);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-black/50 backdrop-blur-sm">
+      <div
+        key={countdownRemaining}
+        className="flex items-center justify-center w-40 h-40 rounded-full bg-gradient-to-br from-red-500 to-purple-600 text-white text-7xl font-bold shadow-2xl animate-in zoom-in-50 fade-in duration-300"
+        aria-live="assertive"
+      >
+        {countdownRemaining}
+      </div>
+      <p className="mt-6 text-white text-sm">Recording starts soon. Switch to the window you want to capture.</p>
+      <Button
+        variant="secondary"
+        onClick={cancelCountdown}
+        className="mt-4"
+      >
+        <X className="h-4 w-4 mr-2" />
+        Cancel (Esc)
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/spinner';
+import { Scissors, Undo2, Redo2, X, Crop } from 'lucide-react';
+import { EditRange } from '../../contexts/RecordingContext';
+import { addCut, keepOnly, getEditedDuration } from '../../utils/editDecisionList';
+
+interface CutEditorProps {
+  /** Recording length in seconds */
+  duration: number;
+  /** Playhead position in seconds */
+  currentTime: number;
+  cuts: EditRange[];
+  onCutsChange: (cuts: EditRange[]) => void;
+  onSeek: (time: number) => void;
+  onApply: () => void;
+  onClose: () => void;
+  isRendering: boolean;
+  /** Render progress, 0-100 */
+  renderProgress: number;
+}
+
+// Undo steps kept per editing session
+const MAX_HISTORY = 50;
+
+const formatTime = (seconds: number) => {
+  if (isNaN(seconds) || !isFinite(seconds) || seconds < 0) {
+    return '0:00';
+  }
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function CutEditor({
+  duration,
+  currentTime,
+  cuts,
+  onCutsChange,
+  onSeek,
+  onApply,
+  onClose,
+  isRendering,
+  renderProgress
+}: CutEditorProps) {
+  const [selectionStart, setSelectionStart] = useState(0);
+  const [selectionEnd, setSelectionEnd] = useState(duration);
+  const [past, setPast] = useState<EditRange[][]>([]);
+  const [future, setFuture] = useState<EditRange[][]>([]);
+
+  const durationMs = duration * 1000;
+  const hasSelection = selectionEnd > selectionStart;
+
+  const commit = useCallback((next: EditRange[]) => {
+    setPast(prev => [...prev, cuts].slice(-MAX_HISTORY));
+    setFuture([]);
+    onCutsChange(next);
+  }, [cuts, onCutsChange]);
+
+  const undo = useCallback(() => {
+    if (past.length === 0) return;
+    setPast(prev => prev.slice(0, -1));
+    setFuture(prev => [cuts, ...prev]);
+    onCutsChange(past[past.length - 1]);
+  }, [past, cuts, onCutsChange]);
+
+  const redo = useCallback(() => {
+    if (future.length === 0) return;
+    setFuture(prev => prev.slice(1));
+    setPast(prev => [...prev, cuts]);
+    onCutsChange(future[0]);
+  }, [future, cuts, onCutsChange]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isRendering || !(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, isRendering]);
+
+  const handleCutSelection = () => {
+    commit(addCut(cuts, { start: selectionStart * 1000, end: selectionEnd * 1000 }, durationMs));
+  };
+
+  const handleKeepSelection = () => {
+    commit(keepOnly({ start: selectionStart * 1000, end: selectionEnd * 1000 }, durationMs));
+  };
+
+  const handleRestoreCut = (index: number) => {
+    commit(cuts.filter((_, i) => i !== index));
+  };
+
+  const toPercent = (ms: number) => `${Math.min(100, Math.max(0, (ms / durationMs) * 100))}%`;
+
+  return (
+    <div className="space-y-4 p-4 bg-muted rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Edit Video</h3>
+        <div className="flex items-center space-x-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={undo}
+            disabled={past.length === 0 || isRendering}
+            title="Undo (Ctrl+Z)"
+            className="h-8 w-8 p-0"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={redo}
+            disabled={future.length === 0 || isRendering}
+            title="Redo (Ctrl+Shift+Z)"
+            className="h-8 w-8 p-0"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Edit Timeline */}
+      <div
+        className="relative h-10 bg-background rounded-md border border-border cursor-pointer overflow-hidden"
+        onClick={(e) => {
+          if (isRendering) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(((e.clientX - rect.left) / rect.width) * duration);
+        }}
+      >
+        {hasSelection && (
+          <div
+            className="absolute inset-y-0 bg-primary/20 border-x-2 border-primary pointer-events-none"
+            style={{ left: toPercent(selectionStart * 1000), width: toPercent((selectionEnd - selectionStart) * 1000) }}
+          />
+        )}
+        {cuts.map((cut, index) => (
+          <div
+            key={`${cut.start}-${index}`}
+            className="absolute inset-y-0 bg-red-500/40 pointer-events-none"
+            style={{
+              left: toPercent(cut.start),
+              width: toPercent(cut.end - cut.start),
+              backgroundImage: 'repeating-linear-gradient(45deg, transparent, transparent 4px, rgba(0,0,0,0.15) 4px, rgba(0,0,0,0.15) 8px)',
+            }}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+          style={{ left: toPercent(currentTime * 1000) }}
+        />
+      </div>
+
+      {/* Selection */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Button size="sm" variant="outline" onClick={() => setSelectionStart(currentTime)} disabled={isRendering}>
+          Set In ({formatTime(currentTime)})
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => setSelectionEnd(currentTime)} disabled={isRendering}>
+          Set Out ({formatTime(currentTime)})
+        </Button>
+        <span className="text-muted-foreground">
+          Selection {formatTime(selectionStart)} - {formatTime(selectionEnd)}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleCutSelection} disabled={!hasSelection || isRendering}>
+          <Scissors className="h-4 w-4 mr-2" />
+          Cut Selection
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleKeepSelection} disabled={!hasSelection || isRendering}>
+          <Crop className="h-4 w-4 mr-2" />
+          Keep Only Selection
+        </Button>
+      </div>
+
+      {/* Edit Decision List */}
+      {cuts.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">
+            Cuts ({formatTime(duration)} → {formatTime(getEditedDuration(cuts, durationMs) / 1000)})
+          </p>
+          {cuts.map((cut, index) => (
+            <div key={`${cut.start}-${index}`} className="flex items-center justify-between text-sm bg-background rounded px-2 py-1">
+              <button
+                onClick={() => onSeek(cut.start / 1000)}
+                disabled={isRendering}
+                className="font-mono text-xs hover:underline"
+              >
+                {formatTime(cut.start / 1000)} - {formatTime(cut.end / 1000)}
+              </button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRestoreCut(index)}
+                disabled={isRendering}
+                className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                title="Restore this section"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isRendering && (
+        <div className="space-y-1">
+          <Progress value={renderProgress} className="h-2" />
+          <p className="text-xs text-muted-foreground">Rendering edits... {renderProgress}%</p>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onClose} disabled={isRendering}>
+          Close
+        </Button>
+        <Button onClick={onApply} disabled={isRendering}>
+          {isRendering ? <LoadingSpinner text="Rendering..." size="sm" /> : 'Apply Edits'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { InputDevice } from '../../contexts/RecordingContext';
+
+// Radix Select does not allow an empty item value
+const DEFAULT_DEVICE_VALUE = 'default';
+
+interface DeviceSelectProps {
+  devices: InputDevice[];
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+export default function DeviceSelect({ devices, value, onChange, className, disabled }: DeviceSelectProps) {
+  // A remembered device that is currently unplugged falls back to the default entry
+  const selected = value && devices.some(device => device.deviceId === value) ? value : DEFAULT_DEVICE_VALUE;
+
+  return (
+    <Select
+      value={selected}
+      onValueChange={(next) => onChange(next === DEFAULT_DEVICE_VALUE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={DEFAULT_DEVICE_VALUE}>System Default</SelectItem>
+        {devices.map(device => (
+          <SelectItem key={device.deviceId} value={device.deviceId}>
+            {device.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,142 +1,187 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { DrawingTool, DrawingToolOptions } from '../../contexts/RecordingContext';
+import { AnnotationLayer } from '../../services/annotationLayer';
+import { ANNOTATION_CONFIG } from '../../config';
 
 interface DrawingOverlayProps {
   enabled: boolean;
+  /** Current tool, color and width, chosen in the recording controls */
+  tool: DrawingToolOptions;
+  /** Holds the annotations; the recording paints the same layer into its frames */
+  layer: AnnotationLayer;
   onDisable?: () => void;
 }
 
-export default function DrawingOverlay({ enabled, onDisable }: DrawingOverlayProps) {
+const TOOL_CURSORS: Record<DrawingTool, string> = {
+  'pen': 'crosshair',
+  'highlighter': 'crosshair',
+  'arrow': 'crosshair',
+  'rectangle': 'crosshair',
+  'ellipse': 'crosshair',
+  'text': 'text',
+  'spotlight': 'none',
+  'eraser': 'cell',
+};
+
+export default function DrawingOverlay({ enabled, tool, layer, onDisable }: DrawingOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [lastPoint, setLastPoint] = useState<{ x: number; y: number } | null>(null);
-
-  const startDrawing = useCallback((event: MouseEvent) => {
-    if (!enabled || !canvasRef.current) return;
-    
-    setIsDrawing(true);
-    const rect = canvasRef.current.getBoundingClientRect();
-    setLastPoint({
-      x: event.clientX - rect.left,
-      y: event.clientY - rect.top,
-    });
-  }, [enabled]);
+  const [textLabel, setTextLabel] = useState<{ x: number; y: number; value: string } | null>(null);
 
-  const draw = useCallback((event: MouseEvent) => {
-    if (!isDrawing || !enabled || !canvasRef.current || !lastPoint) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    const rect = canvas.getBoundingClientRect();
-    const currentPoint = {
+  const getPoint = (event: React.PointerEvent) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
       x: event.clientX - rect.left,
       y: event.clientY - rect.top,
     };
-    
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.x, lastPoint.y);
-    ctx.lineTo(currentPoint.x, currentPoint.y);
-    ctx.stroke();
-    
-    setLastPoint(currentPoint);
-  }, [isDrawing, enabled, lastPoint]);
-
-  const stopDrawing = useCallback(() => {
-    setIsDrawing(false);
-    setLastPoint(null);
-  }, []);
-
-  const clearCanvas = useCallback(() => {
-    if (!canvasRef.current) return;
-    
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const textLabelRef = useRef(textLabel);
+  textLabelRef.current = textLabel;
+
+  // Enter and the blur that follows both commit, so the label is taken only once
+  const commitTextLabel = useCallback(() => {
+    const label = textLabelRef.current;
+    textLabelRef.current = null;
+    if (label) {
+      layer.addText({ x: label.x, y: label.y }, label.value, tool);
     }
-  }, []);
+    setTextLabel(null);
+  }, [layer, tool]);
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    if (!enabled) {
-      // Cleanup if disabled
-      canvas.removeEventListener('mousedown', startDrawing);
-      document.removeEventListener('mousemove', draw);
-      document.removeEventListener('mouseup', stopDrawing);
-      clearCanvas();
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPoint(event);
+
+    if (tool.tool === 'text') {
+      commitTextLabel();
+      setTextLabel({ ...point, value: '' });
+      // Keep the canvas from taking focus back from the new text field
+      event.preventDefault();
       return;
     }
 
-    // Set up canvas
-    canvas.width = window.innerWidth;
-    canvas.height = window.innerHeight;
-    
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.strokeStyle = '#ff4444';
-      ctx.lineWidth = 3;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+    event.currentTarget.setPointerCapture(event.pointerId);
+    layer.begin(point, tool);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = getPoint(event);
+    if (tool.tool === 'spotlight') {
+      layer.setSpotlight(point);
+    } else {
+      layer.extend(point);
     }
+  };
 
-    // Add event listeners
-    canvas.addEventListener('mousedown', startDrawing);
-    document.addEventListener('mousemove', draw);
-    document.addEventListener('mouseup', stopDrawing);
-    
-    // Handle window resize
-    const handleResize = () => {
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
-      if (ctx) {
-        ctx.strokeStyle = '#ff4444';
-        ctx.lineWidth = 3;
-        ctx.lineCap = 'round';
-        ctx.lineJoin = 'round';
-      }
-    };
-    
+  const handlePointerUp = () => {
+    layer.end();
+  };
+
+  const handlePointerLeave = () => {
+    if (tool.tool === 'spotlight') {
+      layer.setSpotlight(null);
+    }
+  };
+
+  // Show the layer on this canvas, sized to the viewport
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!enabled || !canvas) return;
+
+    layer.attach(canvas);
+    const handleResize = () => layer.resize(window.innerWidth, window.innerHeight);
+    handleResize();
     window.addEventListener('resize', handleResize);
-    
-    // Handle escape key to disable drawing
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      layer.attach(null);
+      layer.clear();
+    };
+  }, [enabled, layer]);
+
+  // The spotlight only follows the pointer while its tool is selected
+  useEffect(() => {
+    if (tool.tool !== 'spotlight') {
+      layer.setSpotlight(null);
+    }
+    if (tool.tool !== 'text') {
+      setTextLabel(null);
+    }
+  }, [tool.tool, layer]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Typing a label takes every key but Escape
+      if (event.target instanceof HTMLInputElement && event.key !== 'Escape') return;
+
       if (event.key === 'Escape') {
-        onDisable?.();
+        if (textLabel) {
+          setTextLabel(null);
+        } else {
+          onDisable?.();
+        }
+      } else if (event.key === 'z' && (event.ctrlKey || event.metaKey)) {
+        event.preventDefault();
+        layer.undo();
       } else if (event.key === 'c' && (event.ctrlKey || event.metaKey)) {
-        clearCanvas();
+        layer.clear();
       }
     };
-    
-    document.addEventListener('keydown', handleKeyDown);
 
-    return () => {
-      canvas.removeEventListener('mousedown', startDrawing);
-      document.removeEventListener('mousemove', draw);
-      document.removeEventListener('mouseup', stopDrawing);
-      document.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('resize', handleResize);
-    };
-  }, [enabled, startDrawing, draw, stopDrawing, onDisable, clearCanvas]);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, textLabel, layer, onDisable]);
 
   if (!enabled) return null;
 
   return (
-    <canvas
-      ref={canvasRef}
-      className={`drawing-overlay ${enabled ? 'active' : ''}`}
-      style={{
-        position: 'fixed',
-        top: 0,
-        left: 0,
-        width: '100%',
-        height: '100%',
-        pointerEvents: enabled ? 'auto' : 'none',
-        zIndex: 9998,
-        cursor: enabled ? 'crosshair' : 'default',
-      }}
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        className="drawing-overlay active"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          width: '100%',
+          height: '100%',
+          pointerEvents: 'auto',
+          zIndex: 9998,
+          cursor: TOOL_CURSORS[tool.tool],
+          touchAction: 'none',
+        }}
+      />
+
+      {textLabel && (
+        <input
+          autoFocus
+          value={textLabel.value}
+          onChange={(e) => setTextLabel({ ...textLabel, value: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              commitTextLabel();
+            }
+          }}
+          onBlur={commitTextLabel}
+          placeholder="Type a label, then Enter"
+          className="fixed bg-transparent border-b-2 outline-none font-semibold"
+          style={{
+            left: textLabel.x,
+            top: textLabel.y,
+            zIndex: 9999,
+            color: tool.color,
+            borderColor: tool.color,
+            fontSize: Math.max(14, tool.width * ANNOTATION_CONFIG.fontScale),
+          }}
+        />
+      )}
+    </>
   );
 }
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { LoadingSpinner } from '@/components/ui/spinner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, FileVideo, Film, Image as ImageIcon, Scissors } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { ExportService, ExportFormat } from '../../services/exportService';
+import { formatFileSize, getFileExtension } from '../../utils/formatters';
+import { ErrorHandler } from '../../utils/errorHandler';
+import { EXPORT_CONFIG } from '../../config';
+
+interface ExportMenuProps {
+  recordedBlob: Blob;
+  /** The rendered edit, if there is one */
+  editedBlob: Blob | null;
+  title: string;
+  durationMs: number;
+  editedDurationMs: number;
+  width: number;
+  height: number;
+  disabled?: boolean;
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  'original': 'Original',
+  'edited': 'Edited',
+  'mp4': 'MP4',
+  'gif': 'Animated GIF',
+  'webp': 'Animated WebP',
+};
+
+export default function ExportMenu({
+  recordedBlob,
+  editedBlob,
+  title,
+  durationMs,
+  editedDurationMs,
+  width,
+  height,
+  disabled = false,
+}: ExportMenuProps) {
+  const { toast } = useToast();
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [exportProgress, setExportProgress] = useState(0);
+
+  // Conversions start from the edit when there is one
+  const sourceBlob = editedBlob || recordedBlob;
+  const sourceDurationMs = editedBlob ? editedDurationMs : durationMs;
+  const source = { blob: sourceBlob, durationMs: sourceDurationMs, width, height };
+
+  const mp4Method = ExportService.getMp4Method(sourceBlob);
+  const isTooLongToAnimate = sourceDurationMs > EXPORT_CONFIG.maxAnimatedDurationSeconds * 1000;
+  const canExportWebp = useMemo(() => ExportService.isAnimatedWebpSupported(), []);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    setExportProgress(0);
+
+    try {
+      switch (format) {
+        case 'original':
+          ExportService.download(recordedBlob, title, getFileExtension(recordedBlob.type));
+          break;
+        case 'edited':
+          if (editedBlob) {
+            ExportService.download(editedBlob, `${title} (edited)`, getFileExtension(editedBlob.type));
+          }
+          break;
+        case 'mp4':
+          ExportService.download(await ExportService.toMp4(sourceBlob, setExportProgress), title, 'mp4');
+          break;
+        case 'gif':
+          ExportService.download(await ExportService.toGif(sourceBlob, setExportProgress), title, 'gif');
+          break;
+        case 'webp':
+          ExportService.download(await ExportService.toAnimatedWebp(sourceBlob, setExportProgress), title, 'webp');
+          break;
+      }
+
+      if (format !== 'original' && format !== 'edited') {
+        toast({
+          title: "Export complete",
+          description: `${EXPORT_LABELS[format]} saved to your downloads.`,
+        });
+      }
+    } catch (error) {
+      ErrorHandler.logError('recording-export', error, { format, size: sourceBlob.size });
+      toast({
+        title: "Export failed",
+        description: ErrorHandler.formatErrorForUser(error),
+        variant: "destructive",
+      });
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const renderItem = (format: ExportFormat, Icon: React.ElementType, hint: string | null, itemDisabled = false) => (
+    <DropdownMenuItem
+      key={format}
+      disabled={itemDisabled}
+      onSelect={() => handleExport(format)}
+      className="flex items-start"
+    >
+      <Icon className="h-4 w-4 mr-2 mt-0.5" />
+      <div className="flex-1">
+        <div className="text-sm">{EXPORT_LABELS[format]}</div>
+        {hint && <div className="text-xs text-muted-foreground">{hint}</div>}
+      </div>
+    </DropdownMenuItem>
+  );
+
+  const estimate = (format: ExportFormat) => `~${formatFileSize(ExportService.estimateSize(format, source))}`;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled || exportingFormat !== null}
+          className="flex-1 max-w-[180px]"
+        >
+          {exportingFormat ? (
+            <LoadingSpinner text={`${Math.round(exportProgress * 100)}%`} size="sm" />
+          ) : (
+            <>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="center" className="w-64">
+        <DropdownMenuLabel>Download</DropdownMenuLabel>
+        {renderItem('original', FileVideo, `${getFileExtension(recordedBlob.type).toUpperCase()} · ${formatFileSize(recordedBlob.size)}`)}
+        {editedBlob && renderItem('edited', Scissors, `${getFileExtension(editedBlob.type).toUpperCase()} · ${formatFileSize(editedBlob.size)}`)}
+
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Convert</DropdownMenuLabel>
+        {renderItem(
+          'mp4',
+          Film,
+          mp4Method === null
+            ? 'Not supported in this browser'
+            : mp4Method === 'reencode'
+              ? `${estimate('mp4')} · plays through once`
+              : estimate('mp4'),
+          mp4Method === null
+        )}
+        {renderItem(
+          'gif',
+          ImageIcon,
+          isTooLongToAnimate ? `Trim to under ${EXPORT_CONFIG.maxAnimatedDurationSeconds} s` : `${estimate('gif')} · ${EXPORT_CONFIG.gif.width}px wide`,
+          isTooLongToAnimate
+        )}
+        {renderItem(
+          'webp',
+          ImageIcon,
+          !canExportWebp
+            ? 'Not supported in this browser'
+            : isTooLongToAnimate
+              ? `Trim to under ${EXPORT_CONFIG.maxAnimatedDurationSeconds} s`
+              : `${estimate('webp')} · ${EXPORT_CONFIG.webp.width}px wide`,
+          !canExportWebp || isTooLongToAnimate
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -26,13 +26,42 @@ import {
   Settings,
   Play
 } from 'lucide-react';
-import { useRecording, RecordingMode, RecordingOptions } from '../../contexts/RecordingContext';
+import { 
+  useRecording, 
+  RecordingMode, 
+  RecordingOptions,
+  CameraBubbleOptions,
+  CameraBubblePosition,
+  CameraBubbleSize,
+  CameraBubbleShape
+} from '../../contexts/RecordingContext';
 import { RecordingService } from '../../services/recordingService';
+import DeviceSelect from './DeviceSelect';
 import { useApp } from '../../contexts/AppContext';
 import { useToast } from '@/components/ui/use-toast';
 
+const BUBBLE_POSITIONS: { value: CameraBubblePosition; label: string }[] = [
+  { value: 'top-left', label: 'Top L' },
+  { value: 'top-right', label: 'Top R' },
+  { value: 'bottom-left', label: 'Bottom L' },
+  { value: 'bottom-right', label: 'Bottom R' },
+];
+
+const BUBBLE_SIZES: { value: CameraBubbleSize; label: string }[] = [
+  { value: 'small', label: 'S' },
+  { value: 'medium', label: 'M' },
+  { value: 'large', label: 'L' },
+];
+
+const BUBBLE_SHAPES: { value: CameraBubbleShape; label: string }[] = [
+  { value: 'circle', label: 'Circle' },
+  { value: 'rounded', label: 'Rounded' },
+];
+
+const BUBBLE_BORDER_COLORS = ['#ffffff', '#111827', '#ef4444', '#8b5cf6'];
+
 export default function FloatingRecordButton() {
-  const { startRecording, options, updateOptions, state: recordingState, permissionStatus } = useRecording();
+  const { startRecording, options, updateOptions, state: recordingState, permissionStatus, inputDevices } = useRecording();
   const { dispatch } = useApp();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [selectedMode, setSelectedMode] = useState<RecordingMode>('screen');
@@ -54,6 +83,10 @@ export default function FloatingRecordButton() {
     setLocalOptions(prev => ({ ...prev, [key]: value }));
   };
 
+  const handleBubbleChange = (updates: Partial<CameraBubbleOptions>) => {
+    setLocalOptions(prev => ({ ...prev, cameraBubble: { ...prev.cameraBubble, ...updates } }));
+  };
+
   const handleStartRecording = async () => {
     try {
       // Update global options
@@ -205,6 +238,104 @@ export default function FloatingRecordButton() {
             </div>
           </div>
 
+          {/* Camera Device */}
+          {selectedMode !== 'screen' && (
+            <div className="flex items-center justify-between space-x-3">
+              <div className="flex items-center space-x-3">
+                <Camera className="h-4 w-4" />
+                <span className="text-sm">Camera</span>
+              </div>
+              <DeviceSelect
+                devices={inputDevices.cameras}
+                value={localOptions.cameraDeviceId}
+                onChange={(deviceId) => handleOptionChange('cameraDeviceId', deviceId)}
+                className="w-44 h-8 text-xs"
+              />
+            </div>
+          )}
+
+          {/* Camera Bubble Options */}
+          {selectedMode === 'screen-camera' && (
+            <>
+              <DropdownMenuSeparator />
+
+              <div>
+                <p className="text-sm font-medium text-foreground mb-3">Camera Bubble</p>
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Position</span>
+                    <div className="grid grid-cols-2 gap-1">
+                      {BUBBLE_POSITIONS.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          size="sm"
+                          variant={localOptions.cameraBubble.position === value ? 'default' : 'outline'}
+                          onClick={() => handleBubbleChange({ position: value })}
+                          className="h-7 px-2 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Size</span>
+                    <div className="flex space-x-1">
+                      {BUBBLE_SIZES.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          size="sm"
+                          variant={localOptions.cameraBubble.size === value ? 'default' : 'outline'}
+                          onClick={() => handleBubbleChange({ size: value })}
+                          className="h-7 w-8 p-0 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Shape</span>
+                    <div className="flex space-x-1">
+                      {BUBBLE_SHAPES.map(({ value, label }) => (
+                        <Button
+                          key={value}
+                          size="sm"
+                          variant={localOptions.cameraBubble.shape === value ? 'default' : 'outline'}
+                          onClick={() => handleBubbleChange({ shape: value })}
+                          className="h-7 px-2 text-xs"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Border</span>
+                    <div className="flex items-center space-x-2">
+                      {localOptions.cameraBubble.borderWidth > 0 && BUBBLE_BORDER_COLORS.map((color) => (
+                        <button
+                          key={color}
+                          onClick={() => handleBubbleChange({ borderColor: color })}
+                          className={`h-4 w-4 rounded-full border ${localOptions.cameraBubble.borderColor === color ? 'ring-2 ring-red-500 ring-offset-1' : 'border-border'}`}
+                          style={{ backgroundColor: color }}
+                          aria-label={`Border color ${color}`}
+                        />
+                      ))}
+                      <Switch
+                        checked={localOptions.cameraBubble.borderWidth > 0}
+                        onCheckedChange={(checked) => handleBubbleChange({ borderWidth: checked ? 4 : 0 })}
+                      />
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
           <DropdownMenuSeparator />
 
           {/* Audio Options */}
@@ -239,6 +370,15 @@ export default function FloatingRecordButton() {
                   onCheckedChange={(checked) => handleOptionChange('microphone', checked)}
                 />
               </div>
+
+              {localOptions.microphone && (
+                <DeviceSelect
+                  devices={inputDevices.microphones}
+                  value={localOptions.microphoneDeviceId}
+                  onChange={(deviceId) => handleOptionChange('microphoneDeviceId', deviceId)}
+                  className="w-full h-8 text-xs"
+                />
+              )}
             </div>
           </div>
 
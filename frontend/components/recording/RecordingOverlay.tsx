@@ -10,9 +10,43 @@ import {
   Camera,
   Mic,
   MicOff,
-  Move
+  Move,
+  Volume2,
+  AlertTriangle,
+  Bookmark,
+  Aperture,
+  Pen,
+  Highlighter,
+  ArrowUpRight,
+  RectangleHorizontal,
+  Circle,
+  Type,
+  Flashlight,
+  Eraser,
+  Undo2,
+  Trash,
+  Timer,
+  MousePointer
 } from 'lucide-react';
-import { useRecording } from '../../contexts/RecordingContext';
+import { useRecording, AudioSource, DrawingTool, DrawingToolOptions } from '../../contexts/RecordingContext';
+import AudioLevelMeter from './AudioLevelMeter';
+import { formatFileSize } from '../../utils/formatters';
+import { DRAWING_CONFIG } from '../../config';
+
+// Alt+M works while focus is inside the app; the button covers the rest
+const MARKER_HOTKEY_LABEL = 'Alt+M';
+const SCREENSHOT_HOTKEY_LABEL = 'Alt+S';
+
+const DRAWING_TOOLS: { id: DrawingTool; label: string; icon: typeof Pen }[] = [
+  { id: 'pen', label: 'Pen', icon: Pen },
+  { id: 'highlighter', label: 'Highlighter', icon: Highlighter },
+  { id: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { id: 'rectangle', label: 'Rectangle', icon: RectangleHorizontal },
+  { id: 'ellipse', label: 'Ellipse', icon: Circle },
+  { id: 'text', label: 'Text Label', icon: Type },
+  { id: 'spotlight', label: 'Spotlight', icon: Flashlight },
+  { id: 'eraser', label: 'Eraser', icon: Eraser },
+];
 
 export default function RecordingOverlay() {
   const { 
@@ -22,14 +56,34 @@ export default function RecordingOverlay() {
     resumeRecording, 
     stopRecording, 
     deleteRecording, 
-    restartRecording 
+    restartRecording,
+    options,
+    setAudioGain,
+    isMicrophoneMuted,
+    isCameraVisible,
+    setMicrophoneMuted,
+    setCameraVisible,
+    audioLevels,
+    recordedSize,
+    limitWarnings,
+    markers,
+    addMarker,
+    screenshots,
+    captureScreenshot,
+    updateOptions,
+    annotations
   } = useRecording();
   
-  const [position, setPosition] = useState({ x: 20, y: 20 });
+  const [position, setPosition] = useState({ x: 20, y: 80 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [isCameraVisible, setIsCameraVisible] = useState(true);
-  const [isMicMuted, setIsMicMuted] = useState(false);
+
+  const hasCamera = options.mode === 'camera' || options.mode === 'screen-camera';
+  const drawingTool = options.drawingTool;
+
+  const updateDrawingTool = (changes: Partial<DrawingToolOptions>) => {
+    updateOptions({ drawingTool: { ...drawingTool, ...changes } });
+  };
 
   const formatTime = (ms: number) => {
     const totalSeconds = Math.floor(ms / 1000);
@@ -38,6 +92,11 @@ export default function RecordingOverlay() {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const audioSources: { id: AudioSource; label: string; icon: typeof Mic }[] = [
+    ...(options.microphone ? [{ id: 'microphone' as const, label: 'Mic', icon: Mic }] : []),
+    ...(options.systemAudio && options.mode !== 'camera' ? [{ id: 'system' as const, label: 'System', icon: Volume2 }] : []),
+  ];
+
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) {
       setIsDragging(true);
@@ -73,13 +132,34 @@ export default function RecordingOverlay() {
     };
   }, [isDragging, dragStart]);
 
+  useEffect(() => {
+    // The overlay stays up while paused, but the hotkeys are for a running recording
+    if (state !== 'recording') return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Match on the physical key: on macOS Option+M produces "µ" as e.key
+      if (e.altKey && e.code === 'KeyM' && !e.repeat) {
+        e.preventDefault();
+        addMarker();
+      } else if (e.altKey && e.code === 'KeyS' && !e.repeat) {
+        e.preventDefault();
+        captureScreenshot();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [state, addMarker, captureScreenshot]);
+
   return (
     <div
       className="fixed z-50 bg-popover border border-border rounded-lg shadow-lg p-4 min-w-80 draggable"
       style={{ 
         left: position.x, 
         top: position.y,
-        cursor: isDragging ? 'grabbing' : 'grab'
+        cursor: isDragging ? 'grabbing' : 'grab',
+        // Stay usable above the drawing canvas while annotating
+        zIndex: options.enableDrawing ? 9999 : undefined,
       }}
       onMouseDown={handleMouseDown}
     >
@@ -152,6 +232,21 @@ export default function RecordingOverlay() {
         </div>
       </div>
 
+      {/* Limit Warnings */}
+      {limitWarnings.length > 0 && (
+        <div className="flex items-start space-x-2 mt-3 p-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 text-xs">
+          <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+          <div className="space-y-0.5">
+            {limitWarnings.includes('duration') && options.maxDurationMs && (
+              <p>Recording stops automatically at {formatTime(options.maxDurationMs)}</p>
+            )}
+            {limitWarnings.includes('size') && options.maxSizeBytes && (
+              <p>{formatFileSize(recordedSize)} of {formatFileSize(options.maxSizeBytes)} used; recording stops at the limit</p>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Additional Controls */}
       <div className="flex items-center justify-between mt-3 pt-3 border-t border-border">
         <div className="flex items-center space-x-2">
@@ -159,8 +254,10 @@ export default function RecordingOverlay() {
           <Button
             size="sm"
             variant="ghost"
-            onClick={() => setIsCameraVisible(!isCameraVisible)}
+            onClick={() => setCameraVisible(!isCameraVisible)}
+            disabled={!hasCamera}
             className="h-8 w-8 p-0"
+            title={isCameraVisible ? 'Hide Camera' : 'Show Camera'}
           >
             <Camera className={`h-4 w-4 ${isCameraVisible ? 'text-green-500' : 'text-muted-foreground'}`} />
           </Button>
@@ -169,15 +266,67 @@ export default function RecordingOverlay() {
           <Button
             size="sm"
             variant="ghost"
-            onClick={() => setIsMicMuted(!isMicMuted)}
+            onClick={() => setMicrophoneMuted(!isMicrophoneMuted)}
+            disabled={!options.microphone}
             className="h-8 w-8 p-0"
+            title={isMicrophoneMuted ? 'Unmute Microphone' : 'Mute Microphone'}
           >
-            {isMicMuted ? (
+            {isMicrophoneMuted ? (
               <MicOff className="h-4 w-4 text-red-500" />
             ) : (
               <Mic className="h-4 w-4 text-green-500" />
             )}
           </Button>
+
+          {/* Chapter Marker */}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => addMarker()}
+            className="h-8 px-2"
+            title={`Add Chapter Marker (${MARKER_HOTKEY_LABEL})`}
+          >
+            <Bookmark className="h-4 w-4" />
+            {markers.length > 0 && (
+              <span className="ml-1 text-xs font-medium">{markers.length}</span>
+            )}
+          </Button>
+
+          {/* Screenshot */}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => captureScreenshot()}
+            className="h-8 px-2"
+            title={`Take Screenshot (${SCREENSHOT_HOTKEY_LABEL})`}
+          >
+            <Aperture className="h-4 w-4" />
+            {screenshots.length > 0 && (
+              <span className="ml-1 text-xs font-medium">{screenshots.length}</span>
+            )}
+          </Button>
+
+          {/* Drawing Toggle */}
+          <Button
+            size="sm"
+            variant={options.enableDrawing ? 'secondary' : 'ghost'}
+            onClick={() => updateOptions({ enableDrawing: !options.enableDrawing })}
+            className="h-8 w-8 p-0"
+            title={options.enableDrawing ? 'Stop Drawing (Esc)' : 'Draw on Screen'}
+          >
+            <Pen className={`h-4 w-4 ${options.enableDrawing ? 'text-red-500' : ''}`} />
+          </Button>
+
+          {/* Click Highlights Toggle */}
+          <Button
+            size="sm"
+            variant={options.highlightClicks ? 'secondary' : 'ghost'}
+            onClick={() => updateOptions({ highlightClicks: !options.highlightClicks })}
+            className="h-8 w-8 p-0"
+            title={options.highlightClicks ? 'Disable Click Highlights' : 'Enable Click Highlights'}
+          >
+            <MousePointer className={`h-4 w-4 ${options.highlightClicks ? 'text-red-500' : ''}`} />
+          </Button>
         </div>
 
         {/* Drag Handle */}
@@ -185,6 +334,117 @@ export default function RecordingOverlay() {
           <Move className="h-4 w-4" />
         </div>
       </div>
+
+      {/* Drawing Tools */}
+      {options.enableDrawing && (
+        <div className="mt-3 pt-3 border-t border-border space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-1">
+              {DRAWING_TOOLS.map(({ id, label, icon: Icon }) => (
+                <Button
+                  key={id}
+                  size="sm"
+                  variant={drawingTool.tool === id ? 'secondary' : 'ghost'}
+                  onClick={() => updateDrawingTool({ tool: id })}
+                  className="h-7 w-7 p-0"
+                  title={label}
+                >
+                  <Icon className="h-4 w-4" />
+                </Button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => annotations.undo()}
+                className="h-7 w-7 p-0"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => annotations.clear()}
+                className="h-7 w-7 p-0"
+                title="Clear All"
+              >
+                <Trash className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-1.5">
+              {DRAWING_CONFIG.colors.map(color => (
+                <button
+                  key={color}
+                  onClick={() => updateDrawingTool({ color })}
+                  className={`h-5 w-5 rounded-full border-2 ${drawingTool.color === color ? 'border-primary ring-2 ring-primary/30' : 'border-border'}`}
+                  style={{ backgroundColor: color }}
+                  aria-label={`Draw in ${color}`}
+                />
+              ))}
+            </div>
+            <div className="flex items-center space-x-1">
+              {DRAWING_CONFIG.widths.map(width => (
+                <Button
+                  key={width}
+                  size="sm"
+                  variant={drawingTool.width === width ? 'secondary' : 'ghost'}
+                  onClick={() => updateDrawingTool({ width })}
+                  className="h-7 w-7 p-0"
+                  title={`${width}px`}
+                >
+                  <span className="rounded-full bg-current" style={{ width: width + 2, height: width + 2 }} />
+                </Button>
+              ))}
+              <Button
+                size="sm"
+                variant={drawingTool.autoFade ? 'secondary' : 'ghost'}
+                onClick={() => updateDrawingTool({ autoFade: !drawingTool.autoFade })}
+                className="h-7 w-7 p-0"
+                title={drawingTool.autoFade ? 'Auto-fade On' : 'Auto-fade Off'}
+              >
+                <Timer className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Audio Gain Controls */}
+      {audioSources.length > 0 && (
+        <div className="mt-3 pt-3 border-t border-border space-y-2">
+          {audioSources.map(({ id, label, icon: Icon }) => (
+            <div key={id} className="space-y-1">
+              <div className="flex items-center space-x-3">
+                <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-xs w-12">{label}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  value={options.audioGains[id]}
+                  onChange={(e) => setAudioGain(id, parseFloat(e.target.value))}
+                  className="flex-1"
+                  aria-label={`${label} volume`}
+                />
+                <span className="text-xs font-mono w-10 text-right">
+                  {Math.round(options.audioGains[id] * 100)}%
+                </span>
+              </div>
+              <AudioLevelMeter
+                level={audioLevels[id] ?? 0}
+                muted={id === 'microphone' && isMicrophoneMuted}
+                className="ml-7"
+              />
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { LifeBuoy, RotateCcw, Trash2 } from 'lucide-react';
+import { useRecording } from '../../contexts/RecordingContext';
+import { formatDate, formatDuration, formatFileSize } from '../../utils/formatters';
+
+export default function RecoveryDialog() {
+  const { state, recoverableSessions, recoverSession, discardRecoverableSession } = useRecording();
+  const [dismissed, setDismissed] = useState(false);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+
+  const isOpen = !dismissed && state === 'idle' && recoverableSessions.length > 0;
+
+  const handleRecover = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    try {
+      await recoverSession(sessionId);
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleDiscard = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    try {
+      await discardRecoverableSession(sessionId);
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && setDismissed(true)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <LifeBuoy className="h-5 w-5 text-primary" />
+            <span>Recover Unsaved Recording</span>
+          </DialogTitle>
+          <DialogDescription className="pt-2">
+            RecordLane closed before {recoverableSessions.length === 1 ? 'a recording was' : 'some recordings were'} saved.
+            Recover to review and upload, or discard to free up browser storage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {recoverableSessions.map(session => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between p-3 border border-border rounded-lg"
+            >
+              <div className="text-sm">
+                <p className="font-medium">{formatDate(new Date(session.startedAt))}</p>
+                <p className="text-muted-foreground">
+                  {formatDuration(session.duration)} · {formatFileSize(session.totalSize)}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleRecover(session.id)}
+                  disabled={busySessionId !== null}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Recover
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDiscard(session.id)}
+                  disabled={busySessionId !== null}
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                  title="Discard"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setDismissed(true)}>
+            Decide Later
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { LoadingSpinner } from '@/components/ui/spinner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Play, Pause, Trash2 } from 'lucide-react';
+import { RedactionRegion, RedactionStyle } from '../../contexts/RecordingContext';
+
+interface RedactionEditorProps {
+  /** Recording length in seconds */
+  duration: number;
+  /** Playhead position in seconds */
+  currentTime: number;
+  redactions: RedactionRegion[];
+  onRedactionsChange: (redactions: RedactionRegion[]) => void;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onSeek: (time: number) => void;
+  isPlaying: boolean;
+  onTogglePlay: () => void;
+  onApply: () => void;
+  onClose: () => void;
+  isRendering: boolean;
+  /** Render progress, 0-100 */
+  renderProgress: number;
+}
+
+const formatTime = (seconds: number) => {
+  if (isNaN(seconds) || !isFinite(seconds) || seconds < 0) {
+    return '0:00';
+  }
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export default function RedactionEditor({
+  duration,
+  currentTime,
+  redactions,
+  onRedactionsChange,
+  selectedId,
+  onSelect,
+  onSeek,
+  isPlaying,
+  onTogglePlay,
+  onApply,
+  onClose,
+  isRendering,
+  renderProgress
+}: RedactionEditorProps) {
+  const durationMs = duration * 1000;
+  const currentMs = currentTime * 1000;
+
+  const updateRegion = (id: string, changes: Partial<RedactionRegion>) => {
+    onRedactionsChange(redactions.map(region => region.id === id ? { ...region, ...changes } : region));
+  };
+
+  // Moving one edge past the other leaves the region running to the far end
+  const setRegionStart = (region: RedactionRegion) => {
+    updateRegion(region.id, { start: currentMs, end: region.end > currentMs ? region.end : durationMs });
+  };
+
+  const setRegionEnd = (region: RedactionRegion) => {
+    updateRegion(region.id, { end: currentMs, start: region.start < currentMs ? region.start : 0 });
+  };
+
+  const removeRegion = (id: string) => {
+    onRedactionsChange(redactions.filter(region => region.id !== id));
+    if (id === selectedId) {
+      onSelect(null);
+    }
+  };
+
+  const toPercent = (ms: number) => `${Math.min(100, Math.max(0, (ms / durationMs) * 100))}%`;
+
+  return (
+    <div className="space-y-4 p-4 bg-muted rounded-lg">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium">Redact</h3>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onTogglePlay}
+          disabled={isRendering}
+          className="h-8 w-8 p-0"
+          title={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Drag on the video to cover an area. Each box hides its area only between its in and out points,
+        and is burned into the video when you apply edits.
+      </p>
+
+      {/* Redaction Timeline */}
+      <div
+        className="relative bg-background rounded-md border border-border cursor-pointer overflow-hidden"
+        style={{ height: `${Math.max(2, redactions.length) * 0.75 + 0.5}rem` }}
+        onClick={(e) => {
+          if (isRendering) return;
+          const rect = e.currentTarget.getBoundingClientRect();
+          onSeek(((e.clientX - rect.left) / rect.width) * duration);
+        }}
+      >
+        {redactions.map((region, index) => (
+          <div
+            key={region.id}
+            className={`absolute h-2 rounded-sm pointer-events-none ${region.id === selectedId ? 'bg-primary' : 'bg-primary/40'}`}
+            style={{
+              top: `${index * 0.75 + 0.25}rem`,
+              left: toPercent(region.start),
+              width: toPercent(region.end - region.start),
+            }}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-foreground pointer-events-none"
+          style={{ left: toPercent(currentMs) }}
+        />
+      </div>
+
+      {/* Regions */}
+      {redactions.length > 0 && (
+        <div className="space-y-1">
+          {redactions.map((region, index) => (
+            <div
+              key={region.id}
+              onClick={() => onSelect(region.id)}
+              className={`flex flex-wrap items-center gap-2 text-sm rounded px-2 py-1 cursor-pointer ${
+                region.id === selectedId ? 'bg-primary/10 ring-1 ring-primary' : 'bg-background'
+              }`}
+            >
+              <span className="font-medium w-14">Box {index + 1}</span>
+              <button
+                onClick={() => onSeek(region.start / 1000)}
+                disabled={isRendering}
+                className="font-mono text-xs hover:underline"
+              >
+                {formatTime(region.start / 1000)} - {formatTime(region.end / 1000)}
+              </button>
+              <div className="flex-1" />
+              <Select
+                value={region.style}
+                onValueChange={(value) => updateRegion(region.id, { style: value as RedactionStyle })}
+                disabled={isRendering}
+              >
+                <SelectTrigger className="h-7 w-24 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="blur">Blur</SelectItem>
+                  <SelectItem value="fill">Solid</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button size="sm" variant="outline" onClick={() => setRegionStart(region)} disabled={isRendering} className="h-7 text-xs">
+                Set In
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setRegionEnd(region)} disabled={isRendering} className="h-7 text-xs">
+                Set Out
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeRegion(region.id);
+                }}
+                disabled={isRendering}
+                className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+                title="Remove Redaction"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isRendering && (
+        <div className="space-y-1">
+          <Progress value={renderProgress} className="h-2" />
+          <p className="text-xs text-muted-foreground">Rendering edits... {renderProgress}%</p>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={onClose} disabled={isRendering}>
+          Close
+        </Button>
+        <Button onClick={onApply} disabled={isRendering}>
+          {isRendering ? <LoadingSpinner text="Rendering..." size="sm" /> : 'Apply Edits'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RedactionRegion } from '../../contexts/RecordingContext';
+import { getActiveRedactions } from '../../utils/redaction';
+import { REDACTION_CONFIG } from '../../config';
+
+type RegionRect = Pick<RedactionRegion, 'x' | 'y' | 'width' | 'height'>;
+
+interface RedactionOverlayProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  redactions: RedactionRegion[];
+  /** Playhead position in seconds */
+  currentTime: number;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  /** Called with a new rectangle, as fractions of the frame */
+  onDraw: (rect: RegionRect) => void;
+  disabled?: boolean;
+}
+
+interface ContentBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const toRect = (a: { x: number; y: number }, b: { x: number; y: number }): RegionRect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y),
+});
+
+const toStyle = (rect: RegionRect): React.CSSProperties => ({
+  left: `${rect.x * 100}%`,
+  top: `${rect.y * 100}%`,
+  width: `${rect.width * 100}%`,
+  height: `${rect.height * 100}%`,
+});
+
+export default function RedactionOverlay({
+  videoRef,
+  redactions,
+  currentTime,
+  selectedId,
+  onSelect,
+  onDraw,
+  disabled = false
+}: RedactionOverlayProps) {
+  const [box, setBox] = useState<ContentBox | null>(null);
+  const [draft, setDraft] = useState<RegionRect | null>(null);
+  const dragStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  // The video is letterboxed inside its element, so regions are laid over the
+  // area the picture actually occupies
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const measure = () => {
+      if (!video.videoWidth || !video.videoHeight) return;
+
+      const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      setBox({
+        left: video.offsetLeft + (video.clientWidth - width) / 2,
+        top: video.offsetTop + (video.clientHeight - height) / 2,
+        width,
+        height,
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(video);
+    video.addEventListener('loadedmetadata', measure);
+
+    return () => {
+      observer.disconnect();
+      video.removeEventListener('loadedmetadata', measure);
+    };
+  }, [videoRef]);
+
+  const getPoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = getPoint(e);
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStartRef.current) return;
+    setDraft(toRect(dragStartRef.current, getPoint(e)));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current;
+    dragStartRef.current = null;
+    setDraft(null);
+    if (!start) return;
+
+    const rect = toRect(start, getPoint(e));
+    if (rect.width >= REDACTION_CONFIG.minRegionSize && rect.height >= REDACTION_CONFIG.minRegionSize) {
+      onDraw(rect);
+    }
+  };
+
+  if (!box) return null;
+
+  const active = getActiveRedactions(redactions, currentTime * 1000);
+  const selected = redactions.find(region => region.id === selectedId);
+  const visible = selected && !active.includes(selected) ? [...active, selected] : active;
+
+  return (
+    <div
+      className="absolute cursor-crosshair touch-none"
+      style={box}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {visible.map(region => (
+        <div
+          key={region.id}
+          className={`absolute cursor-pointer ${region.style === 'fill' ? 'bg-black' : 'bg-white/10'} ${
+            region.id === selectedId ? 'ring-2 ring-primary' : 'ring-1 ring-white/60'
+          } ${active.includes(region) ? '' : 'opacity-50 border border-dashed border-white'}`}
+          style={{
+            ...toStyle(region),
+            backdropFilter: region.style === 'blur' ? 'blur(8px)' : undefined,
+          }}
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            onSelect(region.id);
+          }}
+        />
+      ))}
+      {draft && (
+        <div className="absolute border-2 border-dashed border-primary bg-primary/20 pointer-events-none" style={toStyle(draft)} />
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,4 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Progress } from '@/components/ui/progress';
@@ -20,6 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
   Play, 
@@ -29,8 +29,6 @@ import {
   Cloud, 
   Scissors,
   X,
-  CheckCircle,
-  ExternalLink,
   Save,
   Upload,
   Wifi,
@@ -44,40 +42,108 @@ import {
   Calendar,
   Download,
   Copy,
-  Check
+  Check,
+  Bookmark,
+  Plus,
+  EyeOff,
+  ChevronDown,
+  ChevronUp
 } from 'lucide-react';
-import { useRecording } from '../../contexts/RecordingContext';
+import { useRecording, RecordingEventType, EditRange, CutSuggestionReason, RedactionRegion } from '../../contexts/RecordingContext';
 import { useYouTube } from '../../contexts/YouTubeContext';
 import { useApp } from '../../contexts/AppContext';
 import { useToast } from '@/components/ui/use-toast';
 import { formatDistanceToNow, format } from 'date-fns';
 import { YouTubeCommentsService, YouTubeComment } from '../../services/youtubeCommentsService';
 import { VideoTrimmingService } from '../../services/videoTrimmingService';
+import { mapMarkersToEdit, getChapterWarning } from '../../utils/chapters';
+import { buildTitleCards } from '../../utils/titleCards';
+import { validateVideoMetadata } from '../../utils/videoMetadata';
+import { getKeepRanges, getEditedDuration, findCutAt, mapTimeToEdit } from '../../utils/editDecisionList';
+import CutEditor from './CutEditor';
+import VideoMetadataFields from './VideoMetadataFields';
+import ThumbnailPicker from './ThumbnailPicker';
+import RedactionEditor from './RedactionEditor';
+import RedactionOverlay from './RedactionOverlay';
+import ExportMenu from './ExportMenu';
+import ScreenshotGallery from './ScreenshotGallery';
+
+const CUT_SUGGESTION_LABELS: Record<CutSuggestionReason, string> = {
+  'silence': 'Silence',
+  'frozen': 'Still screen',
+  'dead-air': 'Dead air',
+};
+
+const RECORDING_EVENT_LABELS: Record<RecordingEventType, string> = {
+  'microphone-muted': 'Mic muted',
+  'microphone-unmuted': 'Mic unmuted',
+  'camera-hidden': 'Camera hidden',
+  'camera-shown': 'Camera shown',
+};
 
 export default function ReviewPanel() {
-  const { recordedBlob, deleteRecording, restartRecording, getPreviewUrl } = useRecording();
-  const { uploadVideo, isConnected, connectYouTube } = useYouTube();
-  const { dispatch } = useApp();
+  const {
+    recordedBlob,
+    deleteRecording,
+    restartRecording,
+    getPreviewUrl,
+    recordingEvents,
+    options,
+    markers,
+    addMarker,
+    updateMarker,
+    removeMarker,
+    screenshots,
+    updateScreenshot,
+    removeScreenshot,
+    cuts,
+    setCuts,
+    cutSuggestions,
+    isAnalyzingRecording,
+    acceptCutSuggestion,
+    rejectCutSuggestion,
+    redactions,
+    setRedactions,
+    interactions
+  } = useRecording();
+  const { enqueueUpload, isConnected, connectYouTube } = useYouTube();
+  const { state: appState } = useApp();
   const { toast } = useToast();
-  const navigate = useNavigate();
 
   const [title, setTitle] = useState(`Recording ${new Date().toLocaleDateString()}`);
   const [privacy, setPrivacy] = useState<'private' | 'unlisted' | 'public'>('unlisted');
+  const [videoMetadata, setVideoMetadata] = useState(appState.settings.videoMetadata);
+  const [showVideoDetails, setShowVideoDetails] = useState(false);
+  const [thumbnail, setThumbnail] = useState<Blob | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [showTrimming, setShowTrimming] = useState(false);
-  const [trimStart, setTrimStart] = useState(0);
-  const [trimEnd, setTrimEnd] = useState(0);
-  const [uploadSuccess, setUploadSuccess] = useState(false);
-  const [uploadResult, setUploadResult] = useState<{ videoId: string; videoUrl: string } | null>(null);
+  const [includeIntro, setIncludeIntro] = useState(appState.settings.introCard.enabled);
+  const [includeOutro, setIncludeOutro] = useState(appState.settings.outroCard.enabled);
+  const [isAddingTitleCards, setIsAddingTitleCards] = useState(false);
+  const [includeInteractions, setIncludeInteractions] = useState(true);
+  const [isAddingInteractions, setIsAddingInteractions] = useState(false);
+  const [showRedaction, setShowRedaction] = useState(false);
+  const [selectedRedactionId, setSelectedRedactionId] = useState<string | null>(null);
   const [showConnectPrompt, setShowConnectPrompt] = useState(false);
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [trimmedBlob, setTrimmedBlob] = useState<Blob | null>(null);
+  const [isTrimming, setIsTrimming] = useState(false);
+  const [trimProgress, setTrimProgress] = useState(0);
+  // Cuts baked into trimmedBlob, so chapters can be moved onto the edited video
+  const [renderedCuts, setRenderedCuts] = useState<EditRange[] | null>(null);
+  // Redactions burned into trimmedBlob; uploading is blocked until this matches
+  const [renderedRedactions, setRenderedRedactions] = useState<RedactionRegion[]>([]);
+  // Whether click and keystroke visuals are drawn into trimmedBlob
+  const [renderedInteractions, setRenderedInteractions] = useState(false);
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const cutsRef = useRef(cuts);
+  cutsRef.current = cuts;
   const previewUrl = getPreviewUrl();
 
   useEffect(() => {
@@ -87,11 +153,16 @@ export default function ReviewPanel() {
       const handleLoadedMetadata = () => {
         if (isFinite(video.duration)) {
           setDuration(video.duration);
-          setTrimEnd(video.duration);
         }
+        setVideoSize({ width: video.videoWidth, height: video.videoHeight });
       };
 
       const handleTimeUpdate = () => {
+        // Preview the edit by jumping over cut sections during playback
+        const cut = !video.paused ? findCutAt(video.currentTime * 1000, cutsRef.current) : null;
+        if (cut) {
+          video.currentTime = cut.end / 1000;
+        }
         setCurrentTime(video.currentTime);
       };
 
@@ -147,6 +218,18 @@ export default function ReviewPanel() {
     }
   };
 
+  const handleAddRedaction = (rect: Pick<RedactionRegion, 'x' | 'y' | 'width' | 'height'>) => {
+    const region: RedactionRegion = {
+      id: `redaction-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      ...rect,
+      start: currentTime * 1000,
+      end: duration * 1000,
+      style: 'blur',
+    };
+    setRedactions([...redactions, region]);
+    setSelectedRedactionId(region.id);
+  };
+
   const handleSeek = (time: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime = time;
@@ -154,32 +237,62 @@ export default function ReviewPanel() {
     }
   };
 
-  const handleTrim = async () => {
-    if (!recordedBlob || trimStart >= trimEnd) {
-      toast({
-        title: "Invalid Trim Range",
-        description: "Please select a valid trim range",
-        variant: "destructive",
-      });
+  // Only recordings of this tab have clicks and key presses to draw
+  const interactionOverlay = includeInteractions && interactions.length > 0
+    ? { events: interactions, style: appState.settings.interactionOverlay }
+    : null;
+
+  const handleApplyEdits = async () => {
+    if (!recordedBlob) return;
+
+    // Nothing cut, redacted or drawn: upload the original recording
+    if (cuts.length === 0 && redactions.length === 0 && !interactionOverlay) {
+      setTrimmedBlob(null);
+      setRenderedCuts(null);
+      setRenderedRedactions([]);
+      setRenderedInteractions(false);
+      setShowTrimming(false);
+      setShowRedaction(false);
       return;
     }
 
+    setIsTrimming(true);
+    setTrimProgress(0);
+
     try {
-      const trimmedVideo = await VideoTrimmingService.trimVideo(recordedBlob, trimStart, trimEnd);
-      setTrimmedBlob(trimmedVideo);
+      const editedVideo = await VideoTrimmingService.renderEdits(
+        recordedBlob,
+        getKeepRanges(cuts, duration * 1000),
+        options.encodingProfile,
+        (progress) => setTrimProgress(Math.round(progress * 100)),
+        redactions,
+        interactionOverlay
+      );
+      setTrimmedBlob(editedVideo);
+      setRenderedCuts(cuts);
+      setRenderedRedactions(redactions);
+      setRenderedInteractions(interactionOverlay !== null);
       setShowTrimming(false);
-      
+      setShowRedaction(false);
+
+      const applied = [
+        cuts.length > 0 && `${cuts.length} ${cuts.length === 1 ? 'section' : 'sections'} cut`,
+        redactions.length > 0 && `${redactions.length} ${redactions.length === 1 ? 'area' : 'areas'} redacted`,
+        interactionOverlay && 'clicks and keys drawn',
+      ].filter(Boolean).join(', ');
       toast({
-        title: "Video Trimmed",
-        description: "Your video has been trimmed successfully",
+        title: "Edits Applied",
+        description: `${applied} in your video`,
       });
     } catch (error) {
-      console.error('Trim failed:', error);
+      console.error('Rendering edits failed:', error);
       toast({
-        title: "Trim Failed",
-        description: "Failed to trim the video. Please try again.",
+        title: "Edit Failed",
+        description: "Failed to apply your edits. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsTrimming(false);
     }
   };
 
@@ -192,49 +305,105 @@ export default function ReviewPanel() {
     const blobToUpload = trimmedBlob || recordedBlob;
     if (!blobToUpload) return;
 
+    // Never upload a video with redactions that have not been burned in
+    if (redactions.length > 0 && renderedRedactions !== redactions) {
+      toast({
+        title: "Redactions Not Applied",
+        description: "Apply your edits so the redacted areas are hidden before syncing.",
+        variant: "destructive",
+      });
+      setShowTrimming(false);
+      setShowRedaction(true);
+      return;
+    }
+
+    const metadataError = validateVideoMetadata(videoMetadata);
+    if (metadataError) {
+      toast({
+        title: "Check YouTube Details",
+        description: metadataError,
+        variant: "destructive",
+      });
+      setShowVideoDetails(true);
+      return;
+    }
+
+    const chapters = trimmedBlob && renderedCuts
+      ? mapMarkersToEdit(markers, getKeepRanges(renderedCuts, duration * 1000))
+      : markers;
+
     setIsUploading(true);
     setUploadProgress(0);
-    setUploadSuccess(false);
 
     try {
-      const result = await uploadVideo(blobToUpload, title, privacy, (progress) => {
-        setUploadProgress(progress.percentage);
-      });
-      
-      setUploadProgress(100);
-      setUploadSuccess(true);
-      setUploadResult(result);
-
-      const recording = {
-        id: Date.now().toString(),
-        title,
-        youtubeVideoId: result.videoId,
-        youtubeLink: result.videoUrl,
-        duration: duration * 1000,
-        createdAt: new Date(),
-        privacy: privacy,
-        uploadStatus: 'completed' as const,
-      };
+      let videoToUpload = blobToUpload;
+      let chaptersToUpload = chapters;
+      let durationToUpload = trimmedBlob && renderedCuts
+        ? getEditedDuration(renderedCuts, duration * 1000)
+        : duration * 1000;
+
+      // Render again if clicks and keys were switched on or off since the edits were applied
+      if ((interactionOverlay !== null) !== renderedInteractions && recordedBlob) {
+        setIsAddingInteractions(true);
+        videoToUpload = await VideoTrimmingService.renderEdits(
+          recordedBlob,
+          getKeepRanges(trimmedBlob && renderedCuts ? renderedCuts : [], duration * 1000),
+          options.encodingProfile,
+          (progress) => setUploadProgress(Math.round(progress * 100)),
+          renderedRedactions,
+          interactionOverlay
+        );
+        setIsAddingInteractions(false);
+        setUploadProgress(0);
+      }
+
+      if (includeIntro || includeOutro) {
+        setIsAddingTitleCards(true);
+        const cards = await buildTitleCards(
+          { ...appState.settings.introCard, enabled: includeIntro },
+          { ...appState.settings.outroCard, enabled: includeOutro },
+          { title: title.trim(), date: new Date() }
+        );
+        videoToUpload = await VideoTrimmingService.addTitleCards(
+          videoToUpload,
+          cards,
+          options.encodingProfile,
+          (progress) => setUploadProgress(Math.round(progress * 100))
+        );
+        // Chapters start after the intro card
+        const introMs = cards.intro?.durationMs ?? 0;
+        chaptersToUpload = chapters.map(marker => ({ ...marker, timestamp: marker.timestamp + introMs }));
+        durationToUpload += introMs + (cards.outro?.durationMs ?? 0);
+        setIsAddingTitleCards(false);
+        setUploadProgress(0);
+      }
 
-      dispatch({ type: 'ADD_RECORDING', payload: recording });
+      enqueueUpload(videoToUpload, title, privacy, durationToUpload, {
+        chapters: chaptersToUpload,
+        cuts: trimmedBlob && renderedCuts ? renderedCuts : undefined,
+        metadata: videoMetadata,
+        thumbnail: thumbnail ?? undefined,
+      });
 
       toast({
-        title: "Sync Complete",
-        description: "Your recording has been synced to YouTube",
+        title: "Added to Uploads",
+        description: "Your recording is uploading in the background. Follow it from the uploads tray.",
       });
 
-      navigate(`/recording/${recording.id}`);
+      // The queue holds its own copy, so this recording can make way for the next
+      deleteRecording();
       
     } catch (error) {
       console.error('Sync failed:', error);
       setUploadProgress(0);
-      setUploadSuccess(false);
       toast({
         title: "Sync Failed",
         description: "Failed to sync recording to YouTube",
         variant: "destructive",
       });
     } finally {
+      setIsAddingInteractions(false);
+      setIsAddingTitleCards(false);
       setTimeout(() => setIsUploading(false), 1000);
     }
   };
@@ -285,6 +454,23 @@ export default function ReviewPanel() {
 
   const progressPercentage = duration > 0 ? (currentTime / duration) * 100 : 0;
 
+  // Preview of the chapters YouTube will get, on the edited video with its title cards
+  const introMs = includeIntro ? appState.settings.introCard.durationSeconds * 1000 : 0;
+  const outroMs = includeOutro ? appState.settings.outroCard.durationSeconds * 1000 : 0;
+  const chapterWarning = duration > 0
+    ? getChapterWarning(
+        (trimmedBlob && renderedCuts ? mapMarkersToEdit(markers, getKeepRanges(renderedCuts, duration * 1000)) : markers)
+          .map(marker => ({ ...marker, timestamp: marker.timestamp + introMs })),
+        (trimmedBlob && renderedCuts ? getEditedDuration(renderedCuts, duration * 1000) : duration * 1000) + introMs + outroMs,
+        videoMetadata.description
+      )
+    : null;
+  // Thumbnail frames come from the applied edit when there is one, so redactions stay hidden
+  const thumbnailFrameTime = trimmedBlob && renderedCuts
+    ? (mapTimeToEdit(currentTime * 1000, getKeepRanges(renderedCuts, duration * 1000)) ?? 0) / 1000
+    : currentTime;
+  const isEditing = showTrimming || showRedaction;
+
   return (
     <>
       <Dialog open={true} onOpenChange={() => !isUploading && handleClose()}>
@@ -293,13 +479,9 @@ export default function ReviewPanel() {
             <DialogHeader>
               <DialogTitle className="flex items-center space-x-2">
                 <span>Review Recording</span>
-                {uploadSuccess && <CheckCircle className="h-5 w-5 text-green-500" />}
               </DialogTitle>
               <DialogDescription>
-                {uploadSuccess 
-                  ? "Your recording has been successfully synced to YouTube"
-                  : "Review your recording and sync to YouTube"
-                }
+                Review your recording and sync to YouTube
               </DialogDescription>
             </DialogHeader>
           </div>
@@ -317,13 +499,25 @@ export default function ReviewPanel() {
                     onLoadedMetadata={(e) => {
                       if (isFinite(e.currentTarget.duration)) {
                         setDuration(e.currentTarget.duration);
-                        setTrimEnd(e.currentTarget.duration);
                       }
                     }}
                   />
+
+                  {/* Redaction Regions */}
+                  {showRedaction && (
+                    <RedactionOverlay
+                      videoRef={videoRef}
+                      redactions={redactions}
+                      currentTime={currentTime}
+                      selectedId={selectedRedactionId}
+                      onSelect={setSelectedRedactionId}
+                      onDraw={handleAddRedaction}
+                      disabled={isTrimming}
+                    />
+                  )}
                   
                   {/* Play/Pause Overlay */}
-                  {!uploadSuccess && (
+                  {!showRedaction && (
                     <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 transition-opacity bg-black/20">
                       <Button
                         size="lg"
@@ -351,7 +545,9 @@ export default function ReviewPanel() {
                           className="text-white mb-4"
                         />
                         <p className="text-white text-sm">
-                          {uploadSuccess ? 'Sync Complete!' : 'Syncing to YouTube...'}
+                          {isAddingInteractions
+                            ? 'Updating clicks and keys...'
+                            : isAddingTitleCards ? 'Adding title cards...' : 'Adding to uploads...'}
                         </p>
                       </div>
                     </div>
@@ -359,14 +555,14 @@ export default function ReviewPanel() {
                 </div>
 
                 {/* Timeline */}
-                {!uploadSuccess && !showTrimming && (
+                {!isEditing && (
                   <div className="space-y-2">
                     <div className="flex items-center justify-between text-sm text-muted-foreground">
                       <span>{formatTime(currentTime)}</span>
                       <span>{formatTime(duration)}</span>
                     </div>
                     <div
-                      className="h-2 bg-muted rounded-full cursor-pointer trim-timeline"
+                      className="relative h-2 bg-muted rounded-full cursor-pointer trim-timeline"
                       style={{ '--progress': `${progressPercentage}%` } as any}
                       onClick={(e) => {
                         if (!isUploading) {
@@ -382,55 +578,244 @@ export default function ReviewPanel() {
                       >
                         <div className="absolute right-0 top-1/2 transform translate-x-1/2 -translate-y-1/2 w-4 h-4 bg-primary rounded-full border-2 border-background" />
                       </div>
+                      {duration > 0 && recordingEvents.map((event, index) => (
+                        <div
+                          key={`${event.type}-${index}`}
+                          className="absolute top-1/2 -translate-y-1/2 w-0.5 h-4 bg-yellow-500 pointer-events-none"
+                          style={{ left: `${Math.min(100, (event.timestamp / 1000 / duration) * 100)}%` }}
+                          title={`${RECORDING_EVENT_LABELS[event.type]} at ${formatTime(event.timestamp / 1000)}`}
+                        />
+                      ))}
+                      {duration > 0 && cuts.map((cut, index) => (
+                        <div
+                          key={`cut-${index}`}
+                          className="absolute inset-y-0 bg-red-500/50 pointer-events-none"
+                          style={{
+                            left: `${Math.min(100, (cut.start / 1000 / duration) * 100)}%`,
+                            width: `${Math.min(100, ((cut.end - cut.start) / 1000 / duration) * 100)}%`,
+                          }}
+                          title={`Cut ${formatTime(cut.start / 1000)} - ${formatTime(cut.end / 1000)}`}
+                        />
+                      ))}
+                      {duration > 0 && cutSuggestions.map(suggestion => (
+                        <div
+                          key={suggestion.id}
+                          className="absolute inset-y-0 bg-amber-400/50 pointer-events-none"
+                          style={{
+                            left: `${Math.min(100, (suggestion.start / 1000 / duration) * 100)}%`,
+                            width: `${Math.min(100, ((suggestion.end - suggestion.start) / 1000 / duration) * 100)}%`,
+                          }}
+                          title={`Suggested cut ${formatTime(suggestion.start / 1000)} - ${formatTime(suggestion.end / 1000)}`}
+                        />
+                      ))}
+                      {duration > 0 && markers.map(marker => (
+                        <div
+                          key={marker.id}
+                          className="absolute top-1/2 -translate-y-1/2 w-1 h-5 rounded-sm bg-blue-500 pointer-events-none"
+                          style={{ left: `${Math.min(100, (marker.timestamp / 1000 / duration) * 100)}%` }}
+                          title={`${marker.label} at ${formatTime(marker.timestamp / 1000)}`}
+                        />
+                      ))}
                     </div>
-                  </div>
-                )}
 
-                {/* Trimming Interface */}
-                {showTrimming && (
-                  <div className="space-y-4 p-4 bg-muted rounded-lg">
-                    <h3 className="text-lg font-medium">Trim Video</h3>
-                    <div className="space-y-2">
-                      <div className="flex items-center space-x-4">
-                        <label className="text-sm font-medium">Start:</label>
-                        <input
-                          type="range"
-                          min={0}
-                          max={duration}
-                          step={0.1}
-                          value={trimStart}
-                          onChange={(e) => setTrimStart(parseFloat(e.target.value))}
-                          className="flex-1"
-                        />
-                        <span className="text-sm w-16">{formatTime(trimStart)}</span>
+                    {recordingEvents.length > 0 && (
+                      <div className="flex flex-wrap gap-2 pt-2">
+                        {recordingEvents.map((event, index) => (
+                          <button
+                            key={`${event.type}-${index}`}
+                            onClick={() => handleSeek(event.timestamp / 1000)}
+                            disabled={isUploading}
+                            className="text-xs px-2 py-1 rounded-full bg-yellow-50 text-yellow-800 border border-yellow-200 hover:bg-yellow-100 dark:bg-yellow-900/20 dark:text-yellow-200 dark:border-yellow-800"
+                          >
+                            {formatTime(event.timestamp / 1000)} · {RECORDING_EVENT_LABELS[event.type]}
+                          </button>
+                        ))}
                       </div>
-                      <div className="flex items-center space-x-4">
-                        <label className="text-sm font-medium">End:</label>
-                        <input
-                          type="range"
-                          min={0}
-                          max={duration}
-                          step={0.1}
-                          value={trimEnd}
-                          onChange={(e) => setTrimEnd(parseFloat(e.target.value))}
-                          className="flex-1"
-                        />
-                        <span className="text-sm w-16">{formatTime(trimEnd)}</span>
+                    )}
+
+                    {/* Chapters */}
+                    <div className="space-y-2 pt-2">
+                      <div className="flex items-center justify-between">
+                        <label className="text-sm font-medium flex items-center">
+                          <Bookmark className="h-4 w-4 mr-2" />
+                          Chapters
+                        </label>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => addMarker(undefined, currentTime * 1000)}
+                          disabled={isUploading}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add at {formatTime(currentTime)}
+                        </Button>
                       </div>
+                      {markers.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">
+                          No chapters yet. Drop markers while recording with Alt+M, or add them here.
+                          They are added to the YouTube description when you sync.
+                        </p>
+                      ) : (
+                        <div className="space-y-1">
+                          {markers.map(marker => (
+                            <div key={marker.id} className="flex items-center space-x-2">
+                              <button
+                                onClick={() => handleSeek(marker.timestamp / 1000)}
+                                disabled={isUploading}
+                                className="font-mono text-xs w-14 text-left text-blue-600 hover:underline dark:text-blue-400"
+                              >
+                                {formatTime(marker.timestamp / 1000)}
+                              </button>
+                              <Input
+                                value={marker.label}
+                                onChange={(e) => updateMarker(marker.id, e.target.value)}
+                                placeholder="Chapter title"
+                                disabled={isUploading}
+                                className="h-8 text-sm"
+                              />
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => removeMarker(marker.id)}
+                                disabled={isUploading}
+                                className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                                title="Remove Chapter"
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                          {trimmedBlob && renderedCuts && (
+                            <p className="text-xs text-muted-foreground">
+                              Chapters inside cut sections are left out of the upload.
+                            </p>
+                          )}
+                          {chapterWarning && (
+                            <p className="text-xs text-yellow-800 flex items-start dark:text-yellow-200">
+                              <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                              {chapterWarning}
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
-                    <div className="flex justify-end space-x-2">
-                      <Button variant="outline" onClick={() => setShowTrimming(false)}>
-                        Cancel
-                      </Button>
-                      <Button onClick={handleTrim} disabled={trimStart >= trimEnd}>
-                        Apply Trim
-                      </Button>
-                    </div>
+
+                    {/* Screenshots */}
+                    <ScreenshotGallery
+                      screenshots={screenshots}
+                      title={title}
+                      onUpdate={updateScreenshot}
+                      onRemove={removeScreenshot}
+                      onSeek={handleSeek}
+                      disabled={isUploading}
+                    />
+
+                    {/* Suggested Cuts */}
+                    {(isAnalyzingRecording || cutSuggestions.length > 0) && (
+                      <div className="space-y-2 pt-2">
+                        <div className="flex items-center justify-between">
+                          <label className="text-sm font-medium flex items-center">
+                            <Scissors className="h-4 w-4 mr-2" />
+                            Suggested Cuts
+                          </label>
+                          {cutSuggestions.length > 1 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => cutSuggestions.forEach(suggestion => acceptCutSuggestion(suggestion.id))}
+                              disabled={isUploading || isTrimming}
+                            >
+                              <Check className="h-4 w-4 mr-1" />
+                              Accept All
+                            </Button>
+                          )}
+                        </div>
+                        {isAnalyzingRecording ? (
+                          <LoadingSpinner text="Looking for silence and still screens..." size="sm" />
+                        ) : (
+                          <div className="space-y-1">
+                            {cutSuggestions.map(suggestion => (
+                              <div key={suggestion.id} className="flex items-center justify-between text-sm bg-amber-50 rounded px-2 py-1 dark:bg-amber-900/20">
+                                <button
+                                  onClick={() => handleSeek(suggestion.start / 1000)}
+                                  disabled={isUploading}
+                                  className="font-mono text-xs hover:underline"
+                                >
+                                  {formatTime(suggestion.start / 1000)} - {formatTime(suggestion.end / 1000)}
+                                  <span className="font-sans text-muted-foreground ml-2">
+                                    {CUT_SUGGESTION_LABELS[suggestion.reason]}
+                                  </span>
+                                </button>
+                                <div className="flex items-center">
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => acceptCutSuggestion(suggestion.id)}
+                                    disabled={isUploading || isTrimming}
+                                    className="h-6 w-6 p-0 text-muted-foreground hover:text-green-600"
+                                    title="Cut this section"
+                                  >
+                                    <Check className="h-3 w-3" />
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    onClick={() => rejectCutSuggestion(suggestion.id)}
+                                    disabled={isUploading || isTrimming}
+                                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                                    title="Keep this section"
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </Button>
+                                </div>
+                              </div>
+                            ))}
+                            <p className="text-xs text-muted-foreground">
+                              Accepted sections are added to your cuts. Open the editor to apply them.
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
 
+                {/* Cut Editor */}
+                {showTrimming && (
+                  <CutEditor
+                    duration={duration}
+                    currentTime={currentTime}
+                    cuts={cuts}
+                    onCutsChange={setCuts}
+                    onSeek={handleSeek}
+                    onApply={handleApplyEdits}
+                    onClose={() => setShowTrimming(false)}
+                    isRendering={isTrimming}
+                    renderProgress={trimProgress}
+                  />
+                )}
+
+                {/* Redaction Editor */}
+                {showRedaction && (
+                  <RedactionEditor
+                    duration={duration}
+                    currentTime={currentTime}
+                    redactions={redactions}
+                    onRedactionsChange={setRedactions}
+                    selectedId={selectedRedactionId}
+                    onSelect={setSelectedRedactionId}
+                    onSeek={handleSeek}
+                    isPlaying={isPlaying}
+                    onTogglePlay={togglePlayPause}
+                    onApply={handleApplyEdits}
+                    onClose={() => setShowRedaction(false)}
+                    isRendering={isTrimming}
+                    renderProgress={trimProgress}
+                  />
+                )}
+
                 {/* Recording Details */}
-                {!uploadSuccess && !showTrimming && (
+                {!isEditing && (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div className="space-y-2">
                       <label className="text-sm font-medium">Title</label>
@@ -455,6 +840,51 @@ export default function ReviewPanel() {
                         </SelectContent>
                       </Select>
                     </div>
+
+                    <div className="md:col-span-2 flex flex-wrap items-center gap-6">
+                      <label className="flex items-center space-x-2 text-sm">
+                        <Switch checked={includeIntro} onCheckedChange={setIncludeIntro} disabled={isUploading} />
+                        <span>Intro card</span>
+                      </label>
+                      <label className="flex items-center space-x-2 text-sm">
+                        <Switch checked={includeOutro} onCheckedChange={setIncludeOutro} disabled={isUploading} />
+                        <span>Outro card</span>
+                      </label>
+                      {interactions.length > 0 && (
+                        <label className="flex items-center space-x-2 text-sm">
+                          <Switch checked={includeInteractions} onCheckedChange={setIncludeInteractions} disabled={isUploading} />
+                          <span>Clicks and keys</span>
+                        </label>
+                      )}
+                      <span className="text-xs text-muted-foreground">Card text, colors and length, and how clicks and keys look, are set in Settings</span>
+                    </div>
+
+                    <div className="md:col-span-2 space-y-4">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setShowVideoDetails(!showVideoDetails)}
+                        className="px-0"
+                      >
+                        {showVideoDetails ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+                        YouTube details
+                      </Button>
+                      {/* Hidden rather than unmounted, so a chosen thumbnail survives collapsing */}
+                      <div className={showVideoDetails ? 'space-y-4' : 'hidden'}>
+                        <VideoMetadataFields
+                          value={videoMetadata}
+                          onChange={setVideoMetadata}
+                          disabled={isUploading}
+                        />
+                        <ThumbnailPicker
+                          videoBlob={trimmedBlob || recordedBlob}
+                          currentTime={thumbnailFrameTime}
+                          title={title}
+                          onChange={setThumbnail}
+                          disabled={isUploading}
+                        />
+                      </div>
+                    </div>
                   </div>
                 )}
 
@@ -462,38 +892,10 @@ export default function ReviewPanel() {
                 {isUploading && (
                   <ProgressIndicator
                     progress={uploadProgress}
-                    status={uploadSuccess ? 'completed' : 'uploading'}
-                    text={uploadSuccess ? 'Sync completed successfully!' : undefined}
+                    status="uploading"
                   />
                 )}
 
-                {/* Success Message with Links */}
-                {uploadSuccess && uploadResult && (
-                  <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
-                    <div className="flex items-start space-x-3">
-                      <CheckCircle className="h-5 w-5 text-green-500 flex-shrink-0 mt-0.5" />
-                      <div className="flex-1">
-                        <h3 className="font-medium text-green-800 dark:text-green-200">
-                          Recording synced successfully!
-                        </h3>
-                        <p className="text-sm text-green-700 dark:text-green-300 mt-1">
-                          Your recording is now available on YouTube
-                        </p>
-                        <div className="flex space-x-2 mt-3">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => window.open(uploadResult.videoUrl, '_blank')}
-                          >
-                            <ExternalLink className="h-4 w-4 mr-2" />
-                            View on YouTube
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
-
                 {/* Connect YouTube Prompt */}
                 {showConnectPrompt && (
                   <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
@@ -533,65 +935,85 @@ export default function ReviewPanel() {
 
           {/* Actions Footer */}
           <div className="p-6 border-t border-border">
-            {!uploadSuccess && (
-              <div className="flex flex-col space-y-3">
-                {/* First row of buttons */}
-                <div className="flex items-center justify-center space-x-3">
-                  <Button
-                    variant="outline"
-                    onClick={() => setShowTrimming(!showTrimming)}
-                    disabled={isUploading}
-                    className="flex-1 max-w-[180px]"
-                  >
-                    <Scissors className="h-4 w-4 mr-2" />
-                    {showTrimming ? 'Cancel Trim' : 'Trim'}
-                  </Button>
-                  
-                  <Button
-                    variant="outline"
-                    onClick={handleRestart}
-                    disabled={isUploading}
-                    className="flex-1 max-w-[180px]"
-                  >
-                    <RotateCcw className="h-4 w-4 mr-2" />
-                    Restart
-                  </Button>
-                  
-                  <Button
-                    variant="outline"
-                    onClick={handleDeleteClick}
-                    disabled={isUploading}
-                    className="flex-1 max-w-[180px] text-destructive hover:text-destructive"
-                  >
-                    <Trash2 className="h-4 w-4 mr-2" />
-                    Delete
-                  </Button>
-                </div>
+            <div className="flex flex-col space-y-3">
+              {/* First row of buttons */}
+              <div className="flex items-center justify-center space-x-3">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setShowRedaction(false);
+                    setShowTrimming(!showTrimming);
+                  }}
+                  disabled={isUploading || isTrimming}
+                  className="flex-1 max-w-[180px]"
+                >
+                  <Scissors className="h-4 w-4 mr-2" />
+                  {showTrimming ? 'Close Editor' : cuts.length > 0 ? `Edit (${cuts.length})` : 'Edit'}
+                </Button>
 
-                {/* Sync to YouTube button - full width */}
                 <Button
-                  onClick={handleSyncToYouTube}
-                  disabled={isUploading || !title.trim()}
-                  className="w-full"
+                  variant="outline"
+                  onClick={() => {
+                    setShowTrimming(false);
+                    setShowRedaction(!showRedaction);
+                  }}
+                  disabled={isUploading || isTrimming}
+                  className="flex-1 max-w-[180px]"
                 >
-                  {isUploading ? (
-                    <LoadingSpinner text="Syncing..." size="sm" />
-                  ) : (
-                    <>
-                      <Cloud className="h-4 w-4 mr-2" />
-                      Sync to YouTube
-                    </>
-                  )}
+                  <EyeOff className="h-4 w-4 mr-2" />
+                  {showRedaction ? 'Close Redaction' : redactions.length > 0 ? `Redact (${redactions.length})` : 'Redact'}
+                </Button>
+                
+                {recordedBlob && (
+                  <ExportMenu
+                    recordedBlob={recordedBlob}
+                    editedBlob={trimmedBlob}
+                    title={title}
+                    durationMs={duration * 1000}
+                    editedDurationMs={renderedCuts ? getEditedDuration(renderedCuts, duration * 1000) : duration * 1000}
+                    width={videoSize.width}
+                    height={videoSize.height}
+                    disabled={isUploading || isTrimming}
+                  />
+                )}
+
+                <Button
+                  variant="outline"
+                  onClick={handleRestart}
+                  disabled={isUploading}
+                  className="flex-1 max-w-[180px]"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restart
+                </Button>
+                
+                <Button
+                  variant="outline"
+                  onClick={handleDeleteClick}
+                  disabled={isUploading}
+                  className="flex-1 max-w-[180px] text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
                 </Button>
               </div>
-            )}
-            
-            {uploadSuccess && (
-              <Button onClick={deleteRecording} className="w-full">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Done
+
+              {/* Sync to YouTube button - full width */}
+              <Button
+                onClick={handleSyncToYouTube}
+                disabled={isUploading || !title.trim()}
+                className="w-full"
+              >
+                {isUploading ? (
+                  <LoadingSpinner text="Syncing..." size="sm" />
+                ) : (
+                  <>
+                    <Cloud className="h-4 w-4 mr-2" />
+                    Sync to YouTube
+                  </>
+                )}
               </Button>
-            )}
+            </div>
           </div>
         </DialogContent>
       </Dialog>
@@ -0,0 +1,207 @@
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { PenLine, Undo2, Trash2, Save } from 'lucide-react';
+import { Screenshot } from '../../contexts/RecordingContext';
+import { DRAWING_CONFIG } from '../../config';
+
+interface ScreenshotAnnotatorProps {
+  /** The screenshot being annotated; null keeps the dialog closed */
+  screenshot: Screenshot | null;
+  onSave: (blob: Blob) => void;
+  onClose: () => void;
+}
+
+interface Stroke {
+  color: string;
+  width: number;
+  /** In image pixels */
+  points: { x: number; y: number }[];
+}
+
+export default function ScreenshotAnnotator({ screenshot, onSave, onClose }: ScreenshotAnnotatorProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const activeStrokeRef = useRef<Stroke | null>(null);
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [color, setColor] = useState(DRAWING_CONFIG.colors[0]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const drawStroke = (ctx: CanvasRenderingContext2D, stroke: Stroke) => {
+    ctx.strokeStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    stroke.points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(point.x, point.y);
+      } else {
+        ctx.lineTo(point.x, point.y);
+      }
+    });
+    ctx.stroke();
+  };
+
+  const redraw = useCallback((allStrokes: Stroke[]) => {
+    const canvas = canvasRef.current;
+    const image = imageRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !image || !ctx) return;
+
+    ctx.drawImage(image, 0, 0);
+    allStrokes.forEach(stroke => drawStroke(ctx, stroke));
+  }, []);
+
+  // Load the screenshot at full resolution so annotations are saved without scaling
+  useEffect(() => {
+    setStrokes([]);
+    imageRef.current = null;
+    if (!screenshot) return;
+
+    const url = URL.createObjectURL(screenshot.blob);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      imageRef.current = image;
+      redraw([]);
+    };
+    image.src = url;
+
+    return () => URL.revokeObjectURL(url);
+  }, [screenshot, redraw]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!imageRef.current) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Keep strokes the same on-screen width whatever the screenshot resolution
+    const scale = e.currentTarget.width / rect.width;
+    activeStrokeRef.current = { color, width: DRAWING_CONFIG.lineWidth * scale, points: [getPoint(e)] };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = activeStrokeRef.current;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!stroke || !ctx) return;
+
+    stroke.points.push(getPoint(e));
+    drawStroke(ctx, { ...stroke, points: stroke.points.slice(-2) });
+  };
+
+  const handlePointerUp = () => {
+    const stroke = activeStrokeRef.current;
+    activeStrokeRef.current = null;
+    if (stroke) {
+      setStrokes(prev => [...prev, stroke]);
+    }
+  };
+
+  const handleUndo = () => {
+    const remaining = strokes.slice(0, -1);
+    setStrokes(remaining);
+    redraw(remaining);
+  };
+
+  const handleClear = () => {
+    setStrokes([]);
+    redraw([]);
+  };
+
+  const handleSave = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    setIsSaving(true);
+    try {
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (blob) {
+        onSave(blob);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={screenshot !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <PenLine className="h-5 w-5 text-primary" />
+            <span>Annotate Screenshot</span>
+          </DialogTitle>
+          <DialogDescription>
+            Draw on the screenshot to point things out. Saving replaces the original in this recording.
+          </DialogDescription>
+        </DialogHeader>
+
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="w-full h-auto rounded border border-border bg-muted touch-none"
+          style={{ cursor: 'crosshair' }}
+        />
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            {DRAWING_CONFIG.colors.map(option => (
+              <button
+                key={option}
+                onClick={() => setColor(option)}
+                className={`h-6 w-6 rounded-full border-2 ${color === option ? 'border-primary ring-2 ring-primary/30' : 'border-border'}`}
+                style={{ backgroundColor: option }}
+                title={option}
+                aria-label={`Draw in ${option}`}
+              />
+            ))}
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="ghost" onClick={handleUndo} disabled={strokes.length === 0}>
+              <Undo2 className="h-4 w-4 mr-1" />
+              Undo
+            </Button>
+            <Button size="sm" variant="ghost" onClick={handleClear} disabled={strokes.length === 0}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={strokes.length === 0 || isSaving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save Annotations
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
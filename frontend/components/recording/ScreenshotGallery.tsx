@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Aperture, Download, Copy, PenLine, X } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { Screenshot } from '../../contexts/RecordingContext';
+import { ExportService } from '../../services/exportService';
+import { ErrorHandler } from '../../utils/errorHandler';
+import ScreenshotAnnotator from './ScreenshotAnnotator';
+
+interface ScreenshotGalleryProps {
+  screenshots: Screenshot[];
+  /** Recording title, used to name downloaded files */
+  title: string;
+  onUpdate: (id: string, blob: Blob) => void;
+  onRemove: (id: string) => void;
+  /** Jump the preview to a position in seconds */
+  onSeek: (time: number) => void;
+  disabled?: boolean;
+}
+
+function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+function ScreenshotThumbnail({ blob }: { blob: Blob }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  if (!url) return <div className="w-full aspect-video bg-muted" />;
+
+  return <img src={url} alt="" className="w-full aspect-video object-cover bg-muted" />;
+}
+
+export default function ScreenshotGallery({
+  screenshots,
+  title,
+  onUpdate,
+  onRemove,
+  onSeek,
+  disabled = false,
+}: ScreenshotGalleryProps) {
+  const { toast } = useToast();
+  const [annotatingId, setAnnotatingId] = useState<string | null>(null);
+
+  const annotating = screenshots.find(screenshot => screenshot.id === annotatingId) ?? null;
+
+  const handleDownload = (screenshot: Screenshot) => {
+    const index = screenshots.indexOf(screenshot) + 1;
+    ExportService.download(screenshot.blob, `${title} - screenshot ${index}`, 'png');
+  };
+
+  const handleCopy = async (screenshot: Screenshot) => {
+    try {
+      await navigator.clipboard.write([new ClipboardItem({ [screenshot.blob.type]: screenshot.blob })]);
+      toast({
+        title: "Copied",
+        description: "Screenshot copied to clipboard",
+      });
+    } catch (error) {
+      ErrorHandler.logError('screenshot-copy', error);
+      toast({
+        title: "Copy Failed",
+        description: "Your browser did not allow copying the image. Download it instead.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveAnnotation = (blob: Blob) => {
+    if (annotatingId) {
+      onUpdate(annotatingId, blob);
+    }
+    setAnnotatingId(null);
+  };
+
+  return (
+    <div className="space-y-2 pt-2">
+      <label className="text-sm font-medium flex items-center">
+        <Aperture className="h-4 w-4 mr-2" />
+        Screenshots
+      </label>
+
+      {screenshots.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No screenshots yet. Take them while recording with Alt+S or the shutter button in the recording controls.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {screenshots.map(screenshot => (
+            <div key={screenshot.id} className="rounded-lg border border-border overflow-hidden">
+              <button
+                onClick={() => onSeek(screenshot.timestamp / 1000)}
+                className="block w-full"
+                title="Jump to this moment"
+              >
+                <ScreenshotThumbnail blob={screenshot.blob} />
+              </button>
+              <div className="flex items-center justify-between px-2 py-1">
+                <span className="font-mono text-xs text-muted-foreground">
+                  {formatTime(screenshot.timestamp / 1000)}
+                </span>
+                <div className="flex items-center">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDownload(screenshot)}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    title="Download PNG"
+                  >
+                    <Download className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleCopy(screenshot)}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    title="Copy to Clipboard"
+                  >
+                    <Copy className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setAnnotatingId(screenshot.id)}
+                    disabled={disabled}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    title="Annotate"
+                  >
+                    <PenLine className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRemove(screenshot.id)}
+                    disabled={disabled}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                    title="Remove Screenshot"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ScreenshotAnnotator
+        screenshot={annotating}
+        onSave={handleSaveAnnotation}
+        onClose={() => setAnnotatingId(null)}
+      />
+    </div>
+  );
+}
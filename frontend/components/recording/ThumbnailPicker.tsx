@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Aperture, ImagePlus } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import { VideoTrimmingService } from '../../services/videoTrimmingService';
+import { loadThumbnailImage, renderThumbnail } from '../../utils/thumbnail';
+import { ErrorHandler } from '../../utils/errorHandler';
+
+interface ThumbnailPickerProps {
+  /** Video the frames are taken from */
+  videoBlob: Blob;
+  /** Position of the preview in seconds, used as the frame */
+  currentTime: number;
+  /** Drawn over the image when the title overlay is on */
+  title: string;
+  /** The finished JPEG, or null for YouTube's own thumbnail */
+  onChange: (thumbnail: Blob | null) => void;
+  disabled?: boolean;
+}
+
+export default function ThumbnailPicker({ videoBlob, currentTime, title, onChange, disabled }: ThumbnailPickerProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [showTitle, setShowTitle] = useState(true);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const applyImage = async (source: string | Blob) => {
+    setIsCapturing(true);
+    try {
+      setImage(await loadThumbnailImage(source));
+    } catch (error) {
+      ErrorHandler.logError('thumbnail-image', error);
+      toast({
+        title: "Thumbnail Failed",
+        description: "That image could not be used as a thumbnail.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  const handleUseFrame = async () => {
+    setIsCapturing(true);
+    try {
+      await applyImage(await VideoTrimmingService.createThumbnail(videoBlob, currentTime));
+    } catch (error) {
+      ErrorHandler.logError('thumbnail-frame', error, { time: currentTime });
+      toast({
+        title: "Thumbnail Failed",
+        description: "Could not capture that frame. Try another point in the video.",
+        variant: "destructive",
+      });
+      setIsCapturing(false);
+    }
+  };
+
+  const handleEnabledChange = (checked: boolean) => {
+    setEnabled(checked);
+    if (checked && !image) {
+      handleUseFrame();
+    }
+  };
+
+  // Render the final JPEG whenever the image or its title changes
+  useEffect(() => {
+    if (!enabled || !image) {
+      setPreviewUrl(null);
+      onChange(null);
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+    renderThumbnail(image, showTitle ? title : null)
+      .then(thumbnail => {
+        if (cancelled) return;
+        url = URL.createObjectURL(thumbnail);
+        setPreviewUrl(url);
+        onChange(thumbnail);
+      })
+      .catch(error => ErrorHandler.logError('thumbnail-render', error));
+
+    return () => {
+      cancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [enabled, image, showTitle, title, onChange]);
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center space-x-2 text-sm">
+        <Switch checked={enabled} onCheckedChange={handleEnabledChange} disabled={disabled} />
+        <span>Custom thumbnail</span>
+      </label>
+
+      {enabled && (
+        <div className="flex items-start space-x-4">
+          <div className="w-48 aspect-video rounded border border-border bg-muted overflow-hidden flex-shrink-0">
+            {previewUrl && <img src={previewUrl} alt="Thumbnail preview" className="w-full h-full object-cover" />}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={handleUseFrame} disabled={disabled || isCapturing}>
+                <Aperture className="h-4 w-4 mr-2" />
+                Use Current Frame
+              </Button>
+              <Button variant="outline" size="sm" asChild disabled={disabled || isCapturing}>
+                <label className="cursor-pointer">
+                  <ImagePlus className="h-4 w-4 mr-2" />
+                  Upload Image
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) applyImage(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </Button>
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Switch checked={showTitle} onCheckedChange={setShowTitle} disabled={disabled} />
+              <span>Show title</span>
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Set once the upload finishes. Custom thumbnails need a verified YouTube channel.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { VideoMetadata } from '../../contexts/AppContext';
+import { useYouTube } from '../../contexts/YouTubeContext';
+import { YouTubePlaylist } from '../../services/realYouTubeService';
+import { getTagsLength, parseTags } from '../../utils/videoMetadata';
+import { ErrorHandler } from '../../utils/errorHandler';
+import { VIDEO_METADATA_CONFIG } from '../../config';
+
+// Radix Select does not allow an empty item value
+const UNSET_VALUE = 'none';
+
+interface VideoMetadataFieldsProps {
+  value: VideoMetadata;
+  onChange: (metadata: VideoMetadata) => void;
+  disabled?: boolean;
+}
+
+export default function VideoMetadataFields({ value, onChange, disabled }: VideoMetadataFieldsProps) {
+  const { isConnected, listPlaylists } = useYouTube();
+  const [playlists, setPlaylists] = useState<YouTubePlaylist[]>([]);
+  const [isLoadingPlaylists, setIsLoadingPlaylists] = useState(false);
+  // Tags are edited as text so a trailing comma survives until the next tag is typed
+  const [tagsText, setTagsText] = useState(value.tags.join(', '));
+
+  // Tags changed from outside, such as a settings reset, replace the text
+  useEffect(() => {
+    if (parseTags(tagsText).join(',') !== value.tags.join(',')) {
+      setTagsText(value.tags.join(', '));
+    }
+  }, [value.tags, tagsText]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    let cancelled = false;
+    setIsLoadingPlaylists(true);
+    listPlaylists()
+      .then(result => !cancelled && setPlaylists(result))
+      .catch(error => ErrorHandler.logError('video-metadata-playlists', error))
+      .finally(() => !cancelled && setIsLoadingPlaylists(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isConnected, listPlaylists]);
+
+  const update = (changes: Partial<VideoMetadata>) => onChange({ ...value, ...changes });
+
+  const tagsLength = getTagsLength(value.tags);
+  // A remembered playlist shows as None until the list has loaded, or if it was deleted
+  const selectedPlaylist = playlists.some(playlist => playlist.id === value.playlistId) ? value.playlistId : UNSET_VALUE;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="md:col-span-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Description</label>
+          <span className={`text-xs ${value.description.length > VIDEO_METADATA_CONFIG.maxDescriptionLength ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {value.description.length}/{VIDEO_METADATA_CONFIG.maxDescriptionLength}
+          </span>
+        </div>
+        <textarea
+          value={value.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="What is this video about?"
+          disabled={disabled}
+          rows={4}
+          className="placeholder:text-muted-foreground dark:bg-input/30 border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none resize-y focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50"
+        />
+        <p className="text-xs text-muted-foreground">Chapters from your markers are added below the description</p>
+      </div>
+
+      <div className="md:col-span-2 space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Tags</label>
+          <span className={`text-xs ${tagsLength > VIDEO_METADATA_CONFIG.maxTagsLength ? 'text-destructive' : 'text-muted-foreground'}`}>
+            {tagsLength}/{VIDEO_METADATA_CONFIG.maxTagsLength}
+          </span>
+        </div>
+        <Input
+          value={tagsText}
+          onChange={(e) => {
+            setTagsText(e.target.value);
+            update({ tags: parseTags(e.target.value) });
+          }}
+          placeholder="Separate tags with commas"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Category</label>
+        <Select value={value.categoryId} onValueChange={(categoryId) => update({ categoryId })} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VIDEO_METADATA_CONFIG.categories.map(category => (
+              <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Language</label>
+        <Select
+          value={value.defaultLanguage || UNSET_VALUE}
+          onValueChange={(language) => update({ defaultLanguage: language === UNSET_VALUE ? '' : language })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET_VALUE}>Not set</SelectItem>
+            {VIDEO_METADATA_CONFIG.languages.map(language => (
+              <SelectItem key={language.code} value={language.code}>{language.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Playlist</label>
+        <Select
+          value={selectedPlaylist}
+          onValueChange={(playlistId) => update({ playlistId: playlistId === UNSET_VALUE ? '' : playlistId })}
+          disabled={disabled || !isConnected || isLoadingPlaylists}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={isLoadingPlaylists ? 'Loading playlists...' : undefined} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNSET_VALUE}>None</SelectItem>
+            {playlists.map(playlist => (
+              <SelectItem key={playlist.id} value={playlist.id}>{playlist.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!isConnected && (
+          <p className="text-xs text-muted-foreground">Connect YouTube to choose a playlist</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Audience</label>
+        <label className="flex items-center space-x-2 text-sm h-9">
+          <Switch
+            checked={value.madeForKids}
+            onCheckedChange={(madeForKids) => update({ madeForKids })}
+            disabled={disabled}
+          />
+          <span>Made for kids</span>
+        </label>
+      </div>
+    </div>
+  );
+}
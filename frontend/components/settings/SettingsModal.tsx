@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { 
   Dialog, 
@@ -15,6 +15,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -36,12 +37,26 @@ import {
   Mic,
   Camera,
   Monitor,
+  Film,
+  XCircle,
+  Clapperboard,
+  MousePointerClick,
+  Youtube,
 } from 'lucide-react';
 import { useYouTube } from '../../contexts/YouTubeContext';
-import { useApp } from '../../contexts/AppContext';
-import { useRecording } from '../../contexts/RecordingContext';
+import { useApp, AppState, KeystrokeDisplay } from '../../contexts/AppContext';
+import { useRecording, VideoCodec, VideoContainer } from '../../contexts/RecordingContext';
 import { TokenService } from '../../services/tokenService';
+import DeviceSelect from '../recording/DeviceSelect';
+import VideoMetadataFields from '../recording/VideoMetadataFields';
+import { CodecService, VIDEO_CODECS, VIDEO_CONTAINERS } from '../../services/codecService';
 import { useToast } from '@/components/ui/use-toast';
+import { TITLE_CARD_CONFIG } from '../../config';
+
+const TITLE_CARDS = [
+  { key: 'introCard', label: 'Intro Card', description: 'Shows the title, author and date before the video' },
+  { key: 'outroCard', label: 'Outro Card', description: 'Shows your closing text and logo after the video' },
+] as const;
 
 export default function SettingsModal() {
   const { 
@@ -53,7 +68,7 @@ export default function SettingsModal() {
     connectYouTube
   } = useYouTube();
   const { state, dispatch } = useApp();
-  const { permissionStatus, checkPermissions, requestPermissions } = useRecording();
+  const { permissionStatus, checkPermissions, requestPermissions, inputDevices } = useRecording();
   const [showDisconnectConfirm, setShowDisconnectConfirm] = useState(false);
   const [isDisconnecting, setIsDisconnecting] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -66,6 +81,11 @@ export default function SettingsModal() {
 
   const [localSettings, setLocalSettings] = useState(state.settings);
 
+  // MediaRecorder support does not change during a session
+  const codecCapabilities = useMemo(() => CodecService.getCapabilityReport(), []);
+  const isProfileSupported = (container: VideoContainer, videoCodec: VideoCodec) =>
+    codecCapabilities.some(c => c.supported && c.profile.container === container && c.profile.videoCodec === videoCodec);
+
   useEffect(() => {
     setLocalSettings(state.settings);
     setHasUnsavedChanges(false);
@@ -107,6 +127,39 @@ export default function SettingsModal() {
     setHasUnsavedChanges(true);
   };
 
+  const handleCardChange = <K extends 'introCard' | 'outroCard'>(key: K, changes: Partial<AppState['settings'][K]>) => {
+    handleSettingChange(key, { ...localSettings[key], ...changes });
+  };
+
+  const handleInteractionChange = (changes: Partial<AppState['settings']['interactionOverlay']>) => {
+    handleSettingChange('interactionOverlay', { ...localSettings.interactionOverlay, ...changes });
+  };
+
+  const handleLogoUpload = (file: File | undefined) => {
+    if (!file) return;
+
+    if (file.size > TITLE_CARD_CONFIG.maxLogoBytes) {
+      toast({
+        title: "Logo Too Large",
+        description: `Choose an image under ${Math.round(TITLE_CARD_CONFIG.maxLogoBytes / 1024)} KB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => handleCardChange('outroCard', { logoDataUrl: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  const handleContainerChange = (container: VideoContainer) => {
+    // Keep the codec if it works in the new container, otherwise pick the first one that does
+    const videoCodec = isProfileSupported(container, localSettings.encodingProfile.videoCodec)
+      ? localSettings.encodingProfile.videoCodec
+      : VIDEO_CODECS.find(codec => isProfileSupported(container, codec)) || localSettings.encodingProfile.videoCodec;
+    handleSettingChange('encodingProfile', { container, videoCodec });
+  };
+
   const handleSaveSettings = () => {
     dispatch({
       type: 'UPDATE_SETTINGS',
@@ -492,6 +545,34 @@ export default function SettingsModal() {
                       </div>
                     </div>
 
+                    <div className="space-y-3 pt-4 border-t border-border">
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-1">
+                          <label className="text-sm font-medium">Camera</label>
+                          <p className="text-xs text-muted-foreground">Used for camera and picture-in-picture recordings</p>
+                        </div>
+                        <DeviceSelect
+                          devices={inputDevices.cameras}
+                          value={localSettings.preferredCameraId}
+                          onChange={(deviceId) => handleSettingChange('preferredCameraId', deviceId)}
+                          className="w-56"
+                        />
+                      </div>
+
+                      <div className="flex items-center justify-between">
+                        <div className="space-y-1">
+                          <label className="text-sm font-medium">Microphone</label>
+                          <p className="text-xs text-muted-foreground">Used when microphone recording is enabled</p>
+                        </div>
+                        <DeviceSelect
+                          devices={inputDevices.microphones}
+                          value={localSettings.preferredMicrophoneId}
+                          onChange={(deviceId) => handleSettingChange('preferredMicrophoneId', deviceId)}
+                          className="w-56"
+                        />
+                      </div>
+                    </div>
+
                     <div className="p-3 bg-muted rounded-lg">
                       <p className="text-xs text-muted-foreground">
                         <strong>Note:</strong> Screen capture permission is requested when you start recording. 
@@ -552,6 +633,115 @@ export default function SettingsModal() {
                       </Select>
                     </div>
 
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Countdown</label>
+                        <p className="text-xs text-muted-foreground">
+                          Time to switch windows before recording begins
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.countdownSeconds.toString()}
+                        onValueChange={(value) => handleSettingChange('countdownSeconds', parseInt(value))}
+                      >
+                        <SelectTrigger className="w-24">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">Off</SelectItem>
+                          <SelectItem value="3">3 sec</SelectItem>
+                          <SelectItem value="5">5 sec</SelectItem>
+                          <SelectItem value="10">10 sec</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Maximum Length</label>
+                        <p className="text-xs text-muted-foreground">
+                          Stop forgotten recordings automatically
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.maxDurationMinutes.toString()}
+                        onValueChange={(value) => handleSettingChange('maxDurationMinutes', parseInt(value))}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="15">15 min</SelectItem>
+                          <SelectItem value="30">30 min</SelectItem>
+                          <SelectItem value="60">1 hour</SelectItem>
+                          <SelectItem value="120">2 hours</SelectItem>
+                          <SelectItem value="0">No limit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Maximum File Size</label>
+                        <p className="text-xs text-muted-foreground">
+                          Recordings are held in memory until uploaded
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.maxSizeMB.toString()}
+                        onValueChange={(value) => handleSettingChange('maxSizeMB', parseInt(value))}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="500">500 MB</SelectItem>
+                          <SelectItem value="1024">1 GB</SelectItem>
+                          <SelectItem value="2048">2 GB</SelectItem>
+                          <SelectItem value="4096">4 GB</SelectItem>
+                          <SelectItem value="0">No limit</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Suggest Cuts for Dead Air</label>
+                        <p className="text-xs text-muted-foreground">
+                          Find silent stretches after recording, or still screens when there is no audio. Analysis stays on your device.
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.deadAirSeconds.toString()}
+                        onValueChange={(value) => handleSettingChange('deadAirSeconds', parseInt(value))}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">Off</SelectItem>
+                          <SelectItem value="2">Over 2 seconds</SelectItem>
+                          <SelectItem value="3">Over 3 seconds</SelectItem>
+                          <SelectItem value="5">Over 5 seconds</SelectItem>
+                          <SelectItem value="10">Over 10 seconds</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Only Suggest Silence on a Still Screen</label>
+                        <p className="text-xs text-muted-foreground">
+                          Skip silent stretches where something on screen is still changing
+                        </p>
+                      </div>
+                      <Switch
+                        checked={localSettings.deadAirRequireStillScreen}
+                        disabled={localSettings.deadAirSeconds === 0}
+                        onCheckedChange={(checked) => handleSettingChange('deadAirRequireStillScreen', checked)}
+                      />
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <div className="space-y-1">
                         <label className="text-sm font-medium">Highlight Clicks by Default</label>
@@ -589,6 +779,319 @@ export default function SettingsModal() {
                   </CardContent>
                 </Card>
 
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Youtube className="h-5 w-5" />
+                      <span>YouTube Details</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <p className="text-xs text-muted-foreground">
+                      Every upload starts with these details. Change them for a single video before syncing it.
+                    </p>
+                    <VideoMetadataFields
+                      value={localSettings.videoMetadata}
+                      onChange={(metadata) => handleSettingChange('videoMetadata', metadata)}
+                    />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Film className="h-5 w-5" />
+                      <span>Recording Format</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Container</label>
+                        <p className="text-xs text-muted-foreground">
+                          MP4 plays almost everywhere; WebM is the most widely recordable
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.encodingProfile.container}
+                        onValueChange={(value) => handleContainerChange(value as VideoContainer)}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VIDEO_CONTAINERS.map(container => (
+                            <SelectItem
+                              key={container}
+                              value={container}
+                              disabled={!VIDEO_CODECS.some(codec => isProfileSupported(container, codec))}
+                            >
+                              {container.toUpperCase()}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Video Codec</label>
+                        <p className="text-xs text-muted-foreground">
+                          AV1 and VP9 give smaller files; H.264 encodes fastest on most hardware
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.encodingProfile.videoCodec}
+                        onValueChange={(value) => handleSettingChange('encodingProfile', {
+                          ...localSettings.encodingProfile,
+                          videoCodec: value as VideoCodec,
+                        })}
+                      >
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {VIDEO_CODECS.map(codec => (
+                            <SelectItem
+                              key={codec}
+                              value={codec}
+                              disabled={!isProfileSupported(localSettings.encodingProfile.container, codec)}
+                            >
+                              {CodecService.getCodecLabel(codec)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {!isProfileSupported(localSettings.encodingProfile.container, localSettings.encodingProfile.videoCodec) && (
+                      <div className="flex items-start space-x-2 p-3 border border-yellow-500/30 bg-yellow-500/5 rounded-lg">
+                        <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+                        <p className="text-xs text-muted-foreground">
+                          This browser cannot record the selected format. The closest supported format will be used instead.
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium">Browser Support</label>
+                      <div className="grid grid-cols-[auto_repeat(4,minmax(0,1fr))] gap-2 text-xs items-center">
+                        <span />
+                        {VIDEO_CODECS.map(codec => (
+                          <span key={codec} className="text-center font-medium">{CodecService.getCodecLabel(codec)}</span>
+                        ))}
+                        {VIDEO_CONTAINERS.map(container => (
+                          <React.Fragment key={container}>
+                            <span className="font-medium">{container.toUpperCase()}</span>
+                            {VIDEO_CODECS.map(codec => (
+                              <span key={codec} className="flex justify-center">
+                                {isProfileSupported(container, codec) ? (
+                                  <CheckCircle className="h-4 w-4 text-green-500" />
+                                ) : (
+                                  <XCircle className="h-4 w-4 text-muted-foreground" />
+                                )}
+                              </span>
+                            ))}
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Clapperboard className="h-5 w-5" />
+                      <span>Title Cards</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    {TITLE_CARDS.map(({ key, label, description }) => (
+                      <div key={key} className="space-y-4">
+                        <div className="flex items-center justify-between">
+                          <div className="space-y-1">
+                            <label className="text-sm font-medium">{label}</label>
+                            <p className="text-xs text-muted-foreground">
+                              {description}. Can be turned off for each recording.
+                            </p>
+                          </div>
+                          <Switch
+                            checked={localSettings[key].enabled}
+                            onCheckedChange={(checked) => handleCardChange(key, { enabled: checked })}
+                          />
+                        </div>
+
+                        <div className="flex flex-wrap items-center gap-4 text-sm">
+                          <Select
+                            value={localSettings[key].durationSeconds.toString()}
+                            onValueChange={(value) => handleCardChange(key, { durationSeconds: parseInt(value) })}
+                          >
+                            <SelectTrigger className="w-24">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="2">2 sec</SelectItem>
+                              <SelectItem value="3">3 sec</SelectItem>
+                              <SelectItem value="5">5 sec</SelectItem>
+                              <SelectItem value="10">10 sec</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="color"
+                              value={localSettings[key].backgroundColor}
+                              onChange={(e) => handleCardChange(key, { backgroundColor: e.target.value })}
+                              className="h-8 w-8 rounded border border-border bg-transparent cursor-pointer"
+                            />
+                            <span>Background</span>
+                          </label>
+                          <label className="flex items-center space-x-2">
+                            <input
+                              type="color"
+                              value={localSettings[key].textColor}
+                              onChange={(e) => handleCardChange(key, { textColor: e.target.value })}
+                              className="h-8 w-8 rounded border border-border bg-transparent cursor-pointer"
+                            />
+                            <span>Text</span>
+                          </label>
+                        </div>
+
+                        {key === 'introCard' ? (
+                          <Input
+                            value={localSettings.introCard.author}
+                            onChange={(e) => handleCardChange('introCard', { author: e.target.value })}
+                            placeholder="Author name (optional)"
+                          />
+                        ) : (
+                          <div className="space-y-2">
+                            <Input
+                              value={localSettings.outroCard.text}
+                              onChange={(e) => handleCardChange('outroCard', { text: e.target.value })}
+                              placeholder="Closing text"
+                            />
+                            <div className="flex items-center space-x-3">
+                              {localSettings.outroCard.logoDataUrl && (
+                                <img
+                                  src={localSettings.outroCard.logoDataUrl}
+                                  alt="Outro logo"
+                                  className="h-10 max-w-[120px] object-contain rounded border border-border"
+                                />
+                              )}
+                              <Button variant="outline" size="sm" asChild>
+                                <label className="cursor-pointer">
+                                  {localSettings.outroCard.logoDataUrl ? 'Change Logo' : 'Add Logo'}
+                                  <input
+                                    type="file"
+                                    accept="image/*"
+                                    className="hidden"
+                                    onChange={(e) => {
+                                      handleLogoUpload(e.target.files?.[0]);
+                                      e.target.value = '';
+                                    }}
+                                  />
+                                </label>
+                              </Button>
+                              {localSettings.outroCard.logoDataUrl && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleCardChange('outroCard', { logoDataUrl: null })}
+                                >
+                                  Remove
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <MousePointerClick className="h-5 w-5" />
+                      <span>Clicks and Keys</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <p className="text-xs text-muted-foreground">
+                      When you share this tab, your clicks and key presses on RecordLane are drawn into the video
+                      when it is edited or synced. Other tabs, windows and screens cannot be observed.
+                    </p>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Click Ripples</label>
+                        <p className="text-xs text-muted-foreground">
+                          A ring where each click landed. Turn off Highlight Clicks to avoid showing both.
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <input
+                          type="color"
+                          value={localSettings.interactionOverlay.clickColor}
+                          onChange={(e) => handleInteractionChange({ clickColor: e.target.value })}
+                          className="h-8 w-8 rounded border border-border bg-transparent cursor-pointer"
+                          aria-label="Ripple color"
+                        />
+                        <Switch
+                          checked={localSettings.interactionOverlay.showClicks}
+                          onCheckedChange={(checked) => handleInteractionChange({ showClicks: checked })}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Keystrokes</label>
+                        <p className="text-xs text-muted-foreground">
+                          Shortcuts only, or everything typed. Password fields are never recorded.
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.interactionOverlay.keystrokes}
+                        onValueChange={(value) => handleInteractionChange({ keystrokes: value as KeystrokeDisplay })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="shortcuts">Shortcuts</SelectItem>
+                          <SelectItem value="all">All keys</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-1">
+                        <label className="text-sm font-medium">Keystroke Position</label>
+                        <p className="text-xs text-muted-foreground">
+                          Where key presses appear in the video
+                        </p>
+                      </div>
+                      <Select
+                        value={localSettings.interactionOverlay.keystrokePosition}
+                        onValueChange={(value) => handleInteractionChange({
+                          keystrokePosition: value as AppState['settings']['interactionOverlay']['keystrokePosition'],
+                        })}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="bottom-left">Bottom left</SelectItem>
+                          <SelectItem value="bottom-center">Bottom center</SelectItem>
+                          <SelectItem value="bottom-right">Bottom right</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </CardContent>
+                </Card>
+
                 <Card>
                   <CardHeader>
                     <CardTitle>About RecordLane</CardTitle>
@@ -8,13 +8,6 @@ import {
   DialogHeader, 
   DialogTitle 
 } from '@/components/ui/dialog';
-import { 
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { 
   Copy, 
   ExternalLink, 
@@ -27,7 +20,6 @@ import { useToast } from '@/components/ui/use-toast';
 
 export default function ShareModal() {
   const { state, dispatch } = useApp();
-  const [privacy, setPrivacy] = useState('unlisted');
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
@@ -111,24 +103,6 @@ export default function ShareModal() {
             </div>
           </div>
 
-          {/* Privacy Settings */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Privacy</label>
-            <Select value={privacy} onValueChange={(v) => setPrivacy(v as any)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="public">Public</SelectItem>
-                <SelectItem value="unlisted">Unlisted (Anyone with link)</SelectItem>
-                <SelectItem value="private">Private (Only you)</SelectItem>
-              </SelectContent>
-            </Select>
-            <p className="text-xs text-muted-foreground">
-              Changes to privacy settings are applied on YouTube.
-            </p>
-          </div>
-
           {/* Quick Share Actions */}
           <div className="space-y-3">
             <h4 className="text-sm font-medium">Quick Share</h4>
@@ -69,12 +69,193 @@ export const DEFAULT_RECORDING_SETTINGS = {
   folderName: 'RecordLane Recordings',
 };
 
+// Screen + camera compositing
+export const COMPOSITOR_CONFIG = {
+  bubbleScale: {
+    small: 0.2,
+    medium: 0.28,
+    large: 0.36,
+  },
+  bubbleMargin: 0.03,
+  cornerRadius: 0.15,
+};
+
+// Live audio metering
+export const AUDIO_METER_CONFIG = {
+  pollIntervalMs: 100,
+  // RMS level below which a source is treated as silent (about -46 dBFS)
+  signalThreshold: 0.005,
+  // Warn if the microphone stays silent this long after recording starts
+  noSignalTimeoutMs: 5000,
+};
+
+// Recording limits
+export const RECORDING_LIMITS_CONFIG = {
+  // Fraction of a limit at which the user is warned
+  warningRatio: 0.8,
+};
+
+// Crash-safe chunk persistence
+export const RECORDING_STORAGE_CONFIG = {
+  databaseName: 'recordlane-recordings',
+  // Version 2 added interrupted YouTube uploads
+  databaseVersion: 2,
+  // Without Web Locks, a session updated more recently than this is assumed to be
+  // recording in another tab; the scan runs again once it has gone quiet
+  activeSessionGraceMs: 10000,
+};
+
+// Dead-air detection on finished recordings; runs locally on the recorded blob
+export const DEAD_AIR_CONFIG = {
+  // Audio is decoded at this rate; plenty for loudness and keeps long recordings in memory
+  audioSampleRate: 8000,
+  // The whole file is read to decode its audio, so larger recordings skip silence detection
+  maxAudioAnalysisMB: 512,
+  // Loudness is measured over windows of this length
+  audioWindowMs: 50,
+  // Windows quieter than this count as silence
+  silenceThresholdDb: -45,
+  // The picture is sampled this often when looking for a frozen screen
+  frameSampleIntervalMs: 500,
+  // Frames are scaled down to this width before comparing
+  frameSampleWidth: 160,
+  // Mean per-pixel luma difference (0-255) below which two samples count as identical
+  frozenFrameThreshold: 1.5,
+  // Kept at each edge of a suggestion so speech and motion are not clipped
+  edgePaddingMs: 250,
+};
+
+// Redaction rendering
+export const REDACTION_CONFIG = {
+  // Blurred regions are averaged over blocks of this many output pixels
+  blurBlockSize: 16,
+  fillColor: '#000000',
+  // Drawn rectangles smaller than this fraction of the frame are ignored as stray clicks
+  minRegionSize: 0.01,
+};
+
+// Intro and outro title cards
+export const TITLE_CARD_CONFIG = {
+  frameRate: 30,
+  // Cards are static, so a low bitrate is plenty
+  bitrate: 1000000,
+  // Logos are kept in settings storage, which has little room
+  maxLogoBytes: 512 * 1024,
+};
+
+// Local export
+export const EXPORT_CONFIG = {
+  // Animated images are meant for short clips pasted into tickets
+  maxAnimatedDurationSeconds: 30,
+  gif: { width: 480, frameRate: 10 },
+  webp: { width: 640, frameRate: 15, quality: 0.8 },
+  // Rough compressed bytes per pixel per frame of screen content, for size estimates
+  gifBytesPerPixel: 0.12,
+  webpBytesPerPixel: 0.04,
+};
+
+// Drawing tools, shared by the live overlay and screenshot annotation
+export const DRAWING_CONFIG = {
+  colors: ['#ff4444', '#facc15', '#22c55e', '#3b82f6', '#ffffff', '#000000'],
+  // Stroke width in screen pixels
+  lineWidth: 3,
+  widths: [3, 6, 12],
+};
+
+// Live annotations drawn over the recording
+export const ANNOTATION_CONFIG = {
+  // Auto-fading annotations stay fully visible this long, then fade out
+  fadeDelayMs: 3000,
+  fadeDurationMs: 1000,
+  highlighterOpacity: 0.35,
+  // Highlighter strokes are this many times wider than the pen
+  highlighterWidthScale: 4,
+  // Arrow heads and text labels grow with the stroke width
+  arrowHeadScale: 5,
+  fontScale: 6,
+  // Spotlight circle radius as a fraction of the shorter screen side
+  spotlightRadius: 0.12,
+  spotlightDimOpacity: 0.6,
+  // How close, in screen pixels, the eraser must get to an annotation
+  eraserRadius: 12,
+};
+
+// Click and keystroke visuals burned into recordings of this tab
+export const INTERACTION_CONFIG = {
+  // A shared tab this close to the viewport's aspect ratio is taken to be this tab
+  aspectTolerance: 0.02,
+  rippleDurationMs: 600,
+  // Ripple radius as a fraction of the frame height, when it starts and ends
+  rippleStartRadius: 0.01,
+  rippleEndRadius: 0.04,
+  // Each key press stays in the on-screen HUD this long
+  keystrokeDurationMs: 1500,
+  maxKeystrokes: 5,
+  // HUD text height as a fraction of the frame height
+  keystrokeFontScale: 0.035,
+};
+
 // Upload Configuration
 export const UPLOAD_CONFIG = {
   chunkSize: 8 * 1024 * 1024,
   maxRetries: 3,
   retryDelayMs: 1000,
   timeoutMs: 30000,
+  // Uploads in the background queue that run at the same time
+  concurrency: 2,
+};
+
+// Custom thumbnails; YouTube recommends 1280x720 and rejects files over 2 MB
+export const THUMBNAIL_CONFIG = {
+  width: 1280,
+  height: 720,
+  maxBytes: 2 * 1024 * 1024,
+  quality: 0.9,
+  // Share of the thumbnail height used for the title text
+  titleScale: 0.09,
+};
+
+// YouTube video details; limits are the ones the Data API enforces
+export const VIDEO_METADATA_CONFIG = {
+  maxTitleLength: 100,
+  maxDescriptionLength: 5000,
+  // Counted over the comma-joined list, with quotes around tags that contain spaces
+  maxTagsLength: 500,
+  categories: [
+    { id: '1', label: 'Film & Animation' },
+    { id: '2', label: 'Autos & Vehicles' },
+    { id: '10', label: 'Music' },
+    { id: '15', label: 'Pets & Animals' },
+    { id: '17', label: 'Sports' },
+    { id: '19', label: 'Travel & Events' },
+    { id: '20', label: 'Gaming' },
+    { id: '22', label: 'People & Blogs' },
+    { id: '23', label: 'Comedy' },
+    { id: '24', label: 'Entertainment' },
+    { id: '25', label: 'News & Politics' },
+    { id: '26', label: 'Howto & Style' },
+    { id: '27', label: 'Education' },
+    { id: '28', label: 'Science & Technology' },
+    { id: '29', label: 'Nonprofits & Activism' },
+  ],
+  languages: [
+    { code: 'en', label: 'English' },
+    { code: 'es', label: 'Spanish' },
+    { code: 'fr', label: 'French' },
+    { code: 'de', label: 'German' },
+    { code: 'it', label: 'Italian' },
+    { code: 'pt', label: 'Portuguese' },
+    { code: 'nl', label: 'Dutch' },
+    { code: 'pl', label: 'Polish' },
+    { code: 'ru', label: 'Russian' },
+    { code: 'tr', label: 'Turkish' },
+    { code: 'ar', label: 'Arabic' },
+    { code: 'hi', label: 'Hindi' },
+    { code: 'ja', label: 'Japanese' },
+    { code: 'ko', label: 'Korean' },
+    { code: 'zh-Hans', label: 'Chinese (Simplified)' },
+    { code: 'zh-Hant', label: 'Chinese (Traditional)' },
+  ],
 };
 
 
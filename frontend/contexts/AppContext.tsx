@@ -1,5 +1,47 @@
 import React, { createContext, useContext, useReducer, ReactNode } from 'react';
 import { ErrorHandler } from '../utils/errorHandler';
+import type { EditRange, EncodingProfile } from './RecordingContext';
+
+export interface TitleCardTemplate {
+  enabled: boolean;
+  durationSeconds: number;
+  backgroundColor: string;
+  textColor: string;
+}
+
+export interface IntroCardTemplate extends TitleCardTemplate {
+  /** Shown under the title; left out when empty */
+  author: string;
+}
+
+export interface OutroCardTemplate extends TitleCardTemplate {
+  text: string;
+  /** Image shown above the text, stored inline so it survives reloads */
+  logoDataUrl: string | null;
+}
+
+export type KeystrokeDisplay = 'off' | 'shortcuts' | 'all';
+
+export interface InteractionOverlaySettings {
+  /** Draw a ripple wherever the page was clicked */
+  showClicks: boolean;
+  clickColor: string;
+  /** Shortcuts are keys pressed with Ctrl, Alt or Cmd, plus keys like Enter and Esc */
+  keystrokes: KeystrokeDisplay;
+  keystrokePosition: 'bottom-left' | 'bottom-center' | 'bottom-right';
+}
+
+/** Details sent to YouTube with an upload, alongside its title and privacy */
+export interface VideoMetadata {
+  description: string;
+  tags: string[];
+  categoryId: string;
+  /** Language code such as "en"; empty leaves it unset */
+  defaultLanguage: string;
+  madeForKids: boolean;
+  /** Playlist the video is added to once uploaded; empty for none */
+  playlistId: string;
+}
 
 export interface AppState {
   isOnboarded: boolean;
@@ -14,6 +56,26 @@ export interface AppState {
     defaultFrameRate: 30 | 60;
     highlightClicksDefault: boolean;
     defaultPrivacy: 'private' | 'unlisted' | 'public';
+    preferredCameraId: string | null;
+    preferredMicrophoneId: string | null;
+    /** Seconds to count down before recording begins; 0 disables the countdown */
+    countdownSeconds: number;
+    encodingProfile: EncodingProfile;
+    /** 0 means no limit */
+    maxDurationMinutes: number;
+    /** 0 means no limit */
+    maxSizeMB: number;
+    /** Shortest silent stretch suggested as a cut; 0 turns detection off */
+    deadAirSeconds: number;
+    /** Only suggest silence while the screen is also still */
+    deadAirRequireStillScreen: boolean;
+    /** Cards added to the start and end of the video when it is synced */
+    introCard: IntroCardTemplate;
+    outroCard: OutroCardTemplate;
+    /** Clicks and key presses burned into recordings of this tab */
+    interactionOverlay: InteractionOverlaySettings;
+    /** Starting point for each upload's YouTube details, changed per video in review */
+    videoMetadata: VideoMetadata;
   };
   recordings: Recording[];
   isLoading: boolean;
@@ -31,6 +93,8 @@ export interface Recording {
   privacy: 'private' | 'unlisted' | 'public';
   uploadStatus: 'pending' | 'uploading' | 'completed' | 'failed';
   uploadProgress?: number;
+  /** Ranges cut from the original recording before upload, in milliseconds */
+  cuts?: EditRange[];
 }
 
 type AppAction =
@@ -56,6 +120,46 @@ const initialState: AppState = {
     defaultFrameRate: 30,
     highlightClicksDefault: true,
     defaultPrivacy: 'unlisted',
+    preferredCameraId: null,
+    preferredMicrophoneId: null,
+    countdownSeconds: 3,
+    encodingProfile: {
+      container: 'webm',
+      videoCodec: 'vp9',
+    },
+    maxDurationMinutes: 60,
+    maxSizeMB: 2048,
+    deadAirSeconds: 3,
+    deadAirRequireStillScreen: false,
+    introCard: {
+      enabled: false,
+      durationSeconds: 3,
+      backgroundColor: '#111827',
+      textColor: '#ffffff',
+      author: '',
+    },
+    outroCard: {
+      enabled: false,
+      durationSeconds: 3,
+      backgroundColor: '#111827',
+      textColor: '#ffffff',
+      text: 'Thanks for watching',
+      logoDataUrl: null,
+    },
+    interactionOverlay: {
+      showClicks: true,
+      clickColor: '#ff4444',
+      keystrokes: 'shortcuts',
+      keystrokePosition: 'bottom-center',
+    },
+    videoMetadata: {
+      description: 'Recorded with RecordLane',
+      tags: ['RecordLane', 'Screen Recording'],
+      categoryId: '22', // People & Blogs
+      defaultLanguage: '',
+      madeForKids: false,
+      playlistId: '',
+    },
   },
   recordings: [],
   isLoading: false,
@@ -100,6 +204,10 @@ function appReducer(state: AppState, action: AppAction): AppState {
         return resetSettingsState;
         
       case 'ADD_RECORDING':
+        // Uploads restored after a reload may already be in the library
+        if (state.recordings.some(recording => recording.id === action.payload.id)) {
+          return state;
+        }
         const newRecordingState = { 
           ...state, 
           recordings: [action.payload, ...state.recordings] 
@@ -134,7 +242,24 @@ function appReducer(state: AppState, action: AppAction): AppState {
         return { ...state, error: action.payload };
         
       case 'LOAD_STATE':
-        return { ...state, ...action.payload, error: null };
+        const savedRecordings: Recording[] = action.payload.recordings ?? [];
+        return {
+          ...state,
+          ...action.payload,
+          // Saved settings from older versions may be missing newer keys
+          settings: {
+            ...state.settings,
+            // Recordings had no limits before these settings existed; only new users get the defaults
+            ...(action.payload.settings && { maxDurationMinutes: 0, maxSizeMB: 0 }),
+            ...action.payload.settings,
+          },
+          // Keep recordings added before the saved ones were read
+          recordings: [
+            ...state.recordings.filter(recording => !savedRecordings.some(saved => saved.id === recording.id)),
+            ...savedRecordings,
+          ],
+          error: null,
+        };
         
       default:
         return state;
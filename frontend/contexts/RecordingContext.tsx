@@ -1,26 +1,206 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode, useRef } from 'react';
 import { RecordingService } from '../services/recordingService';
+import { RecordingStorageService, StoredRecordingSession } from '../services/recordingStorageService';
+import { DeviceService } from '../services/deviceService';
+import { WebmRepairService } from '../services/webmRepairService';
+import { DeadAirDetectionService } from '../services/deadAirDetectionService';
+import { AnnotationLayer } from '../services/annotationLayer';
 import { useToast } from '@/components/ui/use-toast';
-import { useApp } from './AppContext';
+import { useApp, AppState, InteractionOverlaySettings } from './AppContext';
+import { ErrorHandler } from '../utils/errorHandler';
+import { addCut } from '../utils/editDecisionList';
+import { formatKeystroke } from '../utils/interactionOverlay';
+import { RECORDING_STORAGE_CONFIG, AUDIO_METER_CONFIG, DRAWING_CONFIG } from '../config';
 
 export type RecordingMode = 'screen' | 'camera' | 'screen-camera';
-export type RecordingState = 'idle' | 'starting' | 'recording' | 'paused' | 'stopped';
+export type RecordingState = 'idle' | 'starting' | 'countdown' | 'recording' | 'paused' | 'stopped';
+export type AudioSource = 'microphone' | 'system';
+export type CameraBubblePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+export type CameraBubbleSize = 'small' | 'medium' | 'large';
+export type CameraBubbleShape = 'circle' | 'rounded';
+export type InputDeviceKind = 'camera' | 'microphone';
+export type RecordingLimit = 'duration' | 'size';
+export type VideoCodec = 'vp8' | 'vp9' | 'av1' | 'h264';
+export type VideoContainer = 'webm' | 'mp4';
+
+export interface EncodingProfile {
+  container: VideoContainer;
+  videoCodec: VideoCodec;
+}
+
+export interface InputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface CameraBubbleOptions {
+  position: CameraBubblePosition;
+  size: CameraBubbleSize;
+  shape: CameraBubbleShape;
+  borderWidth: number;
+  borderColor: string;
+}
+
+export type DrawingTool = 'pen' | 'highlighter' | 'arrow' | 'rectangle' | 'ellipse' | 'text' | 'spotlight' | 'eraser';
+
+export interface DrawingToolOptions {
+  tool: DrawingTool;
+  color: string;
+  /** Stroke width in screen pixels */
+  width: number;
+  /** New annotations fade out a few seconds after they are drawn */
+  autoFade: boolean;
+}
 
 export interface RecordingOptions {
   mode: RecordingMode;
   highlightClicks: boolean;
   enableDrawing: boolean;
+  drawingTool: DrawingToolOptions;
   systemAudio: boolean;
   microphone: boolean;
   resolution: '480p' | '720p' | '1080p';
   frameRate: 30 | 60;
+  cameraBubble: CameraBubbleOptions;
+  audioGains: Record<AudioSource, number>;
+  /** null records from the browser's default device */
+  cameraDeviceId: string | null;
+  microphoneDeviceId: string | null;
+  /** Preferred format; falls back to the closest supported profile at record time */
+  encodingProfile: EncodingProfile;
+  /** Recording stops automatically at these limits; null means unlimited */
+  maxDurationMs: number | null;
+  maxSizeBytes: number | null;
+}
+
+export type RecordingEventType = 'microphone-muted' | 'microphone-unmuted' | 'camera-hidden' | 'camera-shown';
+
+export interface RecordingEvent {
+  type: RecordingEventType;
+  /** Position in the recorded video, in milliseconds */
+  timestamp: number;
+}
+
+export interface EditRange {
+  /** Start and end in the recorded video, in milliseconds */
+  start: number;
+  end: number;
+}
+
+export type RedactionStyle = 'blur' | 'fill';
+
+export interface RedactionRegion {
+  id: string;
+  /** Rectangle as fractions (0-1) of the frame width and height */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Covered between these positions in the recorded video, in milliseconds */
+  start: number;
+  end: number;
+  style: RedactionStyle;
+}
+
+export interface TitleCard {
+  title: string;
+  /** Smaller lines under the title, such as the author and date */
+  subtitle: string[];
+  backgroundColor: string;
+  textColor: string;
+  /** Drawn above the text */
+  logo: HTMLImageElement | null;
+  durationMs: number;
+}
+
+export interface TitleCards {
+  intro: TitleCard | null;
+  outro: TitleCard | null;
+}
+
+export type CutSuggestionReason = 'silence' | 'frozen' | 'dead-air';
+
+export interface CutSuggestion extends EditRange {
+  id: string;
+  /** Which signals found the stretch: silent audio, a frozen screen, or both */
+  reason: CutSuggestionReason;
+}
+
+export interface Screenshot {
+  id: string;
+  /** PNG image, replaced by the annotated version once annotated */
+  blob: Blob;
+  /** Position in the recorded video, in milliseconds */
+  timestamp: number;
+}
+
+/**
+ * A click or key press on this page during a recording of this tab.
+ * Positions are in the recorded video, in milliseconds.
+ */
+export type InteractionEvent =
+  | {
+      type: 'click';
+      timestamp: number;
+      /** Where the pointer went down, as fractions (0-1) of the viewport */
+      x: number;
+      y: number;
+    }
+  | {
+      type: 'keystroke';
+      timestamp: number;
+      /** Label shown in the HUD, such as "Ctrl+S" or a typed character */
+      keys: string;
+      /** Pressed with Ctrl, Alt or Cmd, or a key that types nothing */
+      shortcut: boolean;
+    };
+
+/** Recorded clicks and key presses, and how to draw them into the video */
+export interface InteractionOverlay {
+  events: InteractionEvent[];
+  style: InteractionOverlaySettings;
+}
+
+export interface ChapterMarker {
+  id: string;
+  label: string;
+  /** Position in the recorded video, in milliseconds */
+  timestamp: number;
 }
 
 interface RecordingContextType {
   state: RecordingState;
   duration: number;
+  /** Seconds left before capture begins while in the countdown state */
+  countdownRemaining: number;
   recordedBlob: Blob | null;
   options: RecordingOptions;
+  isMicrophoneMuted: boolean;
+  isCameraVisible: boolean;
+  recordingEvents: RecordingEvent[];
+  /** Named chapter markers, sorted by timestamp */
+  markers: ChapterMarker[];
+  /** Edit decision list: ranges cut out of the recording, sorted and non-overlapping */
+  cuts: EditRange[];
+  /** Dead-air cuts proposed by analysing the finished recording, not yet accepted */
+  cutSuggestions: CutSuggestion[];
+  isAnalyzingRecording: boolean;
+  /** Regions blurred or blacked out when the edits are rendered */
+  redactions: RedactionRegion[];
+  /** Frames captured from the screen during this recording, in capture order */
+  screenshots: Screenshot[];
+  /** Clicks and key presses, recorded only when the recording shows this tab */
+  interactions: InteractionEvent[];
+  /** Live drawings, shown on the page and burned into the recording */
+  annotations: AnnotationLayer;
+  recoverableSessions: StoredRecordingSession[];
+  inputDevices: { cameras: InputDevice[]; microphones: InputDevice[] };
+  /** Live RMS level (0-1) of each audio source being recorded */
+  audioLevels: Partial<Record<AudioSource, number>>;
+  /** Bytes captured so far in the current recording */
+  recordedSize: number;
+  /** Limits the current recording is close to reaching */
+  limitWarnings: RecordingLimit[];
   permissionStatus: {
     camera: 'granted' | 'denied' | 'prompt' | 'checking';
     microphone: 'granted' | 'denied' | 'prompt' | 'checking';
@@ -28,6 +208,7 @@ interface RecordingContextType {
   };
   
   startRecording: (options: RecordingOptions) => Promise<void>;
+  cancelCountdown: () => void;
   pauseRecording: () => void;
   resumeRecording: () => void;
   stopRecording: () => void;
@@ -35,43 +216,118 @@ interface RecordingContextType {
   restartRecording: () => void;
   
   updateOptions: (options: Partial<RecordingOptions>) => void;
+  setAudioGain: (source: AudioSource, gain: number) => void;
+  setMicrophoneMuted: (muted: boolean) => void;
+  setCameraVisible: (visible: boolean) => void;
+  /** Drop a marker at the given position, or at the current recording time if omitted */
+  addMarker: (label?: string, timestamp?: number) => void;
+  updateMarker: (id: string, label: string) => void;
+  removeMarker: (id: string) => void;
+  setCuts: (cuts: EditRange[]) => void;
+  /** Move a suggestion into the edit decision list */
+  acceptCutSuggestion: (id: string) => void;
+  rejectCutSuggestion: (id: string) => void;
+  setRedactions: (redactions: RedactionRegion[]) => void;
+  /** Capture the current screen frame while recording */
+  captureScreenshot: () => Promise<void>;
+  updateScreenshot: (id: string, blob: Blob) => void;
+  removeScreenshot: (id: string) => void;
+  recoverSession: (sessionId: string) => Promise<void>;
+  discardRecoverableSession: (sessionId: string) => Promise<void>;
   getPreviewUrl: () => string | null;
+  refreshDevices: () => Promise<void>;
   checkPermissions: () => Promise<void>;
   requestPermissions: (type: 'camera' | 'microphone' | 'screen') => Promise<boolean>;
 }
 
 const RecordingContext = createContext<RecordingContextType | undefined>(undefined);
 
+function getLimitOptions(settings: AppState['settings']): Pick<RecordingOptions, 'maxDurationMs' | 'maxSizeBytes'> {
+  return {
+    maxDurationMs: settings.maxDurationMinutes > 0 ? settings.maxDurationMinutes * 60 * 1000 : null,
+    maxSizeBytes: settings.maxSizeMB > 0 ? settings.maxSizeMB * 1024 * 1024 : null,
+  };
+}
+
 export function RecordingProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<RecordingState>('idle');
   const [duration, setDuration] = useState(0);
+  const [countdownRemaining, setCountdownRemaining] = useState(0);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
-  const [permissionStatus, setPermissionStatus] = useState({
-    camera: 'prompt' as const,
-    microphone: 'prompt' as const,
-    screen: 'prompt' as const,
+  const [isMicrophoneMuted, setIsMicrophoneMuted] = useState(false);
+  const [isCameraVisible, setIsCameraVisible] = useState(true);
+  const [recordingEvents, setRecordingEvents] = useState<RecordingEvent[]>([]);
+  const [markers, setMarkers] = useState<ChapterMarker[]>([]);
+  const [cuts, setCuts] = useState<EditRange[]>([]);
+  const [cutSuggestions, setCutSuggestions] = useState<CutSuggestion[]>([]);
+  const [isAnalyzingRecording, setIsAnalyzingRecording] = useState(false);
+  const [redactions, setRedactions] = useState<RedactionRegion[]>([]);
+  const [screenshots, setScreenshots] = useState<Screenshot[]>([]);
+  const [interactions, setInteractions] = useState<InteractionEvent[]>([]);
+  const [recoverableSessions, setRecoverableSessions] = useState<StoredRecordingSession[]>([]);
+  const [audioLevels, setAudioLevels] = useState<Partial<Record<AudioSource, number>>>({});
+  const [recordedSize, setRecordedSize] = useState(0);
+  const [limitWarnings, setLimitWarnings] = useState<RecordingLimit[]>([]);
+  const [autoStopReason, setAutoStopReason] = useState<RecordingLimit | null>(null);
+  const [inputDevices, setInputDevices] = useState<{ cameras: InputDevice[]; microphones: InputDevice[] }>({
+    cameras: [],
+    microphones: [],
+  });
+  const [permissionStatus, setPermissionStatus] = useState<RecordingContextType['permissionStatus']>({
+    camera: 'prompt',
+    microphone: 'prompt',
+    screen: 'prompt',
   });
 
-  const { state: appState } = useApp();
+  const { state: appState, dispatch } = useApp();
 
   const [options, setOptions] = useState<RecordingOptions>({
     mode: 'screen',
     highlightClicks: appState.settings.highlightClicksDefault,
     enableDrawing: false,
+    drawingTool: {
+      tool: 'pen',
+      color: DRAWING_CONFIG.colors[0],
+      width: DRAWING_CONFIG.lineWidth,
+      autoFade: false,
+    },
     systemAudio: true,
     microphone: false,
     resolution: appState.settings.defaultResolution,
     frameRate: appState.settings.defaultFrameRate,
+    cameraBubble: {
+      position: 'bottom-right',
+      size: 'medium',
+      shape: 'circle',
+      borderWidth: 4,
+      borderColor: '#ffffff',
+    },
+    audioGains: {
+      microphone: 1,
+      system: 1,
+    },
+    cameraDeviceId: appState.settings.preferredCameraId,
+    microphoneDeviceId: appState.settings.preferredMicrophoneId,
+    encodingProfile: appState.settings.encodingProfile,
+    ...getLimitOptions(appState.settings),
   });
 
   const recordingServiceRef = useRef<RecordingService | null>(null);
+  const annotationsRef = useRef<AnnotationLayer | null>(null);
+  if (!annotationsRef.current) {
+    annotationsRef.current = new AnnotationLayer();
+  }
+  const annotations = annotationsRef.current;
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const countdownRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const heardSourcesRef = useRef<Set<AudioSource>>(new Set());
+  const noSignalWarnedRef = useRef(false);
   const { toast } = useToast();
 
   const startTimer = useCallback(() => {
-    const startTime = Date.now();
     intervalRef.current = setInterval(() => {
-      setDuration(Date.now() - startTime);
+      setDuration(recordingServiceRef.current?.getElapsedTime() ?? 0);
     }, 100);
   }, []);
 
@@ -82,6 +338,13 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const clearCountdown = useCallback(() => {
+    if (countdownRef.current) {
+      clearInterval(countdownRef.current);
+      countdownRef.current = null;
+    }
+  }, []);
+
   const checkPermissions = useCallback(async () => {
     if (!navigator.mediaDevices) {
       console.warn('MediaDevices API not supported');
@@ -216,12 +479,89 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
     }
   }, [toast]);
 
+  const beginCapture = useCallback(async () => {
+    const service = recordingServiceRef.current;
+    if (!service) return;
+
+    try {
+      await service.beginRecording();
+      sessionIdRef.current = service.getSessionId();
+
+      setState('recording');
+      startTimer();
+
+      toast({
+        title: "Recording Started",
+        description: "Your recording has started successfully",
+      });
+    } catch (error) {
+      console.error('Failed to begin recording:', error);
+      recordingServiceRef.current = null;
+      setState('idle');
+      toast({
+        title: "Recording Failed",
+        description: "Failed to start recording. Please check your permissions and try again.",
+        variant: "destructive",
+      });
+    }
+  }, [startTimer, toast]);
+
+  const runCountdown = useCallback((seconds: number) => {
+    clearCountdown();
+    setCountdownRemaining(seconds);
+    setState('countdown');
+
+    let remaining = seconds;
+    countdownRef.current = setInterval(() => {
+      remaining -= 1;
+      if (remaining <= 0) {
+        clearCountdown();
+        setCountdownRemaining(0);
+        beginCapture();
+      } else {
+        setCountdownRemaining(remaining);
+      }
+    }, 1000);
+  }, [clearCountdown, beginCapture]);
+
+  const cancelCountdown = useCallback(() => {
+    if (!countdownRef.current) return;
+
+    clearCountdown();
+    setCountdownRemaining(0);
+    if (recordingServiceRef.current) {
+      recordingServiceRef.current.cleanup();
+      recordingServiceRef.current = null;
+    }
+    setState('idle');
+
+    toast({
+      title: "Recording Cancelled",
+      description: "The countdown was cancelled before recording began",
+    });
+  }, [clearCountdown, toast]);
+
   const startRecording = useCallback(async (recordingOptions: RecordingOptions) => {
     try {
       setState('starting');
       setDuration(0);
       setRecordedBlob(null);
       setOptions(recordingOptions);
+      setIsMicrophoneMuted(false);
+      setIsCameraVisible(true);
+      setRecordingEvents([]);
+      setMarkers([]);
+      setCuts([]);
+      setRedactions([]);
+      setScreenshots([]);
+      setInteractions([]);
+      setCutSuggestions([]);
+      setAudioLevels({});
+      setRecordedSize(0);
+      setLimitWarnings([]);
+      setAutoStopReason(null);
+      heardSourcesRef.current = new Set();
+      noSignalWarnedRef.current = false;
 
       const needsCamera = recordingOptions.mode === 'camera' || recordingOptions.mode === 'screen-camera';
       const needsScreen = recordingOptions.mode === 'screen' || recordingOptions.mode === 'screen-camera';
@@ -246,17 +586,44 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
       // Screen sharing permission is requested directly in RecordingService
       // No need to pre-request it here as it causes double modal
 
+      // Remember the chosen devices for next time
+      if (recordingOptions.cameraDeviceId !== appState.settings.preferredCameraId ||
+          recordingOptions.microphoneDeviceId !== appState.settings.preferredMicrophoneId) {
+        dispatch({
+          type: 'UPDATE_SETTINGS',
+          payload: {
+            preferredCameraId: recordingOptions.cameraDeviceId,
+            preferredMicrophoneId: recordingOptions.microphoneDeviceId,
+          },
+        });
+      }
+
       recordingServiceRef.current = new RecordingService();
-      
-      await recordingServiceRef.current.startRecording(recordingOptions);
-      
-      setState('recording');
-      startTimer();
-      
-      toast({
-        title: "Recording Started",
-        description: "Your recording has started successfully",
+      recordingServiceRef.current.setAnnotationLayer(annotations);
+      recordingServiceRef.current.onInputEnded((kind) => {
+        toast({
+          title: kind === 'camera' ? "Camera Disconnected" : "Microphone Disconnected",
+          description: `Your ${kind} stopped sending data. The recording continues without it.`,
+          variant: "destructive",
+        });
+      });
+      recordingServiceRef.current.onLimit((limit, level) => {
+        if (level === 'warning') {
+          setLimitWarnings(prev => prev.includes(limit) ? prev : [...prev, limit]);
+        } else {
+          setAutoStopReason(limit);
+        }
       });
+      
+      // Streams are acquired first so the countdown only runs once capture is ready
+      await recordingServiceRef.current.prepareRecording(recordingOptions);
+
+      const countdownSeconds = appState.settings.countdownSeconds;
+      if (countdownSeconds > 0) {
+        runCountdown(countdownSeconds);
+      } else {
+        await beginCapture();
+      }
     } catch (error) {
       console.error('Failed to start recording:', error);
       setState('idle');
@@ -301,7 +668,7 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
       
       throw error;
     }
-  }, [startTimer, toast, permissionStatus, requestPermissions]);
+  }, [toast, permissionStatus, requestPermissions, appState.settings, dispatch, runCountdown, beginCapture, annotations]);
 
   const pauseRecording = useCallback(() => {
     if (recordingServiceRef.current && state === 'recording') {
@@ -332,11 +699,15 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
   const stopRecording = useCallback(async () => {
     if (recordingServiceRef.current && (state === 'recording' || state === 'paused')) {
       try {
-        const blob = await recordingServiceRef.current.stopRecording();
+        const elapsed = recordingServiceRef.current.getElapsedTime();
+        const rawBlob = await recordingServiceRef.current.stopRecording();
         
-        if (!blob || blob.size === 0) {
+        if (!rawBlob || rawBlob.size === 0) {
           throw new Error('Recording failed: No data recorded');
         }
+
+        // MediaRecorder leaves out the duration and seek index; write them before review
+        const blob = await WebmRepairService.repair(rawBlob, elapsed);
         
         setRecordedBlob(blob);
         setState('stopped');
@@ -372,9 +743,28 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
       }
     }
     
+    if (sessionIdRef.current) {
+      const sessionId = sessionIdRef.current;
+      sessionIdRef.current = null;
+      RecordingStorageService.deleteSession(sessionId).catch(error => {
+        ErrorHandler.logError('recording-session-delete', error, { sessionId });
+      });
+    }
+    
     setRecordedBlob(null);
     setState('idle');
     setDuration(0);
+    setRecordingEvents([]);
+    setMarkers([]);
+    setCuts([]);
+    setRedactions([]);
+    setScreenshots([]);
+    setInteractions([]);
+    setCutSuggestions([]);
+    setAudioLevels({});
+    setRecordedSize(0);
+    setLimitWarnings([]);
+    setAutoStopReason(null);
     stopTimer();
   }, [recordedBlob, stopTimer]);
 
@@ -389,6 +779,161 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
     setOptions(prev => ({ ...prev, ...newOptions }));
   }, []);
 
+  const setAudioGain = useCallback((source: AudioSource, gain: number) => {
+    setOptions(prev => ({ ...prev, audioGains: { ...prev.audioGains, [source]: gain } }));
+    recordingServiceRef.current?.setAudioGain(source, gain);
+  }, []);
+
+  const recordEvent = useCallback((type: RecordingEventType) => {
+    const service = recordingServiceRef.current;
+    if (!service) return;
+
+    setRecordingEvents(prev => [...prev, { type, timestamp: service.getElapsedTime() }]);
+  }, []);
+
+  const setMicrophoneMuted = useCallback((muted: boolean) => {
+    if (!recordingServiceRef.current || (state !== 'recording' && state !== 'paused')) return;
+
+    recordingServiceRef.current.setMicrophoneMuted(muted);
+    setIsMicrophoneMuted(muted);
+    recordEvent(muted ? 'microphone-muted' : 'microphone-unmuted');
+  }, [state, recordEvent]);
+
+  const setCameraVisible = useCallback((visible: boolean) => {
+    if (!recordingServiceRef.current || (state !== 'recording' && state !== 'paused')) return;
+
+    recordingServiceRef.current.setCameraVisible(visible);
+    setIsCameraVisible(visible);
+    recordEvent(visible ? 'camera-shown' : 'camera-hidden');
+  }, [state, recordEvent]);
+
+  const addMarker = useCallback((label?: string, timestamp?: number) => {
+    // Without a timestamp the marker goes at the live position, which only
+    // exists while a recording is running
+    if (timestamp === undefined && state !== 'recording' && state !== 'paused') return;
+
+    const service = recordingServiceRef.current;
+    const position = timestamp ?? service?.getElapsedTime();
+    if (position === undefined) return;
+
+    setMarkers(prev => [
+      ...prev,
+      {
+        id: `marker-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        label: label?.trim() || `Chapter ${prev.length + 1}`,
+        timestamp: position,
+      },
+    ].sort((a, b) => a.timestamp - b.timestamp));
+  }, [state]);
+
+  const updateMarker = useCallback((id: string, label: string) => {
+    setMarkers(prev => prev.map(marker => marker.id === id ? { ...marker, label } : marker));
+  }, []);
+
+  const removeMarker = useCallback((id: string) => {
+    setMarkers(prev => prev.filter(marker => marker.id !== id));
+  }, []);
+
+  const captureScreenshot = useCallback(async () => {
+    const service = recordingServiceRef.current;
+    if (!service || (state !== 'recording' && state !== 'paused')) return;
+
+    try {
+      const timestamp = service.getElapsedTime();
+      const blob = await service.captureScreenshot();
+      setScreenshots(prev => [
+        ...prev,
+        {
+          id: `screenshot-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          blob,
+          timestamp,
+        },
+      ]);
+    } catch (error) {
+      console.error('Failed to capture screenshot:', error);
+      ErrorHandler.logError('screenshot-capture', error);
+      toast({
+        title: "Screenshot Failed",
+        description: ErrorHandler.formatErrorForUser(error),
+        variant: "destructive",
+      });
+    }
+  }, [state, toast]);
+
+  const updateScreenshot = useCallback((id: string, blob: Blob) => {
+    setScreenshots(prev => prev.map(screenshot => screenshot.id === id ? { ...screenshot, blob } : screenshot));
+  }, []);
+
+  const removeScreenshot = useCallback((id: string) => {
+    setScreenshots(prev => prev.filter(screenshot => screenshot.id !== id));
+  }, []);
+
+  const acceptCutSuggestion = useCallback((id: string) => {
+    const suggestion = cutSuggestions.find(s => s.id === id);
+    if (!suggestion) return;
+
+    setCuts(prev => addCut(prev, suggestion, Math.max(duration, suggestion.end)));
+    setCutSuggestions(prev => prev.filter(s => s.id !== id));
+  }, [cutSuggestions, duration]);
+
+  const rejectCutSuggestion = useCallback((id: string) => {
+    setCutSuggestions(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  const recoverSession = useCallback(async (sessionId: string) => {
+    if (state !== 'idle') {
+      toast({
+        title: "Recording In Progress",
+        description: "Finish or discard the current recording before recovering another one.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const session = recoverableSessions.find(s => s.id === sessionId);
+      const storedBlob = await RecordingStorageService.loadRecording(sessionId);
+      const blob = await WebmRepairService.repair(storedBlob, session?.duration);
+
+      sessionIdRef.current = sessionId;
+      RecordingStorageService.claimSession(sessionId);
+      setRecoverableSessions(prev => prev.filter(s => s.id !== sessionId));
+      setRecordedBlob(blob);
+      setDuration(session?.duration ?? 0);
+      setRecordingEvents(session?.recordingEvents ?? []);
+      setMarkers(session?.markers ?? []);
+      setCuts(session?.cuts ?? []);
+      setRedactions(session?.redactions ?? []);
+      setInteractions(session?.interactions ?? []);
+      if (session) {
+        setOptions(prev => ({ ...prev, mode: session.mode }));
+      }
+      setState('stopped');
+
+      toast({
+        title: "Recording Recovered",
+        description: `Recovered ${(blob.size / 1024 / 1024).toFixed(1)} MB of unsaved recording`,
+      });
+    } catch (error) {
+      console.error('Failed to recover recording:', error);
+      ErrorHandler.logError('recording-recover', error, { sessionId });
+      toast({
+        title: "Recovery Failed",
+        description: "The unsaved recording could not be restored.",
+        variant: "destructive",
+      });
+    }
+  }, [state, recoverableSessions, toast]);
+
+  const discardRecoverableSession = useCallback(async (sessionId: string) => {
+    setRecoverableSessions(prev => prev.filter(s => s.id !== sessionId));
+    try {
+      await RecordingStorageService.deleteSession(sessionId);
+    } catch (error) {
+      ErrorHandler.logError('recording-session-delete', error, { sessionId });
+    }
+  }, []);
+
   const getPreviewUrl = useCallback(() => {
     if (!recordedBlob) return null;
     
@@ -400,16 +945,250 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
     }
   }, [recordedBlob]);
 
+  const refreshDevices = useCallback(async () => {
+    const devices = await DeviceService.listInputDevices();
+    setInputDevices(devices);
+
+    // Drop selections for devices that have been unplugged. An empty list usually
+    // means permission has not been granted yet, so selections are kept then.
+    const isMissing = (deviceId: string | null, available: InputDevice[]) =>
+      deviceId !== null && available.length > 0 && !available.some(d => d.deviceId === deviceId);
+
+    setOptions(prev => {
+      const cameraGone = isMissing(prev.cameraDeviceId, devices.cameras);
+      const microphoneGone = isMissing(prev.microphoneDeviceId, devices.microphones);
+      if (!cameraGone && !microphoneGone) return prev;
+
+      return {
+        ...prev,
+        cameraDeviceId: cameraGone ? null : prev.cameraDeviceId,
+        microphoneDeviceId: microphoneGone ? null : prev.microphoneDeviceId,
+      };
+    });
+  }, []);
+
   React.useEffect(() => {
     checkPermissions();
   }, [checkPermissions]);
 
+  React.useEffect(() => {
+    refreshDevices();
+    return DeviceService.onDeviceChange(() => {
+      console.log('Media devices changed');
+      refreshDevices();
+    });
+  }, [refreshDevices]);
+
+  // Device labels only become available once permission has been granted
+  React.useEffect(() => {
+    if (permissionStatus.camera === 'granted' || permissionStatus.microphone === 'granted') {
+      refreshDevices();
+    }
+  }, [permissionStatus.camera, permissionStatus.microphone, refreshDevices]);
+
+  // Poll audio levels for the meters and catch a silent microphone early
+  React.useEffect(() => {
+    if (state !== 'recording' && state !== 'paused') return;
+
+    const interval = setInterval(() => {
+      const service = recordingServiceRef.current;
+      if (!service) return;
+
+      const levels = service.getAudioLevels();
+      setAudioLevels(levels);
+      setRecordedSize(service.getRecordedSize());
+
+      (Object.keys(levels) as AudioSource[]).forEach(source => {
+        if ((levels[source] ?? 0) >= AUDIO_METER_CONFIG.signalThreshold) {
+          heardSourcesRef.current.add(source);
+        }
+      });
+
+      if (levels.microphone !== undefined &&
+          !heardSourcesRef.current.has('microphone') &&
+          !noSignalWarnedRef.current &&
+          service.getElapsedTime() >= AUDIO_METER_CONFIG.noSignalTimeoutMs) {
+        noSignalWarnedRef.current = true;
+        toast({
+          title: "No Microphone Signal",
+          description: `Nothing has been picked up from your microphone for ${AUDIO_METER_CONFIG.noSignalTimeoutMs / 1000} seconds. Check that the right device is selected and not muted.`,
+          variant: "destructive",
+        });
+      }
+    }, AUDIO_METER_CONFIG.pollIntervalMs);
+
+    return () => clearInterval(interval);
+  }, [state, toast]);
+
+  // Note clicks and key presses on this page while it is the shared tab, so
+  // they can be drawn into the video where they happened. Nothing outside
+  // this tab can be observed, so other surfaces record nothing.
+  const includeTyping = appState.settings.interactionOverlay.keystrokes === 'all';
+  React.useEffect(() => {
+    const service = recordingServiceRef.current;
+    if (state !== 'recording' || !service?.isCapturingCurrentTab()) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      // Drawing strokes are already in the video
+      if (!event.isPrimary || (event.target instanceof Element && event.target.closest('.drawing-overlay'))) return;
+
+      setInteractions(prev => [...prev, {
+        type: 'click',
+        timestamp: service.getElapsedTime(),
+        x: event.clientX / window.innerWidth,
+        y: event.clientY / window.innerHeight,
+      }]);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const keystroke = formatKeystroke(event, includeTyping);
+      if (!keystroke) return;
+
+      setInteractions(prev => [...prev, { type: 'keystroke', timestamp: service.getElapsedTime(), ...keystroke }]);
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown, true);
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown, true);
+      document.removeEventListener('keydown', handleKeyDown, true);
+    };
+  }, [state, includeTyping]);
+
+  // Keep markers and edits with the persisted chunks so a recovered recording
+  // reopens with its chapters, cuts, redactions, recorded clicks and mic and
+  // camera events
+  React.useEffect(() => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId || state === 'idle' || !RecordingStorageService.isSupported()) return;
+
+    RecordingStorageService.updateSession(sessionId, { markers, cuts, redactions, interactions, recordingEvents }).catch(error => {
+      ErrorHandler.logError('recording-edits-persist', error, { sessionId });
+    });
+  }, [markers, cuts, redactions, interactions, recordingEvents, state]);
+
+  // Look for dead air once a recording lands in review. Runs entirely on the
+  // local blob; a new or discarded recording abandons the previous analysis.
+  const deadAirMs = appState.settings.deadAirSeconds * 1000;
+  const deadAirRequireStillScreen = appState.settings.deadAirRequireStillScreen;
+  React.useEffect(() => {
+    if (state !== 'stopped' || !recordedBlob || deadAirMs <= 0) return;
+
+    const controller = new AbortController();
+    setIsAnalyzingRecording(true);
+
+    DeadAirDetectionService.analyze(recordedBlob, duration, deadAirMs, deadAirRequireStillScreen, controller.signal)
+      .then(suggestions => {
+        if (!controller.signal.aborted) {
+          setCutSuggestions(suggestions);
+        }
+      })
+      .catch(error => {
+        ErrorHandler.logError('dead-air-analysis', error, { size: recordedBlob.size });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsAnalyzingRecording(false);
+        }
+      });
+
+    return () => {
+      controller.abort();
+      setIsAnalyzingRecording(false);
+    };
+  }, [state, recordedBlob, duration, deadAirMs, deadAirRequireStillScreen]);
+
+  // A limit was hit: stop gracefully so the recording lands in the review panel
+  React.useEffect(() => {
+    if (!autoStopReason || (state !== 'recording' && state !== 'paused')) return;
+
+    const reason = autoStopReason;
+    setAutoStopReason(null);
+
+    stopRecording().then(() => {
+      toast({
+        title: "Recording Stopped Automatically",
+        description: reason === 'duration'
+          ? "The maximum recording length was reached. Your recording has been kept for review."
+          : "The maximum recording size was reached. Your recording has been kept for review.",
+      });
+    });
+  }, [autoStopReason, state, stopRecording, toast]);
+
+  // Sessions left behind by a crash or reload are offered for recovery
+  React.useEffect(() => {
+    if (!RecordingStorageService.isSupported()) return;
+
+    let cancelled = false;
+    let rescanTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const scan = async () => {
+      const [sessions, claimed] = await Promise.all([
+        RecordingStorageService.listSessions(),
+        RecordingStorageService.getClaimedSessionIds(),
+      ]);
+      if (cancelled) return;
+
+      const now = Date.now();
+      let waitingOnActive = false;
+      const orphaned = sessions.filter(session => {
+        if (session.id === sessionIdRef.current) {
+          return false;
+        }
+        // Owned by an open tab, so it is still being recorded or reviewed there
+        if (claimed?.has(session.id)) {
+          return false;
+        }
+        // Without Web Locks, only a session that stopped receiving chunks can be told apart
+        if (!claimed && session.status === 'recording' && now - session.updatedAt < RECORDING_STORAGE_CONFIG.activeSessionGraceMs) {
+          waitingOnActive = true;
+          return false;
+        }
+
+        if (session.chunkCount === 0) {
+          RecordingStorageService.deleteSession(session.id).catch(() => {});
+          return false;
+        }
+
+        return true;
+      });
+
+      if (orphaned.length > 0) {
+        console.log('Found recoverable recording sessions:', orphaned.length);
+        setRecoverableSessions(prev => [
+          ...prev,
+          ...orphaned.filter(session => !prev.some(s => s.id === session.id)),
+        ]);
+      }
+
+      // A reload mid-recording lands inside the grace period; look again once it has passed
+      if (waitingOnActive) {
+        rescanTimeout = setTimeout(() => {
+          scan().catch(error => ErrorHandler.logError('recording-session-scan', error));
+        }, RECORDING_STORAGE_CONFIG.activeSessionGraceMs);
+      }
+    };
+
+    scan().catch(error => {
+      ErrorHandler.logError('recording-session-scan', error);
+    });
+
+    return () => {
+      cancelled = true;
+      if (rescanTimeout) clearTimeout(rescanTimeout);
+    };
+  }, []);
+
   React.useEffect(() => {
     setOptions(prev => ({
       ...prev,
       resolution: appState.settings.defaultResolution,
       frameRate: appState.settings.defaultFrameRate,
       highlightClicks: appState.settings.highlightClicksDefault,
+      cameraDeviceId: appState.settings.preferredCameraId,
+      microphoneDeviceId: appState.settings.preferredMicrophoneId,
+      encodingProfile: appState.settings.encodingProfile,
+      ...getLimitOptions(appState.settings),
     }));
   }, [appState.settings]);
 
@@ -419,6 +1198,7 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
         recordingServiceRef.current.cleanup();
       }
       stopTimer();
+      clearCountdown();
       if (recordedBlob) {
         try {
           URL.revokeObjectURL(URL.createObjectURL(recordedBlob));
@@ -427,23 +1207,57 @@ export function RecordingProvider({ children }: { children: ReactNode }) {
         }
       }
     };
-  }, [recordedBlob, stopTimer]);
+  }, [recordedBlob, stopTimer, clearCountdown]);
 
   return (
     <RecordingContext.Provider value={{
       state,
       duration,
+      countdownRemaining,
       recordedBlob,
       options,
+      isMicrophoneMuted,
+      isCameraVisible,
+      recordingEvents,
+      markers,
+      cuts,
+      cutSuggestions,
+      isAnalyzingRecording,
+      redactions,
+      screenshots,
+      interactions,
+      annotations,
+      recoverableSessions,
+      inputDevices,
+      audioLevels,
+      recordedSize,
+      limitWarnings,
       permissionStatus,
       startRecording,
+      cancelCountdown,
       pauseRecording,
       resumeRecording,
       stopRecording,
       deleteRecording,
       restartRecording,
       updateOptions,
+      setAudioGain,
+      setMicrophoneMuted,
+      setCameraVisible,
+      addMarker,
+      updateMarker,
+      removeMarker,
+      setCuts,
+      acceptCutSuggestion,
+      rejectCutSuggestion,
+      setRedactions,
+      captureScreenshot,
+      updateScreenshot,
+      removeScreenshot,
+      recoverSession,
+      discardRecoverableSession,
       getPreviewUrl,
+      refreshDevices,
       checkPermissions,
       requestPermissions,
     }}>
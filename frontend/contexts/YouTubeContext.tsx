@@ -1,11 +1,21 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode, useRef } from 'react';
 import { ErrorHandler } from '../utils/errorHandler';
 import { RetryService } from '../utils/retryService';
 import { useToast } from '@/components/ui/use-toast';
-import { RealYouTubeService } from '../services/realYouTubeService';
+import { RealYouTubeService, UploadOptions, VideoDetails, YouTubePlaylist } from '../services/realYouTubeService';
 import { FrontendYouTubeService } from '../services/frontendYouTubeService';
+import { ResumableUploadService } from '../services/resumableUploadService';
+import { UploadQueueService, UploadQueueItem, UploadStarter } from '../services/uploadQueueService';
+import { updateRecordingByVideoId } from '../services/supabaseRecordingService';
+import { useApp, Recording } from './AppContext';
+import { EditRange } from './RecordingContext';
 import { DEV_CONFIG, isYouTubeConfigured } from '../config';
 
+export interface EnqueueUploadOptions extends UploadOptions {
+  /** Edit decision list applied to the file, saved with its library entry */
+  cuts?: EditRange[];
+}
+
 // Real YouTube context with backend integration
 interface YouTubeContextType {
   isConnected: boolean;
@@ -18,8 +28,38 @@ interface YouTubeContextType {
     file: Blob, 
     title: string, 
     privacy: 'public' | 'private' | 'unlisted', 
-    onProgress?: (progress: any) => void
+    onProgress?: (progress: any) => void,
+    options?: UploadOptions
   ) => Promise<{ videoId: string; videoUrl: string }>;
+  /** Background uploads, including ones interrupted by a reload */
+  uploadQueue: UploadQueueItem[];
+  /**
+   * Upload in the background. The recording is listed straight away and
+   * follows the upload's progress.
+   * @param duration - Length of the recording in ms
+   * @returns The id shared by the upload and its recording
+   */
+  enqueueUpload: (
+    file: Blob,
+    title: string,
+    privacy: 'public' | 'private' | 'unlisted',
+    duration: number,
+    options?: EnqueueUploadOptions
+  ) => string;
+  pauseUpload: (id: string) => void;
+  /** Continue a paused or failed upload from what YouTube already holds */
+  resumeUpload: (id: string) => void;
+  cancelUpload: (id: string) => Promise<void>;
+  clearFinishedUploads: () => void;
+  /** Playlists on the connected channel */
+  listPlaylists: () => Promise<YouTubePlaylist[]>;
+  /** Current title, description and privacy of an uploaded video */
+  getVideoDetails: (videoId: string) => Promise<VideoDetails>;
+  /**
+   * Save new details to YouTube, then to the recording in the library and
+   * the shared recordings table
+   */
+  updateVideoDetails: (recordingId: string, videoId: string, details: VideoDetails) => Promise<VideoDetails>;
   checkConnection: () => Promise<void>;
   retryConnection: () => Promise<void>;
   refreshToken: () => Promise<void>;
@@ -27,12 +67,44 @@ interface YouTubeContextType {
 
 const YouTubeContext = createContext<YouTubeContextType | undefined>(undefined);
 
+const startUpload: UploadStarter = (file, title, privacy, onProgress, options) =>
+  isYouTubeConfigured()
+    ? FrontendYouTubeService.uploadVideo(file, title, privacy, onProgress, options)
+    : RealYouTubeService.uploadVideo(file, title, privacy, onProgress, options);
+
+const addToPlaylist = (videoId: string, playlistId: string): Promise<void> =>
+  isYouTubeConfigured()
+    ? FrontendYouTubeService.addToPlaylist(videoId, playlistId)
+    : RealYouTubeService.addToPlaylist(videoId, playlistId);
+
+const setThumbnail = (videoId: string, image: Blob): Promise<string> =>
+  isYouTubeConfigured()
+    ? FrontendYouTubeService.setThumbnail(videoId, image)
+    : RealYouTubeService.setThumbnail(videoId, image);
+
+const RECORDING_UPLOAD_STATUS: Record<UploadQueueItem['status'], Recording['uploadStatus']> = {
+  queued: 'pending',
+  paused: 'pending',
+  uploading: 'uploading',
+  failed: 'failed',
+  completed: 'completed',
+  cancelled: 'failed',
+};
+
 export function YouTubeProvider({ children }: { children: ReactNode }) {
   const [isConnected, setIsConnected] = useState(false);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
   const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+  const { dispatch } = useApp();
   const { toast } = useToast();
+
+  const queueRef = useRef<UploadQueueService | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new UploadQueueService(startUpload);
+  }
+  const queue = queueRef.current;
   
   const retryService = new RetryService();
 
@@ -164,7 +236,8 @@ export function YouTubeProvider({ children }: { children: ReactNode }) {
     file: Blob, 
     title: string, 
     privacy: 'public' | 'private' | 'unlisted',
-    onProgress?: (progress: any) => void
+    onProgress?: (progress: any) => void,
+    options?: UploadOptions
   ) => {
     if (!isConnected) {
       throw ErrorHandler.createError('YOUTUBE_NOT_CONNECTED', 'YouTube not connected');
@@ -174,9 +247,9 @@ export function YouTubeProvider({ children }: { children: ReactNode }) {
       // Use the appropriate service
       let result;
       if (isYouTubeConfigured()) {
-        result = await FrontendYouTubeService.uploadVideo(file, title, privacy, onProgress);
+        result = await FrontendYouTubeService.uploadVideo(file, title, privacy, onProgress, options);
       } else {
-        result = await RealYouTubeService.uploadVideo(file, title, privacy, onProgress);
+        result = await RealYouTubeService.uploadVideo(file, title, privacy, onProgress, options);
       }
       
       toast({
@@ -199,6 +272,88 @@ export function YouTubeProvider({ children }: { children: ReactNode }) {
     }
   }, [isConnected, toast]);
 
+  const enqueueUpload = useCallback((
+    file: Blob,
+    title: string,
+    privacy: 'public' | 'private' | 'unlisted',
+    duration: number,
+    options: EnqueueUploadOptions = {}
+  ) => {
+    if (!isConnected) {
+      throw ErrorHandler.createError('YOUTUBE_NOT_CONNECTED', 'YouTube not connected');
+    }
+
+    const { cuts, ...uploadOptions } = options;
+    const id = Date.now().toString();
+    dispatch({
+      type: 'ADD_RECORDING',
+      payload: {
+        id,
+        title,
+        duration,
+        createdAt: new Date(),
+        privacy,
+        uploadStatus: 'pending',
+        uploadProgress: 0,
+        ...(cuts?.length && { cuts }),
+      },
+    });
+    queue.enqueue(id, file, title, privacy, { durationMs: duration, ...uploadOptions });
+    return id;
+  }, [isConnected, dispatch, queue]);
+
+  const pauseUpload = useCallback((id: string) => queue.pause(id), [queue]);
+
+  const resumeUpload = useCallback((id: string) => queue.resume(id), [queue]);
+
+  const cancelUpload = useCallback(async (id: string) => {
+    try {
+      await queue.cancel(id);
+    } catch (error) {
+      ErrorHandler.logError('youtube-upload-cancel', error, { uploadId: id });
+    }
+  }, [queue]);
+
+  const clearFinishedUploads = useCallback(() => queue.clearFinished(), [queue]);
+
+  const listPlaylists = useCallback(async () => {
+    if (isYouTubeConfigured()) {
+      return FrontendYouTubeService.listPlaylists();
+    }
+    return RealYouTubeService.listPlaylists();
+  }, []);
+
+  const getVideoDetails = useCallback(async (videoId: string) => {
+    if (isYouTubeConfigured()) {
+      return FrontendYouTubeService.getVideoDetails(videoId);
+    }
+    return RealYouTubeService.getVideoDetails(videoId);
+  }, []);
+
+  const updateVideoDetails = useCallback(async (recordingId: string, videoId: string, details: VideoDetails) => {
+    if (!isConnected) {
+      throw ErrorHandler.createError('YOUTUBE_NOT_CONNECTED', 'YouTube not connected');
+    }
+
+    const saved = isYouTubeConfigured()
+      ? await FrontendYouTubeService.updateVideo(videoId, details)
+      : await RealYouTubeService.updateVideo(videoId, details);
+
+    dispatch({
+      type: 'UPDATE_RECORDING',
+      payload: { id: recordingId, updates: { title: saved.title, privacy: saved.privacy } },
+    });
+
+    // YouTube holds the details that matter, so a stale shared row is only logged
+    try {
+      await updateRecordingByVideoId(videoId, { title: saved.title, privacy: saved.privacy });
+    } catch (error) {
+      ErrorHandler.logError('recording-metadata-sync', error, { recordingId, videoId });
+    }
+
+    return saved;
+  }, [isConnected, dispatch]);
+
   const refreshToken = useCallback(async () => {
     try {
       // Use the appropriate service
@@ -245,6 +400,104 @@ export function YouTubeProvider({ children }: { children: ReactNode }) {
     checkConnection();
   }, [checkConnection]);
 
+  // Keep each upload's recording in step with the queue and report how it ended
+  const previousQueueRef = useRef<UploadQueueItem[]>([]);
+  React.useEffect(() => {
+    const unsubscribe = queue.subscribe(items => {
+      const previous = new Map(previousQueueRef.current.map(item => [item.id, item]));
+      previousQueueRef.current = items;
+      setUploadQueue(items);
+
+      items.forEach(item => {
+        const before = previous.get(item.id);
+        if (before && before.status === item.status && before.progress === item.progress) return;
+
+        if (item.status === 'cancelled') {
+          dispatch({ type: 'REMOVE_RECORDING', payload: item.id });
+          return;
+        }
+
+        dispatch({
+          type: 'UPDATE_RECORDING',
+          payload: {
+            id: item.id,
+            updates: {
+              uploadStatus: RECORDING_UPLOAD_STATUS[item.status],
+              uploadProgress: item.progress,
+              ...(item.result && {
+                youtubeVideoId: item.result.videoId,
+                youtubeLink: item.result.videoUrl,
+              }),
+            },
+          },
+        });
+
+        if (before?.status === item.status) return;
+        if (item.status === 'completed') {
+          toast({
+            title: "Upload Successful",
+            description: `"${item.title}" is on YouTube`,
+          });
+
+          if (item.result && item.playlistId) {
+            addToPlaylist(item.result.videoId, item.playlistId).catch(error => {
+              ErrorHandler.logError('youtube-playlist-add', error, { uploadId: item.id });
+              toast({
+                title: "Playlist Not Updated",
+                description: `"${item.title}" was uploaded but could not be added to its playlist`,
+                variant: "destructive",
+              });
+            });
+          }
+
+          if (item.result && item.thumbnail) {
+            const { id, title } = item;
+            setThumbnail(item.result.videoId, item.thumbnail)
+              .then(thumbnail => dispatch({ type: 'UPDATE_RECORDING', payload: { id, updates: { thumbnail } } }))
+              .catch(error => {
+                ErrorHandler.logError('youtube-thumbnail', error, { uploadId: id });
+                toast({
+                  title: "Thumbnail Not Set",
+                  description: `"${title}" was uploaded, but its thumbnail was not: ${ErrorHandler.formatErrorForUser(error)}`,
+                  variant: "destructive",
+                });
+              });
+          }
+        } else if (item.status === 'failed') {
+          toast({
+            title: "Upload Failed",
+            description: item.error ?? "Failed to upload video to YouTube",
+            variant: "destructive",
+          });
+        }
+      });
+    });
+
+    return unsubscribe;
+  }, [queue, dispatch, toast]);
+
+  // Uploads interrupted by a reload wait, paused, for the user to resume them
+  React.useEffect(() => {
+    ResumableUploadService.listPending()
+      .then(uploads => uploads.forEach(upload => {
+        if (queue.getItems().some(item => item.id === upload.id)) return;
+        // Ignored when the library already has this recording, whenever the library finishes loading
+        dispatch({
+          type: 'ADD_RECORDING',
+          payload: {
+            id: upload.id,
+            title: upload.title,
+            duration: upload.details?.durationMs ?? 0,
+            createdAt: new Date(upload.createdAt),
+            privacy: upload.privacy,
+            uploadStatus: 'pending',
+          },
+        });
+        queue.restore(upload);
+      }))
+      .catch(error => ErrorHandler.logError('youtube-pending-uploads', error));
+  }, [queue, dispatch]);
+
   return (
     <YouTubeContext.Provider value={{
       isConnected,
@@ -254,6 +507,15 @@ export function YouTubeProvider({ children }: { children: ReactNode }) {
       connectYouTube,
       disconnectYouTube,
       uploadVideo,
+      uploadQueue,
+      enqueueUpload,
+      pauseUpload,
+      resumeUpload,
+      cancelUpload,
+      clearFinishedUploads,
+      listPlaylists,
+      getVideoDetails,
+      updateVideoDetails,
       checkConnection,
       retryConnection,
       refreshToken,
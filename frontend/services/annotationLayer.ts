@@ -0,0 +1,344 @@
+import { DrawingToolOptions } from '../contexts/RecordingContext';
+import { ANNOTATION_CONFIG } from '../config';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type ShapeKind = 'pen' | 'highlighter' | 'arrow' | 'rectangle' | 'ellipse' | 'text';
+
+interface Annotation {
+  kind: ShapeKind;
+  color: string;
+  width: number;
+  /** Freehand paths keep every point; other shapes keep their start and end */
+  points: Point[];
+  text?: string;
+  createdAt: number;
+  fades: boolean;
+}
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Live annotations drawn over a recording. Shapes are kept as vectors in
+ * page (CSS pixel) coordinates, so the same layer is shown on the page and
+ * painted into recorded frames at their full resolution.
+ */
+export class AnnotationLayer {
+  private annotations: Annotation[] = [];
+  private active: Annotation | null = null;
+  private erasing = false;
+  private spotlight: Point | null = null;
+  private width = 0;
+  private height = 0;
+  private canvas: HTMLCanvasElement | null = null;
+  private frameRequest: number | null = null;
+
+  /**
+   * Show the layer on a page canvas covering the viewport, or stop showing it
+   */
+  attach(canvas: HTMLCanvasElement | null): void {
+    this.canvas = canvas;
+    this.requestRender();
+  }
+
+  /**
+   * Match the area the annotations are drawn over, in CSS pixels
+   */
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    if (this.canvas) {
+      const dpr = window.devicePixelRatio || 1;
+      this.canvas.width = Math.round(width * dpr);
+      this.canvas.height = Math.round(height * dpr);
+    }
+    this.requestRender();
+  }
+
+  getSize(): { width: number; height: number } {
+    return { width: this.width, height: this.height };
+  }
+
+  /**
+   * Start a stroke or shape at a point. The eraser removes what it touches;
+   * the spotlight and text tools are handled by their own methods.
+   */
+  begin(point: Point, options: DrawingToolOptions): void {
+    if (options.tool === 'eraser') {
+      this.erasing = true;
+      this.eraseAt(point);
+      return;
+    }
+    if (options.tool === 'spotlight' || options.tool === 'text') return;
+
+    this.active = {
+      kind: options.tool,
+      color: options.color,
+      width: options.width,
+      points: [point, point],
+      createdAt: Date.now(),
+      fades: options.autoFade,
+    };
+    this.requestRender();
+  }
+
+  extend(point: Point): void {
+    if (this.erasing) {
+      this.eraseAt(point);
+      return;
+    }
+
+    const active = this.active;
+    if (!active) return;
+
+    if (active.kind === 'pen' || active.kind === 'highlighter') {
+      active.points.push(point);
+    } else {
+      active.points[1] = point;
+    }
+    this.requestRender();
+  }
+
+  end(): void {
+    this.erasing = false;
+
+    const active = this.active;
+    this.active = null;
+    if (!active) return;
+
+    const [start, end] = [active.points[0], active.points[active.points.length - 1]];
+    const isFreehand = active.kind === 'pen' || active.kind === 'highlighter';
+    // Shapes dragged only a pixel or two are accidental clicks
+    if (isFreehand || Math.hypot(end.x - start.x, end.y - start.y) > 2) {
+      // Fading is timed from when the shape is finished
+      this.annotations.push({ ...active, createdAt: Date.now() });
+    }
+    this.requestRender();
+  }
+
+  addText(point: Point, text: string, options: DrawingToolOptions): void {
+    if (!text.trim()) return;
+
+    this.annotations.push({
+      kind: 'text',
+      color: options.color,
+      width: options.width,
+      points: [point],
+      text: text.trim(),
+      createdAt: Date.now(),
+      fades: options.autoFade,
+    });
+    this.requestRender();
+  }
+
+  /**
+   * Dim everything except a circle around the point; null turns it off
+   */
+  setSpotlight(point: Point | null): void {
+    this.spotlight = point;
+    this.requestRender();
+  }
+
+  undo(): void {
+    this.annotations.pop();
+    this.requestRender();
+  }
+
+  clear(): void {
+    this.annotations = [];
+    this.active = null;
+    this.erasing = false;
+    this.spotlight = null;
+    this.requestRender();
+  }
+
+  hasContent(): boolean {
+    return this.annotations.length > 0 || this.active !== null || this.spotlight !== null;
+  }
+
+  /**
+   * Paint the layer in page coordinates. Callers set up any transform
+   * from page pixels to their own canvas first.
+   */
+  draw(ctx: CanvasRenderingContext2D): void {
+    const now = Date.now();
+    this.pruneFaded(now);
+
+    [...this.annotations, ...(this.active ? [this.active] : [])].forEach(annotation => {
+      const opacity = this.getOpacity(annotation, now);
+      if (opacity <= 0) return;
+
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      this.drawAnnotation(ctx, annotation);
+      ctx.restore();
+    });
+
+    if (this.spotlight) {
+      const radius = Math.min(this.width, this.height) * ANNOTATION_CONFIG.spotlightRadius;
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(0, 0, this.width, this.height);
+      ctx.arc(this.spotlight.x, this.spotlight.y, radius, 0, Math.PI * 2);
+      ctx.fillStyle = `rgba(0, 0, 0, ${ANNOTATION_CONFIG.spotlightDimOpacity})`;
+      ctx.fill('evenodd');
+      ctx.restore();
+    }
+  }
+
+  dispose(): void {
+    if (this.frameRequest !== null) {
+      cancelAnimationFrame(this.frameRequest);
+      this.frameRequest = null;
+    }
+    this.canvas = null;
+    this.clear();
+  }
+
+  private requestRender(): void {
+    if (!this.canvas || this.frameRequest !== null) return;
+    this.frameRequest = requestAnimationFrame(() => {
+      this.frameRequest = null;
+      this.render();
+    });
+  }
+
+  private render(): void {
+    const canvas = this.canvas;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    this.draw(ctx);
+
+    // Keep animating while anything is fading out
+    if (this.annotations.some(annotation => annotation.fades)) {
+      this.requestRender();
+    }
+  }
+
+  private getOpacity(annotation: Annotation, now: number): number {
+    if (!annotation.fades || annotation === this.active) return 1;
+
+    const age = now - annotation.createdAt - ANNOTATION_CONFIG.fadeDelayMs;
+    return age <= 0 ? 1 : 1 - age / ANNOTATION_CONFIG.fadeDurationMs;
+  }
+
+  private pruneFaded(now: number): void {
+    this.annotations = this.annotations.filter(annotation => this.getOpacity(annotation, now) > 0);
+  }
+
+  private drawAnnotation(ctx: CanvasRenderingContext2D, annotation: Annotation): void {
+    const { kind, color, width, points } = annotation;
+    const [start, end] = [points[0], points[points.length - 1]];
+
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    switch (kind) {
+      case 'pen':
+      case 'highlighter':
+        if (kind === 'highlighter') {
+          ctx.globalAlpha *= ANNOTATION_CONFIG.highlighterOpacity;
+          ctx.lineWidth = width * ANNOTATION_CONFIG.highlighterWidthScale;
+        }
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.stroke();
+        break;
+
+      case 'arrow': {
+        const angle = Math.atan2(end.y - start.y, end.x - start.x);
+        const head = width * ANNOTATION_CONFIG.arrowHeadScale;
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.moveTo(end.x - head * Math.cos(angle - Math.PI / 7), end.y - head * Math.sin(angle - Math.PI / 7));
+        ctx.lineTo(end.x, end.y);
+        ctx.lineTo(end.x - head * Math.cos(angle + Math.PI / 7), end.y - head * Math.sin(angle + Math.PI / 7));
+        ctx.stroke();
+        break;
+      }
+
+      case 'rectangle':
+        ctx.strokeRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+        break;
+
+      case 'ellipse':
+        ctx.beginPath();
+        ctx.ellipse(
+          (start.x + end.x) / 2, (start.y + end.y) / 2,
+          Math.abs(end.x - start.x) / 2, Math.abs(end.y - start.y) / 2,
+          0, 0, Math.PI * 2
+        );
+        ctx.stroke();
+        break;
+
+      case 'text':
+        ctx.font = `600 ${this.getFontSize(annotation)}px system-ui, sans-serif`;
+        ctx.textBaseline = 'top';
+        // A dark outline keeps light text readable over any screen content
+        ctx.lineWidth = Math.max(2, width);
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.strokeText(annotation.text ?? '', start.x, start.y);
+        ctx.fillText(annotation.text ?? '', start.x, start.y);
+        break;
+    }
+  }
+
+  private getFontSize(annotation: Annotation): number {
+    return Math.max(14, annotation.width * ANNOTATION_CONFIG.fontScale);
+  }
+
+  /**
+   * Remove every annotation within reach of the point
+   */
+  private eraseAt(point: Point): void {
+    const before = this.annotations.length;
+    this.annotations = this.annotations.filter(annotation => !this.isNear(annotation, point));
+    if (this.annotations.length !== before) {
+      this.requestRender();
+    }
+  }
+
+  private isNear(annotation: Annotation, point: Point): boolean {
+    const reach = ANNOTATION_CONFIG.eraserRadius + annotation.width / 2;
+    const { points } = annotation;
+    const [start, end] = [points[0], points[points.length - 1]];
+
+    switch (annotation.kind) {
+      case 'pen':
+      case 'highlighter':
+        return points.some((p, i) => distanceToSegment(point, p, points[Math.min(i + 1, points.length - 1)]) <= reach);
+      case 'arrow':
+        return distanceToSegment(point, start, end) <= reach;
+      case 'text': {
+        const fontSize = this.getFontSize(annotation);
+        // Rough text box: average glyphs are a little over half as wide as they are tall
+        const textWidth = (annotation.text?.length ?? 0) * fontSize * 0.6;
+        return point.x >= start.x - reach && point.x <= start.x + textWidth + reach &&
+          point.y >= start.y - reach && point.y <= start.y + fontSize + reach;
+      }
+      default:
+        return point.x >= Math.min(start.x, end.x) - reach && point.x <= Math.max(start.x, end.x) + reach &&
+          point.y >= Math.min(start.y, end.y) - reach && point.y <= Math.max(start.y, end.y) + reach;
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { EncodingProfile, VideoCodec, VideoContainer } from '../contexts/RecordingContext';
+
+export interface CodecCapability {
+  profile: EncodingProfile;
+  mimeType: string | null;
+  supported: boolean;
+}
+
+export const VIDEO_CODECS: VideoCodec[] = ['vp8', 'vp9', 'av1', 'h264'];
+export const VIDEO_CONTAINERS: VideoContainer[] = ['webm', 'mp4'];
+
+// Codec strings MediaRecorder understands for each container; null means the
+// combination cannot be expressed (VP8 has no MP4 mapping)
+const VIDEO_CODEC_STRINGS: Record<VideoContainer, Record<VideoCodec, string | null>> = {
+  webm: {
+    vp8: 'vp8',
+    vp9: 'vp9',
+    av1: 'av1',
+    h264: 'h264',
+  },
+  mp4: {
+    vp8: null,
+    vp9: 'vp09.00.10.08',
+    av1: 'av01.0.04M.08',
+    h264: 'avc1.42E01E',
+  },
+};
+
+const AUDIO_CODEC_STRINGS: Record<VideoContainer, string> = {
+  webm: 'opus',
+  mp4: 'mp4a.40.2',
+};
+
+// Order tried when the preferred profile is not available
+const FALLBACK_PROFILES: EncodingProfile[] = [
+  { container: 'webm', videoCodec: 'vp9' },
+  { container: 'webm', videoCodec: 'vp8' },
+  { container: 'webm', videoCodec: 'h264' },
+  { container: 'mp4', videoCodec: 'h264' },
+  { container: 'webm', videoCodec: 'av1' },
+  { container: 'mp4', videoCodec: 'av1' },
+  { container: 'mp4', videoCodec: 'vp9' },
+];
+
+export class CodecService {
+  /**
+   * Build the MediaRecorder mime type for a profile
+   * @param profile - Container and video codec
+   * @param includeAudio - Whether the stream carries an audio track
+   * @returns string | null - The mime type, or null if the combination does not exist
+   */
+  static getMimeType(profile: EncodingProfile, includeAudio: boolean = true): string | null {
+    const videoCodec = VIDEO_CODEC_STRINGS[profile.container][profile.videoCodec];
+    if (!videoCodec) {
+      return null;
+    }
+
+    const codecs = includeAudio ? `${videoCodec},${AUDIO_CODEC_STRINGS[profile.container]}` : videoCodec;
+    return `video/${profile.container};codecs=${codecs}`;
+  }
+
+  static isSupported(profile: EncodingProfile, includeAudio: boolean = true): boolean {
+    const mimeType = this.getMimeType(profile, includeAudio);
+    return !!mimeType && typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+  }
+
+  /**
+   * Probe every container/codec combination this browser can record
+   */
+  static getCapabilityReport(): CodecCapability[] {
+    const report: CodecCapability[] = [];
+
+    VIDEO_CONTAINERS.forEach(container => {
+      VIDEO_CODECS.forEach(videoCodec => {
+        const profile = { container, videoCodec };
+        report.push({
+          profile,
+          mimeType: this.getMimeType(profile),
+          supported: this.isSupported(profile),
+        });
+      });
+    });
+
+    return report;
+  }
+
+  /**
+   * Pick the mime type to record with, honouring the preferred profile when
+   * the browser supports it and falling back to the closest supported one
+   * @param preferred - The user's chosen profile
+   * @param includeAudio - Whether the stream carries an audio track
+   * @returns The profile actually used and its mime type
+   */
+  static resolveProfile(
+    preferred: EncodingProfile | null,
+    includeAudio: boolean = true
+  ): { profile: EncodingProfile | null; mimeType: string } {
+    const candidates = preferred ? [preferred, ...FALLBACK_PROFILES] : FALLBACK_PROFILES;
+
+    for (const profile of candidates) {
+      if (this.isSupported(profile, includeAudio)) {
+        const mimeType = this.getMimeType(profile, includeAudio)!;
+        if (preferred && profile !== preferred) {
+          console.warn('Preferred encoding profile not supported, using fallback:', { preferred, fallback: profile });
+        }
+        return { profile, mimeType };
+      }
+    }
+
+    // Let the browser choose codecs within a container it can record at all
+    const bareType = ['video/webm', 'video/mp4'].find(type =>
+      typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)
+    );
+    console.warn('No encoding profile supported, using container default:', bareType || 'video/webm');
+    return { profile: null, mimeType: bareType || 'video/webm' };
+  }
+
+  static getCodecLabel(codec: VideoCodec): string {
+    switch (codec) {
+      case 'vp8': return 'VP8';
+      case 'vp9': return 'VP9';
+      case 'av1': return 'AV1';
+      case 'h264': return 'H.264';
+    }
+  }
+}
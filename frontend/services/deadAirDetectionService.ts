@@ -0,0 +1,230 @@
+import { CutSuggestion, CutSuggestionReason, EditRange } from '../contexts/RecordingContext';
+import { ErrorHandler } from '../utils/errorHandler';
+import { DEAD_AIR_CONFIG } from '../config';
+
+export class DeadAirDetectionService {
+  /**
+   * Find stretches where nothing is said. Recordings without audio, or too
+   * large to decode, fall back to stretches where nothing on screen changes.
+   * @param blob - The finished recording
+   * @param durationMs - Recording length, used when the file reports none
+   * @param minDurationMs - Shortest stretch worth suggesting
+   * @param requireStillScreen - Only suggest silence while the screen is also still
+   * @param signal - Aborts the analysis, e.g. when the recording is discarded
+   * @returns Promise<CutSuggestion[]> - Suggested cuts in milliseconds, sorted
+   */
+  static async analyze(
+    blob: Blob,
+    durationMs: number,
+    minDurationMs: number,
+    requireStillScreen: boolean,
+    signal?: AbortSignal
+  ): Promise<CutSuggestion[]> {
+    const silence = await this.detectSilence(blob, minDurationMs, signal);
+    if (signal?.aborted) return [];
+
+    const frozen = silence && !requireStillScreen
+      ? null
+      : await this.detectFrozenFrames(blob, durationMs, minDurationMs, signal);
+    if (signal?.aborted) return [];
+
+    let ranges: EditRange[];
+    let reason: CutSuggestionReason;
+
+    if (silence && frozen) {
+      ranges = this.intersect(silence, frozen).filter(range => range.end - range.start >= minDurationMs);
+      reason = 'dead-air';
+    } else if (frozen) {
+      ranges = frozen;
+      reason = 'frozen';
+    } else if (silence) {
+      ranges = silence;
+      reason = 'silence';
+    } else {
+      return [];
+    }
+
+    const padding = DEAD_AIR_CONFIG.edgePaddingMs;
+    return ranges
+      .map(range => ({ start: range.start + padding, end: range.end - padding }))
+      .filter(range => range.end > range.start)
+      .map((range, index) => ({
+        id: `suggestion-${Date.now()}-${index}`,
+        ...range,
+        reason,
+      }));
+  }
+
+  /**
+   * Find quiet stretches in the audio track
+   * @returns Promise<EditRange[] | null> - Silent ranges, or null if the recording has no audio,
+   * is too large to decode or the analysis was aborted
+   */
+  static async detectSilence(blob: Blob, minDurationMs: number, signal?: AbortSignal): Promise<EditRange[] | null> {
+    if (blob.size > DEAD_AIR_CONFIG.maxAudioAnalysisMB * 1024 * 1024) {
+      return null;
+    }
+
+    let audio: AudioBuffer;
+    try {
+      const data = await blob.arrayBuffer();
+      if (signal?.aborted) return null;
+
+      // Decoding resamples to the context's rate, which keeps long recordings small
+      const context = new OfflineAudioContext(1, 1, DEAD_AIR_CONFIG.audioSampleRate);
+      audio = await context.decodeAudioData(data);
+    } catch (error) {
+      // Recordings without an audio track fail to decode
+      ErrorHandler.logError('dead-air-audio', error, { size: blob.size });
+      return null;
+    }
+    if (signal?.aborted) return null;
+
+    const windowSize = Math.max(1, Math.round(audio.sampleRate * DEAD_AIR_CONFIG.audioWindowMs / 1000));
+    const windowCount = Math.floor(audio.length / windowSize);
+    const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => audio.getChannelData(i));
+    const silent: boolean[] = [];
+
+    for (let w = 0; w < windowCount; w++) {
+      let sum = 0;
+      for (const data of channels) {
+        for (let i = w * windowSize; i < (w + 1) * windowSize; i++) {
+          sum += data[i] * data[i];
+        }
+      }
+      const rms = Math.sqrt(sum / (windowSize * channels.length));
+      const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+      silent.push(db < DEAD_AIR_CONFIG.silenceThresholdDb);
+    }
+
+    return this.findRuns(silent, DEAD_AIR_CONFIG.audioWindowMs, minDurationMs);
+  }
+
+  /**
+   * Find stretches where the picture does not change, by sampling frames at a
+   * fixed interval and comparing them at low resolution
+   * @returns Promise<EditRange[] | null> - Frozen ranges, or null if the video could not be read
+   */
+  static async detectFrozenFrames(
+    blob: Blob,
+    durationMs: number,
+    minDurationMs: number,
+    signal?: AbortSignal
+  ): Promise<EditRange[] | null> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(blob);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error('Could not load video for analysis'));
+      });
+
+      if (!video.videoWidth || !video.videoHeight) return null;
+
+      const width = DEAD_AIR_CONFIG.frameSampleWidth;
+      const height = Math.max(1, Math.round(width * video.videoHeight / video.videoWidth));
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return null;
+
+      const lengthMs = isFinite(video.duration) && video.duration > 0 ? video.duration * 1000 : durationMs;
+      const step = DEAD_AIR_CONFIG.frameSampleIntervalMs;
+      const frozen: boolean[] = [];
+      let previous: Uint8ClampedArray | null = null;
+
+      for (let time = 0; time <= lengthMs; time += step) {
+        if (signal?.aborted) return null;
+
+        await new Promise<void>((resolve, reject) => {
+          video.onseeked = () => resolve();
+          video.onerror = () => reject(new Error('Could not seek video for analysis'));
+          video.currentTime = time / 1000;
+        });
+
+        ctx.drawImage(video, 0, 0, width, height);
+        const pixels = ctx.getImageData(0, 0, width, height).data;
+
+        if (previous) {
+          frozen.push(this.getFrameDifference(previous, pixels) < DEAD_AIR_CONFIG.frozenFrameThreshold);
+        }
+        previous = pixels;
+      }
+
+      return this.findRuns(frozen, step, minDurationMs);
+    } catch (error) {
+      ErrorHandler.logError('dead-air-video', error, { size: blob.size });
+      return null;
+    } finally {
+      URL.revokeObjectURL(video.src);
+      video.removeAttribute('src');
+      video.load();
+    }
+  }
+
+  /**
+   * Mean absolute luma difference between two RGBA frames, 0-255
+   */
+  private static getFrameDifference(a: Uint8ClampedArray, b: Uint8ClampedArray): number {
+    let total = 0;
+    for (let i = 0; i < a.length; i += 4) {
+      const lumaA = 0.299 * a[i] + 0.587 * a[i + 1] + 0.114 * a[i + 2];
+      const lumaB = 0.299 * b[i] + 0.587 * b[i + 1] + 0.114 * b[i + 2];
+      total += Math.abs(lumaA - lumaB);
+    }
+    return total / (a.length / 4);
+  }
+
+  /**
+   * Turn consecutive flagged steps into time ranges
+   * @param flags - One entry per step, true where the condition holds
+   * @param stepMs - Length of each step
+   */
+  private static findRuns(flags: boolean[], stepMs: number, minDurationMs: number): EditRange[] {
+    const ranges: EditRange[] = [];
+    let runStart: number | null = null;
+
+    for (let index = 0; index < flags.length; index++) {
+      if (flags[index] && runStart === null) {
+        runStart = index;
+      } else if (!flags[index] && runStart !== null) {
+        ranges.push({ start: runStart * stepMs, end: index * stepMs });
+        runStart = null;
+      }
+    }
+
+    if (runStart !== null) {
+      ranges.push({ start: runStart * stepMs, end: flags.length * stepMs });
+    }
+
+    return ranges.filter(range => range.end - range.start >= minDurationMs);
+  }
+
+  /**
+   * Overlap of two sorted, non-overlapping range lists
+   */
+  private static intersect(a: EditRange[], b: EditRange[]): EditRange[] {
+    const result: EditRange[] = [];
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+      const start = Math.max(a[i].start, b[j].start);
+      const end = Math.min(a[i].end, b[j].end);
+      if (end > start) {
+        result.push({ start, end });
+      }
+      if (a[i].end < b[j].end) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+
+    return result;
+  }
+}
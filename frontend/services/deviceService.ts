@@ -0,0 +1,46 @@
+import { InputDevice } from '../contexts/RecordingContext';
+import { ErrorHandler } from '../utils/errorHandler';
+
+export class DeviceService {
+  /**
+   * List the cameras and microphones the browser exposes.
+   * Labels are empty until the user has granted media permission, so a
+   * numbered fallback label is used in that case.
+   */
+  static async listInputDevices(): Promise<{ cameras: InputDevice[]; microphones: InputDevice[] }> {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+      return { cameras: [], microphones: [] };
+    }
+
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+
+      const toInputDevices = (kind: MediaDeviceKind, fallbackLabel: string): InputDevice[] =>
+        devices
+          // The 'default' and 'communications' aliases duplicate a real device
+          .filter(device => device.kind === kind && device.deviceId && device.deviceId !== 'default' && device.deviceId !== 'communications')
+          .map((device, index) => ({
+            deviceId: device.deviceId,
+            label: device.label || `${fallbackLabel} ${index + 1}`,
+          }));
+
+      return {
+        cameras: toInputDevices('videoinput', 'Camera'),
+        microphones: toInputDevices('audioinput', 'Microphone'),
+      };
+    } catch (error) {
+      console.error('Failed to enumerate media devices:', error);
+      ErrorHandler.logError('device-enumeration', error);
+      return { cameras: [], microphones: [] };
+    }
+  }
+
+  static onDeviceChange(callback: () => void): () => void {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.addEventListener) {
+      return () => {};
+    }
+
+    navigator.mediaDevices.addEventListener('devicechange', callback);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', callback);
+  }
+}
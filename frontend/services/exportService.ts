@@ -0,0 +1,286 @@
+import { WebmDemuxer, WebmTrack } from './webmDemuxer';
+import { Mp4Muxer, Mp4Track, buildAvcSampleEntry, buildVp9SampleEntry, buildOpusSampleEntry } from './mp4Muxer';
+import { VideoTrimmingService } from './videoTrimmingService';
+import { CodecService } from './codecService';
+import { GifEncoder } from '../utils/gifEncoder';
+import { buildAnimatedWebp, WebpFrame } from '../utils/webpAnimation';
+import { sanitizeFilename } from '../utils/formatters';
+import { ErrorHandler } from '../utils/errorHandler';
+import { TRACK_TYPE_VIDEO, TRACK_TYPE_AUDIO } from '../utils/ebml';
+import { EXPORT_CONFIG } from '../config';
+
+export type ExportFormat = 'original' | 'edited' | 'mp4' | 'gif' | 'webp';
+
+/**
+ * How an MP4 is produced: the file already is one, its frames can be copied
+ * into an MP4 container, or it has to be replayed and encoded again
+ */
+export type Mp4ExportMethod = 'copy' | 'remux' | 'reencode';
+
+// Profile used when an MP4 has to be encoded again
+const MP4_REENCODE_PROFILE = { container: 'mp4', videoCodec: 'h264' } as const;
+
+// Opus is always decoded at 48 kHz, so its samples are timed in that rate
+const OPUS_TIMESCALE = 48000;
+
+export class ExportService {
+  /**
+   * Save a blob through the browser's download flow
+   * @param title - Recording title, turned into a safe file name
+   * @param extension - File extension without the dot
+   */
+  static download(blob: Blob, title: string, extension: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${sanitizeFilename(title) || 'recording'}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    // Some browsers read the URL after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  /**
+   * Pick the cheapest way to get an MP4 from a video, judged from its mime type
+   * @returns Mp4ExportMethod | null - null if this browser cannot produce an MP4
+   */
+  static getMp4Method(blob: Blob): Mp4ExportMethod | null {
+    const [container, params = ''] = blob.type.split(';');
+    if (container.trim() === 'video/mp4') {
+      return 'copy';
+    }
+
+    const codecs = params.replace(/codecs=|"/g, '').split(',').map(codec => codec.trim().toLowerCase()).filter(Boolean);
+    const copyable = codecs.every(codec => /^(vp9|vp09|avc1|h264|opus)/.test(codec));
+    if (container.trim() === 'video/webm' && copyable) {
+      return 'remux';
+    }
+
+    return CodecService.isSupported(MP4_REENCODE_PROFILE, true) ? 'reencode' : null;
+  }
+
+  static isAnimatedWebpSupported(): boolean {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    return canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+
+  /**
+   * Size of an animated export scaled down to the format's width
+   */
+  static getAnimatedSize(width: number, height: number, targetWidth: number): { width: number; height: number } {
+    const scale = Math.min(1, targetWidth / width);
+    // Even dimensions keep every encoder happy
+    return {
+      width: Math.max(2, Math.round((width * scale) / 2) * 2),
+      height: Math.max(2, Math.round((height * scale) / 2) * 2),
+    };
+  }
+
+  /**
+   * Expected size of an export, before anything is encoded
+   * @param source - The video to export, its length and its frame size
+   * @returns number - Estimated bytes
+   */
+  static estimateSize(
+    format: ExportFormat,
+    source: { blob: Blob; durationMs: number; width: number; height: number }
+  ): number {
+    if (format !== 'gif' && format !== 'webp') {
+      // Copies and remuxes keep the media data; re-encoding targets a similar bitrate
+      return source.blob.size;
+    }
+
+    const settings = format === 'gif' ? EXPORT_CONFIG.gif : EXPORT_CONFIG.webp;
+    const bytesPerPixel = format === 'gif' ? EXPORT_CONFIG.gifBytesPerPixel : EXPORT_CONFIG.webpBytesPerPixel;
+    const { width, height } = this.getAnimatedSize(source.width, source.height, settings.width);
+    const frames = Math.ceil((source.durationMs / 1000) * settings.frameRate);
+
+    return Math.round(width * height * frames * bytesPerPixel);
+  }
+
+  /**
+   * Convert a video to MP4, copying its frames where the codecs allow
+   * @param onProgress - Called with the completed fraction, from 0 to 1
+   */
+  static async toMp4(blob: Blob, onProgress?: (progress: number) => void): Promise<Blob> {
+    const method = this.getMp4Method(blob);
+
+    if (method === 'copy') {
+      return blob;
+    }
+
+    if (method === 'remux') {
+      try {
+        const mp4 = await this.remuxToMp4(blob, onProgress);
+        onProgress?.(1);
+        return mp4;
+      } catch (error) {
+        console.warn('MP4 remux failed, encoding again instead:', error);
+        ErrorHandler.logError('export-mp4-remux', error, { type: blob.type, size: blob.size });
+      }
+    }
+
+    if (!CodecService.isSupported(MP4_REENCODE_PROFILE, false)) {
+      throw ErrorHandler.createError('EXPORT_MP4_UNSUPPORTED', 'This browser cannot create MP4 files');
+    }
+    return VideoTrimmingService.transcode(blob, MP4_REENCODE_PROFILE, onProgress);
+  }
+
+  static async toGif(blob: Blob, onProgress?: (progress: number) => void): Promise<Blob> {
+    const { frameRate, width } = EXPORT_CONFIG.gif;
+    let encoder: GifEncoder | null = null;
+
+    await this.sampleFrames(blob, width, frameRate, ctx => {
+      encoder = encoder ?? new GifEncoder(ctx.canvas.width, ctx.canvas.height);
+      encoder.addFrame(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height).data, 1000 / frameRate);
+    }, onProgress);
+
+    if (!encoder) {
+      throw ErrorHandler.createError('EXPORT_NO_FRAMES', 'No frames could be read from the video');
+    }
+    return (encoder as GifEncoder).finish();
+  }
+
+  static async toAnimatedWebp(blob: Blob, onProgress?: (progress: number) => void): Promise<Blob> {
+    const { frameRate, width, quality } = EXPORT_CONFIG.webp;
+    const frames: WebpFrame[] = [];
+    let size = { width: 0, height: 0 };
+
+    await this.sampleFrames(blob, width, frameRate, async ctx => {
+      size = { width: ctx.canvas.width, height: ctx.canvas.height };
+      const still = await new Promise<Blob | null>(resolve => ctx.canvas.toBlob(resolve, 'image/webp', quality));
+      if (!still || still.type !== 'image/webp') {
+        throw ErrorHandler.createError('EXPORT_WEBP_UNSUPPORTED', 'This browser cannot encode WebP images');
+      }
+      frames.push({ data: new Uint8Array(await still.arrayBuffer()), durationMs: 1000 / frameRate });
+    }, onProgress);
+
+    if (frames.length === 0) {
+      throw ErrorHandler.createError('EXPORT_NO_FRAMES', 'No frames could be read from the video');
+    }
+    return buildAnimatedWebp(frames, size.width, size.height);
+  }
+
+  /**
+   * Copy WebM frames into an MP4 container without re-encoding
+   */
+  private static async remuxToMp4(blob: Blob, onProgress?: (progress: number) => void): Promise<Blob> {
+    const file = await WebmDemuxer.demux(blob, onProgress);
+    const ticksPerSecond = 1e9 / file.timecodeScale;
+
+    const tracks: Mp4Track[] = file.tracks
+      .filter(track => track.type === TRACK_TYPE_VIDEO || track.type === TRACK_TYPE_AUDIO)
+      .map(track => {
+        const isVideo = track.type === TRACK_TYPE_VIDEO;
+        const timescale = isVideo ? ticksPerSecond : OPUS_TIMESCALE;
+        const frames = file.frames.filter(frame => frame.trackNumber === track.number);
+
+        if (frames.some(frame => frame.flags & 0x06)) {
+          throw ErrorHandler.createError('EXPORT_MP4_LACING', 'Laced frames cannot be copied into MP4');
+        }
+
+        const toTimescale = (ticks: number) => Math.max(1, Math.round((ticks * timescale) / ticksPerSecond));
+        // The last frame has nothing to measure against, so it repeats the previous duration
+        const fallbackDuration = isVideo ? Math.round(timescale / 30) : Math.round(timescale / 50);
+
+        return {
+          id: track.number,
+          kind: isVideo ? 'video' as const : 'audio' as const,
+          timescale,
+          sampleEntry: this.buildMp4SampleEntry(track),
+          width: track.width ?? 0,
+          height: track.height ?? 0,
+          samples: frames.map((frame, index) => {
+            const next = frames[index + 1];
+            const previous = frames[index - 1];
+            return {
+              data: blob.slice(frame.dataStart, frame.dataEnd),
+              duration: next
+                ? toTimescale(next.timestamp - frame.timestamp)
+                : previous ? toTimescale(frame.timestamp - previous.timestamp) : fallbackDuration,
+              keyframe: frame.keyframe,
+            };
+          }),
+        };
+      });
+
+    if (!tracks.some(track => track.kind === 'video')) {
+      throw ErrorHandler.createError('EXPORT_MP4_NO_VIDEO', 'Video has no video track');
+    }
+
+    return Mp4Muxer.mux(tracks);
+  }
+
+  private static buildMp4SampleEntry(track: WebmTrack): Uint8Array {
+    if (track.codecId === 'V_MPEG4/ISO/AVC' && track.codecPrivate && track.width && track.height) {
+      return buildAvcSampleEntry(track.width, track.height, track.codecPrivate);
+    }
+    if (track.codecId === 'V_VP9' && track.width && track.height) {
+      return buildVp9SampleEntry(track.width, track.height);
+    }
+    if (track.codecId === 'A_OPUS') {
+      return buildOpusSampleEntry(track.channels ?? 2, track.codecPrivate);
+    }
+    throw ErrorHandler.createError('EXPORT_MP4_CODEC', `${track.codecId || 'Unknown codec'} cannot be copied into MP4`);
+  }
+
+  /**
+   * Step through a short video at a fixed frame rate, drawing each frame
+   * scaled down onto a canvas
+   * @param onFrame - Called with the canvas holding each frame, in order
+   */
+  private static async sampleFrames(
+    blob: Blob,
+    targetWidth: number,
+    frameRate: number,
+    onFrame: (ctx: CanvasRenderingContext2D) => void | Promise<void>,
+    onProgress?: (progress: number) => void
+  ): Promise<void> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = URL.createObjectURL(blob);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error('Could not load video for export'));
+      });
+
+      if (!isFinite(video.duration) || video.duration > EXPORT_CONFIG.maxAnimatedDurationSeconds) {
+        throw ErrorHandler.createError(
+          'EXPORT_TOO_LONG',
+          `Animated exports are limited to ${EXPORT_CONFIG.maxAnimatedDurationSeconds} seconds`
+        );
+      }
+
+      const { width, height } = this.getAnimatedSize(video.videoWidth, video.videoHeight, targetWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+
+      const frameCount = Math.max(1, Math.floor(video.duration * frameRate));
+      for (let i = 0; i < frameCount; i++) {
+        await new Promise<void>((resolve, reject) => {
+          video.onseeked = () => resolve();
+          video.onerror = () => reject(new Error('Could not seek video for export'));
+          video.currentTime = i / frameRate;
+        });
+
+        ctx.drawImage(video, 0, 0, width, height);
+        await onFrame(ctx);
+        onProgress?.((i + 1) / frameCount);
+      }
+    } finally {
+      URL.revokeObjectURL(video.src);
+      video.removeAttribute('src');
+      video.load();
+    }
+  }
+}
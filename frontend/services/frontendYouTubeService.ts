@@ -8,6 +8,9 @@ import {
   POPUP_CONFIG,
   isYouTubeConfigured
 } from '../config';
+import { UploadOptions, VideoDetails, YouTubePlaylist, YouTubeVideoResource } from './realYouTubeService';
+import { buildVideoResource, buildVideoUpdate, parseVideoDetails } from '../utils/videoMetadata';
+import { ResumableUploadService } from './resumableUploadService';
 
 export interface YouTubeConnection {
   isConnected: boolean;
@@ -116,7 +119,8 @@ export class FrontendYouTubeService {
     file: Blob, 
     title: string, 
     privacy: 'public' | 'private' | 'unlisted',
-    onProgress?: (progress: any) => void
+    onProgress?: (progress: any) => void,
+    options: UploadOptions = {}
   ): Promise<{ videoId: string; videoUrl: string }> {
     const tokenData = this.getStoredTokenData();
     if (!tokenData) {
@@ -124,61 +128,153 @@ export class FrontendYouTubeService {
     }
 
     try {
-      // Step 1: Initialize upload
-      const initResponse = await fetch('https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status', {
+      return await ResumableUploadService.start(
+        {
+          blob: file,
+          title,
+          privacy,
+          metadata: buildVideoResource(title, privacy, options.metadata, options.chapters, options.durationMs),
+          playlistId: options.metadata?.playlistId || undefined,
+          thumbnail: options.thumbnail,
+          details: { metadata: options.metadata, chapters: options.chapters, durationMs: options.durationMs },
+        },
+        tokenData.access_token,
+        onProgress,
+        options
+      );
+    } catch (error) {
+      console.error('Video upload failed:', error);
+      throw error;
+    }
+  }
+
+  static async listPlaylists(): Promise<YouTubePlaylist[]> {
+    const accessToken = await this.getValidAccessToken();
+
+    try {
+      const response = await fetch('https://www.googleapis.com/youtube/v3/playlists?part=snippet&mine=true&maxResults=50', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to list playlists: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      return (data.items ?? []).map((item: any) => ({ id: item.id, title: item.snippet.title }));
+    } catch (error) {
+      console.error('Listing playlists failed:', error);
+      throw error;
+    }
+  }
+
+  static async addToPlaylist(videoId: string, playlistId: string): Promise<void> {
+    const accessToken = await this.getValidAccessToken();
+
+    try {
+      const response = await fetch('https://www.googleapis.com/youtube/v3/playlistItems?part=snippet', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${tokenData.access_token}`,
+          'Authorization': `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           snippet: {
-            title: title,
-            description: `Uploaded from RecordLane - ${new Date().toISOString()}`,
-            tags: ['RecordLane', 'Screen Recording'],
-            categoryId: '22', // People & Blogs
-          },
-          status: {
-            privacyStatus: privacy,
-            selfDeclaredMadeForKids: false,
+            playlistId,
+            resourceId: { kind: 'youtube#video', videoId },
           },
         }),
       });
 
-      if (!initResponse.ok) {
-        throw new Error(`Upload initialization failed: ${initResponse.statusText}`);
+      if (!response.ok) {
+        throw new Error(`Failed to add video to playlist: ${await response.text()}`);
       }
+    } catch (error) {
+      console.error('Adding to playlist failed:', error);
+      throw error;
+    }
+  }
+
+  static async setThumbnail(videoId: string, image: Blob): Promise<string> {
+    const accessToken = await this.getValidAccessToken();
+
+    try {
+      const response = await fetch(`https://www.googleapis.com/upload/youtube/v3/thumbnails/set?videoId=${videoId}&uploadType=media`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': image.type || 'image/jpeg',
+        },
+        body: image,
+      });
 
-      const location = initResponse.headers.get('Location');
-      if (!location) {
-        throw new Error('No upload location received');
+      if (response.status === 403) {
+        throw ErrorHandler.createError('THUMBNAIL_FAILED', 'YouTube only allows custom thumbnails on verified channels');
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to set thumbnail: ${await response.text()}`);
       }
 
-      // Step 2: Upload file
-      const uploadResponse = await fetch(location, {
+      const data = await response.json();
+      const sizes = data.items?.[0] ?? {};
+      return (sizes.maxres ?? sizes.high ?? sizes.medium ?? sizes.default)?.url ?? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+    } catch (error) {
+      console.error('Setting thumbnail failed:', error);
+      throw error;
+    }
+  }
+
+  static async getVideoDetails(videoId: string): Promise<VideoDetails> {
+    const accessToken = await this.getValidAccessToken();
+    return parseVideoDetails(await this.fetchVideo(videoId, accessToken));
+  }
+
+  static async updateVideo(videoId: string, details: VideoDetails): Promise<VideoDetails> {
+    const accessToken = await this.getValidAccessToken();
+
+    try {
+      const video = await this.fetchVideo(videoId, accessToken);
+
+      const response = await fetch('https://www.googleapis.com/youtube/v3/videos?part=snippet,status', {
         method: 'PUT',
         headers: {
-          'Content-Type': 'video/*',
-          'Content-Length': file.size.toString(),
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
         },
-        body: file,
+        body: JSON.stringify(buildVideoUpdate(video, details)),
       });
 
-      if (!uploadResponse.ok) {
-        throw new Error(`Upload failed: ${uploadResponse.statusText}`);
+      if (!response.ok) {
+        throw new Error(`Failed to update video: ${await response.text()}`);
       }
 
-      const result = await uploadResponse.json();
-      return {
-        videoId: result.id,
-        videoUrl: `https://www.youtube.com/watch?v=${result.id}`,
-      };
+      return parseVideoDetails(await response.json());
     } catch (error) {
-      console.error('Video upload failed:', error);
+      console.error('Updating video failed:', error);
       throw error;
     }
   }
 
+  private static async fetchVideo(videoId: string, accessToken: string): Promise<YouTubeVideoResource> {
+    const response = await fetch(`https://www.googleapis.com/youtube/v3/videos?part=snippet,status&id=${videoId}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to load video: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    if (!data.items?.length) {
+      throw ErrorHandler.createError('VIDEO_NOT_FOUND', 'This video is no longer on YouTube');
+    }
+    return data.items[0];
+  }
+
   private static generateCodeVerifier(): string {
     const array = new Uint8Array(32);
     crypto.getRandomValues(array);
@@ -370,6 +466,27 @@ export class FrontendYouTubeService {
     }
   }
 
+  /**
+   * The stored access token, refreshed first if it no longer works
+   */
+  private static async getValidAccessToken(): Promise<string> {
+    const tokenData = this.getStoredTokenData();
+    if (!tokenData) {
+      throw new Error('Not connected to YouTube');
+    }
+
+    if (await this.validateToken(tokenData.access_token)) {
+      return tokenData.access_token;
+    }
+
+    const refreshed = await this.refreshAccessToken();
+    const refreshedToken = this.getStoredTokenData()?.access_token;
+    if (!refreshed || !refreshedToken) {
+      throw new Error('YouTube session expired, please reconnect');
+    }
+    return refreshedToken;
+  }
+
   private static async validateToken(accessToken: string): Promise<boolean> {
     try {
       const response = await fetch('https://www.googleapis.com/oauth2/v1/tokeninfo', {
@@ -0,0 +1,278 @@
+import { concatBytes } from '../utils/ebml';
+import { box, fullBox, fourCC, u8, u16, u32, u64, zeros, UNITY_MATRIX } from '../utils/mp4';
+
+// Movie-level times (mvhd, tkhd) are written in milliseconds
+const MOVIE_TIMESCALE = 1000;
+
+// Samples are interleaved in chunks of about this much media per track
+const CHUNK_DURATION_SECONDS = 1;
+
+export interface Mp4Sample {
+  /** Frame data: a slice of the source file */
+  data: Blob | Uint8Array<ArrayBuffer>;
+  /** In the track's timescale */
+  duration: number;
+  keyframe: boolean;
+}
+
+export interface Mp4Track {
+  id: number;
+  kind: 'video' | 'audio';
+  /** Ticks per second for sample durations */
+  timescale: number;
+  /** The complete sample entry box (avc1, vp09, Opus, ...) */
+  sampleEntry: Uint8Array;
+  width: number;
+  height: number;
+  samples: Mp4Sample[];
+}
+
+interface Chunk {
+  track: Mp4Track;
+  /** Index of the first sample in the chunk */
+  first: number;
+  count: number;
+  /** Start time in seconds, used to interleave chunks */
+  time: number;
+}
+
+const sampleSize = (sample: Mp4Sample) => sample.data instanceof Blob ? sample.data.size : sample.data.length;
+
+/**
+ * Video sample entry shared by every codec
+ * @param type - Sample entry type, e.g. avc1 or vp09
+ * @param config - Codec configuration box, e.g. avcC or vpcC
+ */
+function buildVisualSampleEntry(type: string, width: number, height: number, config: Uint8Array): Uint8Array<ArrayBuffer> {
+  return box(type,
+    zeros(6), u16(1),
+    zeros(16),
+    u16(width), u16(height),
+    u32(0x00480000), u32(0x00480000),
+    zeros(4),
+    u16(1),
+    zeros(32),
+    u16(0x0018), u16(0xffff),
+    config,
+  );
+}
+
+/**
+ * H.264 sample entry; Matroska stores the avcC record as the track's CodecPrivate
+ */
+export function buildAvcSampleEntry(width: number, height: number, avcConfig: Uint8Array): Uint8Array<ArrayBuffer> {
+  return buildVisualSampleEntry('avc1', width, height, box('avcC', avcConfig));
+}
+
+/**
+ * VP9 sample entry. WebM carries no codec configuration, so the common
+ * MediaRecorder output (profile 0, 8-bit 4:2:0, BT.709) is declared.
+ */
+export function buildVp9SampleEntry(width: number, height: number): Uint8Array<ArrayBuffer> {
+  const level = width * height > 1280 * 720 ? 41 : 31;
+  const vpcC = fullBox('vpcC', 1, 0,
+    u8(0), u8(level),
+    // bit depth 8, chroma 4:2:0 colocated, limited range
+    u8((8 << 4) | (1 << 1)),
+    u8(1), u8(1), u8(1),
+    u16(0),
+  );
+  return buildVisualSampleEntry('vp09', width, height, vpcC);
+}
+
+/**
+ * Opus sample entry, translating the little-endian OpusHead from Matroska
+ * into the big-endian dOps box
+ */
+export function buildOpusSampleEntry(channels: number, opusHead: Uint8Array | null): Uint8Array<ArrayBuffer> {
+  const head = opusHead && opusHead.length >= 19 ? new DataView(opusHead.buffer, opusHead.byteOffset, opusHead.length) : null;
+  const channelCount = head ? head.getUint8(9) : channels;
+  const mappingFamily = head ? head.getUint8(18) : 0;
+
+  const dOps = box('dOps',
+    u8(0),
+    u8(channelCount),
+    u16(head ? head.getUint16(10, true) : 0),
+    u32(head ? head.getUint32(12, true) : 48000),
+    u16(head ? head.getUint16(16, true) : 0),
+    u8(mappingFamily),
+    // Stream count, coupled count and channel mapping follow unchanged
+    mappingFamily !== 0 && opusHead ? opusHead.slice(19) : zeros(0),
+  );
+
+  return box('Opus',
+    zeros(6), u16(1),
+    zeros(8),
+    u16(channelCount), u16(16),
+    zeros(4),
+    // Opus is always decoded at 48 kHz
+    u32(48000 << 16),
+    dOps,
+  );
+}
+
+export class Mp4Muxer {
+  /**
+   * Write tracks into a progressive MP4 with the index at the front, so the
+   * file plays while downloading. Media data stays in the source blob slices.
+   * @param tracks - Tracks with their samples in decode order
+   * @returns Blob - The MP4 file
+   */
+  static mux(tracks: Mp4Track[]): Blob {
+    const chunks = this.buildChunks(tracks);
+
+    const ftyp = box('ftyp', fourCC('isom'), u32(0x200), fourCC('isom'), fourCC('iso2'), fourCC('avc1'), fourCC('mp41'));
+
+    // co64 offsets have a fixed width, so the moov size does not depend on them
+    const moovSize = this.buildMoov(tracks, chunks, new Map()).length;
+    const mdatHeaderSize = 16;
+
+    const chunkOffsets = new Map<Chunk, number>();
+    const mediaParts: BlobPart[] = [];
+    let offset = ftyp.length + moovSize + mdatHeaderSize;
+    chunks.forEach(chunk => {
+      chunkOffsets.set(chunk, offset);
+      for (let i = chunk.first; i < chunk.first + chunk.count; i++) {
+        const sample = chunk.track.samples[i];
+        mediaParts.push(sample.data);
+        offset += sampleSize(sample);
+      }
+    });
+
+    const mdatSize = offset - ftyp.length - moovSize;
+    // 64-bit mdat header: size 1 means the real size follows the type
+    const mdatHeader = concatBytes([u32(1), fourCC('mdat'), u64(mdatSize)]);
+
+    return new Blob([
+      ftyp,
+      this.buildMoov(tracks, chunks, chunkOffsets),
+      mdatHeader,
+      ...mediaParts,
+    ], { type: 'video/mp4' });
+  }
+
+  /**
+   * Split every track into chunks of about a second and interleave them by time
+   */
+  private static buildChunks(tracks: Mp4Track[]): Chunk[] {
+    const chunks: Chunk[] = [];
+
+    tracks.forEach(track => {
+      const maxChunkTicks = CHUNK_DURATION_SECONDS * track.timescale;
+      let time = 0;
+      let chunk: Chunk | null = null;
+      let chunkTicks = 0;
+
+      track.samples.forEach((sample, index) => {
+        if (!chunk || chunkTicks >= maxChunkTicks) {
+          chunk = { track, first: index, count: 0, time: time / track.timescale };
+          chunks.push(chunk);
+          chunkTicks = 0;
+        }
+        chunk.count++;
+        chunkTicks += sample.duration;
+        time += sample.duration;
+      });
+    });
+
+    return chunks.sort((a, b) => a.time - b.time);
+  }
+
+  private static buildMoov(tracks: Mp4Track[], chunks: Chunk[], chunkOffsets: Map<Chunk, number>): Uint8Array<ArrayBuffer> {
+    const trackDurations = tracks.map(track => track.samples.reduce((total, sample) => total + sample.duration, 0));
+    const movieDuration = Math.max(0, ...tracks.map((track, i) => Math.round(trackDurations[i] * MOVIE_TIMESCALE / track.timescale)));
+
+    const mvhd = fullBox('mvhd', 0, 0,
+      u32(0), u32(0),
+      u32(MOVIE_TIMESCALE), u32(movieDuration),
+      u32(0x00010000), u16(0x0100), zeros(10),
+      UNITY_MATRIX,
+      zeros(24),
+      u32(Math.max(0, ...tracks.map(track => track.id)) + 1),
+    );
+
+    return box('moov', mvhd, ...tracks.map((track, i) => this.buildTrak(
+      track,
+      trackDurations[i],
+      chunks.filter(chunk => chunk.track === track),
+      chunkOffsets,
+    )));
+  }
+
+  private static buildTrak(track: Mp4Track, duration: number, chunks: Chunk[], chunkOffsets: Map<Chunk, number>): Uint8Array<ArrayBuffer> {
+    const isVideo = track.kind === 'video';
+
+    const tkhd = fullBox('tkhd', 0, 0x3,
+      u32(0), u32(0),
+      u32(track.id), zeros(4),
+      u32(Math.round(duration * MOVIE_TIMESCALE / track.timescale)),
+      zeros(8),
+      u16(0), u16(0),
+      u16(isVideo ? 0 : 0x0100), zeros(2),
+      UNITY_MATRIX,
+      u32(isVideo ? track.width << 16 : 0), u32(isVideo ? track.height << 16 : 0),
+    );
+
+    const mdhd = fullBox('mdhd', 0, 0,
+      u32(0), u32(0),
+      u32(track.timescale), u32(duration),
+      // Language "und", packed as three 5-bit letters
+      u16(0x55c4), u16(0),
+    );
+
+    const hdlr = fullBox('hdlr', 0, 0,
+      u32(0),
+      fourCC(isVideo ? 'vide' : 'soun'),
+      zeros(12),
+      fourCC(isVideo ? 'VideoHandler' : 'SoundHandler'), u8(0),
+    );
+
+    const mediaHeader = isVideo
+      ? fullBox('vmhd', 0, 1, zeros(8))
+      : fullBox('smhd', 0, 0, zeros(4));
+
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, this.buildStbl(track, chunks, chunkOffsets))));
+  }
+
+  private static buildStbl(track: Mp4Track, chunks: Chunk[], chunkOffsets: Map<Chunk, number>): Uint8Array<ArrayBuffer> {
+    const stsd = fullBox('stsd', 0, 0, u32(1), track.sampleEntry);
+
+    // Sample durations, run-length encoded
+    const timeToSample: [number, number][] = [];
+    track.samples.forEach(sample => {
+      const last = timeToSample[timeToSample.length - 1];
+      if (last && last[1] === sample.duration) {
+        last[0]++;
+      } else {
+        timeToSample.push([1, sample.duration]);
+      }
+    });
+    const stts = fullBox('stts', 0, 0, u32(timeToSample.length), ...timeToSample.flatMap(([count, delta]) => [u32(count), u32(delta)]));
+
+    // Samples per chunk, run-length encoded by first chunk number
+    const sampleToChunk: [number, number][] = [];
+    chunks.forEach((chunk, index) => {
+      const last = sampleToChunk[sampleToChunk.length - 1];
+      if (!last || last[1] !== chunk.count) {
+        sampleToChunk.push([index + 1, chunk.count]);
+      }
+    });
+    const stsc = fullBox('stsc', 0, 0, u32(sampleToChunk.length),
+      ...sampleToChunk.flatMap(([firstChunk, count]) => [u32(firstChunk), u32(count), u32(1)]));
+
+    const stsz = fullBox('stsz', 0, 0, u32(0), u32(track.samples.length), ...track.samples.map(sample => u32(sampleSize(sample))));
+    const co64 = fullBox('co64', 0, 0, u32(chunks.length), ...chunks.map(chunk => u64(chunkOffsets.get(chunk) ?? 0)));
+
+    const boxes = [stsd, stts];
+    if (track.kind === 'video') {
+      // Sync samples, numbered from 1
+      const keyframes = track.samples.flatMap((sample, index) => sample.keyframe ? [index + 1] : []);
+      boxes.push(fullBox('stss', 0, 0, u32(keyframes.length), ...keyframes.map(u32)));
+    }
+    boxes.push(stsc, stsz, co64);
+
+    return box('stbl', ...boxes);
+  }
+}
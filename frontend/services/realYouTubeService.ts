@@ -1,4 +1,4 @@
-import { ErrorHandler } from '../utils/errorHandler';
+import { ErrorHandler, AppError } from '../utils/errorHandler';
 import { CacheService } from '../utils/cacheService';
 import { RetryService } from '../utils/retryService';
 import { 
@@ -10,6 +10,10 @@ import {
   DEV_CONFIG
 } from '../config';
 import backend from '~backend/client';
+import { ChapterMarker } from '../contexts/RecordingContext';
+import { VideoMetadata } from '../contexts/AppContext';
+import { buildVideoResource, buildVideoUpdate, parseVideoDetails } from '../utils/videoMetadata';
+import { ResumableUploadService, UploadControl } from './resumableUploadService';
 
 export interface YouTubeConnection {
   isConnected: boolean;
@@ -27,6 +31,53 @@ export interface UploadProgress {
   percentage: number;
 }
 
+export interface UploadOptions extends UploadControl {
+  /** Markers relative to the uploaded video, written to the description as chapters */
+  chapters?: ChapterMarker[];
+  /** Length of the uploaded video in ms */
+  durationMs?: number;
+  /** Description, tags, category, language, audience and playlist */
+  metadata?: VideoMetadata;
+  /** JPEG or PNG set as the thumbnail once the video is uploaded */
+  thumbnail?: Blob;
+}
+
+export interface YouTubePlaylist {
+  id: string;
+  title: string;
+}
+
+/** The details that can be changed once a video is on YouTube */
+export interface VideoDetails {
+  title: string;
+  description: string;
+  privacy: 'public' | 'private' | 'unlisted';
+}
+
+/** A video in the shape videos.list returns and videos.insert and videos.update take, limited to the fields RecordLane uses */
+export interface YouTubeVideoResource {
+  id?: string;
+  snippet?: {
+    title?: string;
+    description?: string;
+    tags?: string[];
+    categoryId?: string;
+    defaultLanguage?: string;
+    defaultAudioLanguage?: string;
+  };
+  status?: {
+    privacyStatus?: VideoDetails['privacy'];
+    embeddable?: boolean;
+    license?: string;
+    publicStatsViewable?: boolean;
+    selfDeclaredMadeForKids?: boolean;
+    /** Read-only; what YouTube decided, which may differ from the declaration */
+    madeForKids?: boolean;
+    /** ISO 8601 time a private video is scheduled to go public */
+    publishAt?: string;
+  };
+}
+
 export interface TokenData {
   access_token: string;
   refresh_token: string;
@@ -219,7 +270,8 @@ export class RealYouTubeService {
     blob: Blob, 
     title: string, 
     privacyStatus: 'public' | 'private' | 'unlisted',
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    options: UploadOptions = {}
   ): Promise<UploadResult> {
     await this.initialize();
     try {
@@ -238,14 +290,15 @@ export class RealYouTubeService {
       }
 
       // Upload to YouTube
-      const result = await this.performYouTubeUpload(blob, title, privacyStatus, onProgress);
+      const result = await this.performYouTubeUpload(blob, title, privacyStatus, onProgress, options);
       
       return result;
     } catch (error) {
       console.error('Failed to upload video:', error);
       ErrorHandler.logError('youtube-upload', error, { title, privacyStatus, fileSize: blob.size });
       
-      throw ErrorHandler.createError('UPLOAD_FAILED', ERROR_MESSAGES.UPLOAD_FAILED, error);
+      // Keep the code and status so callers can tell auth and quota errors from dropped connections
+      throw error instanceof AppError ? error : ErrorHandler.createError('UPLOAD_FAILED', ERROR_MESSAGES.UPLOAD_FAILED, error);
     }
   }
 
@@ -287,6 +340,169 @@ export class RealYouTubeService {
     }
   }
 
+  /**
+   * Playlists on the connected channel, for choosing where uploads go
+   */
+  static async listPlaylists(): Promise<YouTubePlaylist[]> {
+    await this.initialize();
+    try {
+      const accessToken = await this.getValidAccessToken();
+
+      const response = await fetch('https://www.googleapis.com/youtube/v3/playlists?part=snippet&mine=true&maxResults=50', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to list playlists: ${errorText}`);
+      }
+
+      const data = await response.json();
+      return (data.items ?? []).map((item: any) => ({ id: item.id, title: item.snippet.title }));
+    } catch (error) {
+      console.error('Failed to list YouTube playlists:', error);
+      ErrorHandler.logError('youtube-playlists', error);
+      throw ErrorHandler.createError('PLAYLISTS_FAILED', 'Failed to load your YouTube playlists', error);
+    }
+  }
+
+  static async addToPlaylist(videoId: string, playlistId: string): Promise<void> {
+    await this.initialize();
+    try {
+      const accessToken = await this.getValidAccessToken();
+
+      const response = await fetch('https://www.googleapis.com/youtube/v3/playlistItems?part=snippet', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          snippet: {
+            playlistId,
+            resourceId: { kind: 'youtube#video', videoId },
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to add video to playlist: ${errorText}`);
+      }
+    } catch (error) {
+      console.error('Failed to add video to playlist:', error);
+      ErrorHandler.logError('youtube-playlist-add', error, { videoId, playlistId });
+      throw ErrorHandler.createError('PLAYLIST_ADD_FAILED', 'The video was uploaded but could not be added to the playlist', error);
+    }
+  }
+
+  /**
+   * Replace a video's thumbnail. Only verified channels may set custom thumbnails.
+   * @returns Promise<string> - URL of the new thumbnail as YouTube serves it
+   */
+  static async setThumbnail(videoId: string, image: Blob): Promise<string> {
+    await this.initialize();
+    try {
+      const accessToken = await this.getValidAccessToken();
+
+      const response = await fetch(`https://www.googleapis.com/upload/youtube/v3/thumbnails/set?videoId=${videoId}&uploadType=media`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': image.type || 'image/jpeg',
+        },
+        body: image,
+      });
+
+      if (response.status === 403) {
+        throw ErrorHandler.createError('THUMBNAIL_FAILED', 'YouTube only allows custom thumbnails on verified channels');
+      }
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to set thumbnail: ${errorText}`);
+      }
+
+      const data = await response.json();
+      const sizes = data.items?.[0] ?? {};
+      return (sizes.maxres ?? sizes.high ?? sizes.medium ?? sizes.default)?.url ?? `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`;
+    } catch (error) {
+      console.error('Failed to set video thumbnail:', error);
+      ErrorHandler.logError('youtube-thumbnail', error, { videoId, size: image.size });
+      throw error instanceof AppError
+        ? error
+        : ErrorHandler.createError('THUMBNAIL_FAILED', 'Failed to set the video thumbnail', error);
+    }
+  }
+
+  static async getVideoDetails(videoId: string): Promise<VideoDetails> {
+    await this.initialize();
+    try {
+      const accessToken = await this.getValidAccessToken();
+      return parseVideoDetails(await this.fetchVideo(videoId, accessToken));
+    } catch (error) {
+      console.error('Failed to load video details:', error);
+      ErrorHandler.logError('youtube-video-details', error, { videoId });
+      throw error instanceof AppError
+        ? error
+        : ErrorHandler.createError('VIDEO_DETAILS_FAILED', 'Failed to load the video details from YouTube', error);
+    }
+  }
+
+  /**
+   * Change the title, description and privacy of an uploaded video
+   * @returns Promise<VideoDetails> - The details as YouTube saved them
+   */
+  static async updateVideo(videoId: string, details: VideoDetails): Promise<VideoDetails> {
+    await this.initialize();
+    try {
+      const accessToken = await this.getValidAccessToken();
+      const video = await this.fetchVideo(videoId, accessToken);
+
+      const response = await fetch('https://www.googleapis.com/youtube/v3/videos?part=snippet,status', {
+        method: 'PUT',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildVideoUpdate(video, details)),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Failed to update video: ${errorText}`);
+      }
+
+      return parseVideoDetails(await response.json());
+    } catch (error) {
+      console.error('Failed to update video on YouTube:', error);
+      ErrorHandler.logError('youtube-video-update', error, { videoId });
+      throw error instanceof AppError
+        ? error
+        : ErrorHandler.createError('VIDEO_UPDATE_FAILED', 'Failed to update the video on YouTube', error);
+    }
+  }
+
+  private static async fetchVideo(videoId: string, accessToken: string): Promise<YouTubeVideoResource> {
+    const response = await fetch(`https://www.googleapis.com/youtube/v3/videos?part=snippet,status&id=${videoId}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Failed to load video: ${errorText}`);
+    }
+
+    const data = await response.json();
+    if (!data.items?.length) {
+      throw ErrorHandler.createError('VIDEO_NOT_FOUND', 'This video is no longer on YouTube');
+    }
+    return data.items[0];
+  }
+
   // PKCE Helper Methods
   private static generateCodeVerifier(): string {
     const array = new Uint8Array(32);
@@ -505,67 +721,30 @@ export class RealYouTubeService {
     blob: Blob, 
     title: string, 
     privacyStatus: 'public' | 'private' | 'unlisted',
-    onProgress?: (progress: UploadProgress) => void
+    onProgress?: (progress: UploadProgress) => void,
+    options: UploadOptions = {}
   ): Promise<UploadResult> {
     const tokenData = this.getStoredTokenData();
     if (!tokenData?.accessToken) {
       throw new Error('No access token available');
     }
 
-    // Create video metadata
-    const metadata = {
-      snippet: {
-        title: title,
-        description: `Recorded with RecordLane - ${new Date().toISOString()}`,
-        tags: ['RecordLane', 'Screen Recording'],
-        categoryId: '22', // People & Blogs
+    const metadata = buildVideoResource(title, privacyStatus, options.metadata, options.chapters, options.durationMs);
+
+    return ResumableUploadService.start(
+      {
+        blob,
+        title,
+        privacy: privacyStatus,
+        metadata,
+        playlistId: options.metadata?.playlistId || undefined,
+        thumbnail: options.thumbnail,
+        details: { metadata: options.metadata, chapters: options.chapters, durationMs: options.durationMs },
       },
-      status: {
-        privacyStatus: privacyStatus,
-      },
-    };
-
-    // Step 1: Initialize upload
-    const initResponse = await fetch('https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${tokenData.accessToken}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(metadata),
-    });
-
-    if (!initResponse.ok) {
-      const errorText = await initResponse.text();
-      throw new Error(`Failed to initialize upload: ${errorText}`);
-    }
-
-    const uploadUrl = initResponse.headers.get('Location');
-    if (!uploadUrl) {
-      throw new Error('No upload URL received');
-    }
-
-    // Step 2: Upload video data
-    const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'video/*',
-        'Content-Length': blob.size.toString(),
-      },
-      body: blob,
-    });
-
-    if (!uploadResponse.ok) {
-      const errorText = await uploadResponse.text();
-      throw new Error(`Upload failed: ${errorText}`);
-    }
-
-    const result = await uploadResponse.json();
-    
-    return {
-      videoId: result.id,
-      videoUrl: `https://www.youtube.com/watch?v=${result.id}`,
-    };
+      tokenData.accessToken,
+      onProgress,
+      options
+    );
   }
 
   // Token Management
@@ -590,6 +769,27 @@ export class RealYouTubeService {
     }
   }
 
+  /**
+   * The stored access token, refreshed first if it no longer works
+   */
+  private static async getValidAccessToken(): Promise<string> {
+    const tokenData = this.getStoredTokenData();
+    if (!tokenData?.accessToken) {
+      throw ErrorHandler.createError('AUTH_REQUIRED', 'Authentication required');
+    }
+
+    if (await this.validateToken(tokenData.accessToken)) {
+      return tokenData.accessToken;
+    }
+
+    const refreshed = await this.refreshAccessToken();
+    const refreshedToken = this.getStoredTokenData()?.accessToken;
+    if (!refreshed || !refreshedToken) {
+      throw ErrorHandler.createError('AUTH_REQUIRED', 'Authentication required');
+    }
+    return refreshedToken;
+  }
+
   private static storeTokens(tokenData: TokenData): void {
     try {
       localStorage.setItem('recordlane-access-token', tokenData.access_token);
@@ -1,6 +1,11 @@
-import { RecordingOptions } from '../contexts/RecordingContext';
-import { ErrorHandler } from '../utils/errorHandler';
-import { PERFORMANCE_CONFIG, ERROR_MESSAGES } from '../config';
+import { RecordingOptions, AudioSource, InputDeviceKind, RecordingLimit } from '../contexts/RecordingContext';
+import { ErrorHandler, AppError } from '../utils/errorHandler';
+import { PERFORMANCE_CONFIG, ERROR_MESSAGES, RECORDING_LIMITS_CONFIG, INTERACTION_CONFIG } from '../config';
+import { VideoCompositor } from './videoCompositor';
+import { AudioMixer } from './audioMixer';
+import { AnnotationLayer } from './annotationLayer';
+import { RecordingStorageService } from './recordingStorageService';
+import { CodecService } from './codecService';
 
 export class RecordingService {
   private mediaRecorder: MediaRecorder | null = null;
@@ -9,22 +14,53 @@ export class RecordingService {
   private screenStream: MediaStream | null = null;
   private cameraStream: MediaStream | null = null;
   private microphoneStream: MediaStream | null = null;
+  private compositor: VideoCompositor | null = null;
+  private annotations: AnnotationLayer | null = null;
+  private audioMixer: AudioMixer | null = null;
   private isRecording = false;
   private retryAttempts = 0;
   private maxRetries = 3;
   private startTime = 0;
+  private pausedAt: number | null = null;
+  private pausedDuration = 0;
   private dataAvailableTimeout?: NodeJS.Timeout;
   private recordingStartPromise?: Promise<void>;
+  private sessionId: string | null = null;
+  private persistChunks = false;
+  private chunkIndex = 0;
+  private inputEndedHandler: ((kind: InputDeviceKind) => void) | null = null;
+  private preparedOptions: RecordingOptions | null = null;
+  private mimeType = 'video/webm';
+  private recordedBytes = 0;
+  private limitHandler: ((limit: RecordingLimit, level: 'warning' | 'reached') => void) | null = null;
+  private notifiedLimits = new Set<string>();
 
   async startRecording(options: RecordingOptions): Promise<void> {
+    await this.prepareRecording(options);
+    await this.beginRecording();
+  }
+
+  /**
+   * Acquire all streams and build the MediaRecorder without starting capture,
+   * so a countdown can run once the user has picked what to share
+   * @param options - Recording options
+   */
+  async prepareRecording(options: RecordingOptions): Promise<void> {
     try {
-      console.log('Starting recording with options:', options);
+      console.log('Preparing recording with options:', options);
       
       // Reset state
       this.recordedChunks = [];
+      this.recordedBytes = 0;
+      this.notifiedLimits.clear();
       this.retryAttempts = 0;
       this.isRecording = false;
       this.startTime = Date.now();
+      this.pausedAt = null;
+      this.pausedDuration = 0;
+      this.sessionId = null;
+      this.persistChunks = false;
+      this.chunkIndex = 0;
       
       // Clear any existing timeout
       if (this.dataAvailableTimeout) {
@@ -39,6 +75,26 @@ export class RecordingService {
       await this.checkAndRequestPermissions(options);
       await this.setupStreams(options);
       await this.setupMediaRecorder(options);
+      this.preparedOptions = options;
+      console.log('Recording prepared, capture is ready');
+    } catch (error) {
+      console.error('Failed to prepare recording:', error);
+      ErrorHandler.logError('recording-prepare', error, { options });
+      this.cleanup();
+      throw this.toStartError(error);
+    }
+  }
+
+  /**
+   * Start writing data from a recorder set up by prepareRecording
+   */
+  async beginRecording(): Promise<void> {
+    try {
+      if (!this.preparedOptions) {
+        throw new Error('Recording was not prepared');
+      }
+
+      await this.startPersistence(this.preparedOptions);
       
       if (this.mediaRecorder) {
         // Set up data available handler with better timing
@@ -50,17 +106,7 @@ export class RecordingService {
             totalChunks: this.recordedChunks.length,
           });
           
-          if (event.data && event.data.size > 0) {
-            this.recordedChunks.push(event.data);
-            console.log('Chunk added:', {
-              chunkIndex: this.recordedChunks.length - 1,
-              chunkSize: event.data.size,
-              totalSize: this.getTotalSize(),
-              totalChunks: this.recordedChunks.length,
-            });
-          } else {
-            console.warn('Received empty data chunk');
-          }
+          this.handleDataChunk(event.data);
         };
 
         this.mediaRecorder.onstart = () => {
@@ -104,6 +150,7 @@ export class RecordingService {
 
         // Start recording with smaller timeslice for more frequent data events
         console.log('Starting MediaRecorder with timeslice...');
+        this.startTime = Date.now();
         this.mediaRecorder.start(100); // 100ms timeslice for more frequent data events
         
         // Also request data periodically to ensure we get chunks
@@ -126,7 +173,7 @@ export class RecordingService {
       
     } catch (error) {
       console.error('Failed to start recording:', error);
-      ErrorHandler.logError('recording-start', error, { options });
+      ErrorHandler.logError('recording-start', error, { options: this.preparedOptions });
       this.cleanup();
       
       // Clear timeout on error
@@ -135,26 +182,140 @@ export class RecordingService {
         this.dataAvailableTimeout = undefined;
       }
       
-      if (error.name === 'NotAllowedError') {
-        throw ErrorHandler.createError('PERMISSIONS_DENIED', ERROR_MESSAGES.PERMISSIONS_DENIED);
-      } else if (error.name === 'NotSupportedError') {
-        throw ErrorHandler.createError('BROWSER_NOT_SUPPORTED', ERROR_MESSAGES.BROWSER_NOT_SUPPORTED);
-      } else if (error.name === 'NotFoundError') {
-        throw ErrorHandler.createError('DEVICE_NOT_FOUND', 'Camera or microphone not found. Please check your devices.');
-      } else if (error.name === 'NotReadableError') {
-        throw ErrorHandler.createError('DEVICE_IN_USE', 'Camera or microphone is already in use by another application.');
-      } else if (error.name === 'OverconstrainedError') {
-        throw ErrorHandler.createError('CONSTRAINTS_NOT_SATISFIED', 'Camera or recording constraints could not be satisfied.');
-      } else if (error.name === 'SecurityError') {
-        throw ErrorHandler.createError('SECURITY_ERROR', 'Recording blocked due to security restrictions. Please ensure you are on HTTPS.');
-      }
-      
-      throw ErrorHandler.createError('RECORDING_FAILED', ERROR_MESSAGES.RECORDING_FAILED, error);
+      throw this.toStartError(error);
     }
   }
 
+  private toStartError(error: unknown): Error {
+    if (error instanceof AppError) {
+      // Already mapped by one of the stream helpers
+      return error;
+    }
+
+    // getUserMedia and getDisplayMedia reject with DOMExceptions, which are not
+    // Error instances in every browser
+    const name = error instanceof DOMException || error instanceof Error ? error.name : '';
+
+    if (name === 'NotAllowedError') {
+      return ErrorHandler.createError('PERMISSIONS_DENIED', ERROR_MESSAGES.PERMISSIONS_DENIED);
+    } else if (name === 'NotSupportedError') {
+      return ErrorHandler.createError('BROWSER_NOT_SUPPORTED', ERROR_MESSAGES.BROWSER_NOT_SUPPORTED);
+    } else if (name === 'NotFoundError') {
+      return ErrorHandler.createError('DEVICE_NOT_FOUND', 'Camera or microphone not found. Please check your devices.');
+    } else if (name === 'NotReadableError') {
+      return ErrorHandler.createError('DEVICE_IN_USE', 'Camera or microphone is already in use by another application.');
+    } else if (name === 'OverconstrainedError') {
+      return ErrorHandler.createError('CONSTRAINTS_NOT_SATISFIED', 'Camera or recording constraints could not be satisfied.');
+    } else if (name === 'SecurityError') {
+      return ErrorHandler.createError('SECURITY_ERROR', 'Recording blocked due to security restrictions. Please ensure you are on HTTPS.');
+    }
+    
+    return ErrorHandler.createError('RECORDING_FAILED', ERROR_MESSAGES.RECORDING_FAILED, error);
+  }
+
   private getTotalSize(): number {
-    return this.recordedChunks.reduce((total, chunk) => total + chunk.size, 0);
+    return this.recordedBytes;
+  }
+
+  /**
+   * Bytes captured so far
+   */
+  getRecordedSize(): number {
+    return this.recordedBytes;
+  }
+
+  /**
+   * Register a callback for when the recording nears or hits the duration or size
+   * limit from its options. Each limit and level is reported once per recording.
+   */
+  onLimit(handler: ((limit: RecordingLimit, level: 'warning' | 'reached') => void) | null): void {
+    this.limitHandler = handler;
+  }
+
+  private checkLimits(): void {
+    const options = this.preparedOptions;
+    if (!options) return;
+
+    const usage: Record<RecordingLimit, number> = {
+      duration: options.maxDurationMs ? this.getElapsedTime() / options.maxDurationMs : 0,
+      size: options.maxSizeBytes ? this.recordedBytes / options.maxSizeBytes : 0,
+    };
+
+    (Object.keys(usage) as RecordingLimit[]).forEach(limit => {
+      const level = usage[limit] >= 1 ? 'reached' : usage[limit] >= RECORDING_LIMITS_CONFIG.warningRatio ? 'warning' : null;
+      if (!level || this.notifiedLimits.has(`${limit}:${level}`)) return;
+
+      this.notifiedLimits.add(`${limit}:${level}`);
+      console.log('Recording limit', level, { limit, usage: usage[limit] });
+      this.limitHandler?.(limit, level);
+    });
+  }
+
+  private handleDataChunk(data: Blob): void {
+    if (!data || data.size === 0) {
+      console.warn('Received empty data chunk');
+      return;
+    }
+
+    this.recordedChunks.push(data);
+    this.recordedBytes += data.size;
+    console.log('Chunk added:', {
+      chunkIndex: this.recordedChunks.length - 1,
+      chunkSize: data.size,
+      totalSize: this.getTotalSize(),
+      totalChunks: this.recordedChunks.length,
+    });
+
+    this.persistChunk(data);
+    this.checkLimits();
+  }
+
+  /**
+   * Open a storage session so chunks survive a tab crash or reload.
+   * Recording continues in memory only if IndexedDB is unavailable.
+   */
+  private async startPersistence(options: RecordingOptions): Promise<void> {
+    if (!RecordingStorageService.isSupported()) {
+      console.warn('IndexedDB not available, recording will not be crash-safe');
+      return;
+    }
+
+    const sessionId = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+    try {
+      await RecordingStorageService.createSession({
+        id: sessionId,
+        mode: options.mode,
+        mimeType: this.getRecordedMimeType(),
+        status: 'recording',
+        startedAt: Date.now(),
+      });
+      this.sessionId = sessionId;
+      this.persistChunks = true;
+      console.log('Recording session persisted:', sessionId);
+    } catch (error) {
+      console.warn('Failed to create recording session, continuing in memory only:', error);
+      ErrorHandler.logError('recording-session-create', error);
+    }
+  }
+
+  private persistChunk(data: Blob): void {
+    if (!this.persistChunks || !this.sessionId) return;
+
+    const sessionId = this.sessionId;
+    RecordingStorageService.appendChunk(sessionId, this.chunkIndex++, data, this.getElapsedTime()).catch(error => {
+      // Most likely quota exceeded; keep recording in memory rather than failing
+      console.error('Failed to persist recording chunk, disabling persistence:', error);
+      ErrorHandler.logError('recording-chunk-persist', error, { sessionId });
+      this.persistChunks = false;
+    });
+  }
+
+  /**
+   * Id of the storage session backing the current recording, if persistence is active
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
   }
 
   private async checkAndRequestPermissions(options: RecordingOptions): Promise<void> {
@@ -186,6 +347,7 @@ export class RecordingService {
     try {
       if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
         this.mediaRecorder.pause();
+        this.pausedAt = Date.now();
         console.log('Recording paused');
       }
     } catch (error) {
@@ -198,6 +360,10 @@ export class RecordingService {
     try {
       if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
         this.mediaRecorder.resume();
+        if (this.pausedAt !== null) {
+          this.pausedDuration += Date.now() - this.pausedAt;
+          this.pausedAt = null;
+        }
         console.log('Recording resumed');
       }
     } catch (error) {
@@ -206,6 +372,159 @@ export class RecordingService {
     }
   }
 
+  /**
+   * Time recorded so far in milliseconds, excluding paused stretches.
+   * This is the position in the output video, not wall-clock time.
+   */
+  getElapsedTime(): number {
+    const now = this.pausedAt ?? Date.now();
+    return Math.max(0, now - this.startTime - this.pausedDuration);
+  }
+
+  setMicrophoneMuted(muted: boolean): void {
+    if (this.audioMixer && this.audioMixer.hasSource('microphone')) {
+      this.audioMixer.setMuted('microphone', muted);
+    } else if (this.microphoneStream) {
+      this.microphoneStream.getAudioTracks().forEach(track => {
+        track.enabled = !muted;
+      });
+    }
+    console.log('Microphone', muted ? 'muted' : 'unmuted');
+  }
+
+  setCameraVisible(visible: boolean): void {
+    // In camera-only recordings the compositor has no bubble; the camera is its base layer
+    if (this.compositor && this.screenStream) {
+      this.compositor.setCameraVisible(visible);
+    } else if (this.cameraStream) {
+      // Camera-only recordings show black frames while hidden
+      this.cameraStream.getVideoTracks().forEach(track => {
+        track.enabled = visible;
+      });
+    }
+    console.log('Camera', visible ? 'shown' : 'hidden');
+  }
+
+  /**
+   * Whether the recording shows this tab, so page positions are positions
+   * in the video. Browsers do not say which tab was shared; a shared tab
+   * with this viewport's shape is taken to be this one.
+   */
+  isCapturingCurrentTab(): boolean {
+    const settings = this.screenStream?.getVideoTracks()[0]?.getSettings();
+    if (settings?.displaySurface !== 'browser' || !settings.width || !settings.height || window.innerHeight === 0) {
+      return false;
+    }
+
+    const viewportAspect = window.innerWidth / window.innerHeight;
+    return Math.abs(settings.width / settings.height / viewportAspect - 1) <= INTERACTION_CONFIG.aspectTolerance;
+  }
+
+  /**
+   * Annotations to burn into the recorded video. Takes effect for
+   * recordings started after the call.
+   */
+  setAnnotationLayer(layer: AnnotationLayer | null): void {
+    this.annotations = layer;
+    this.compositor?.setAnnotations(layer);
+  }
+
+  /**
+   * Grab the current frame of the shared screen as a PNG, or of the camera
+   * in camera-only recordings. Reads the source track, so the camera bubble
+   * and other overlays are not included.
+   */
+  async captureScreenshot(): Promise<Blob> {
+    const track = this.screenStream?.getVideoTracks()[0] ?? this.cameraStream?.getVideoTracks()[0];
+    if (!track || track.readyState !== 'live') {
+      throw ErrorHandler.createError('SCREENSHOT_NO_SOURCE', 'There is no screen or camera to take a screenshot of');
+    }
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = new MediaStream([track]);
+
+    try {
+      await video.play();
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) {
+        await new Promise(resolve => video.addEventListener('loadeddata', resolve, { once: true }));
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Could not get canvas context');
+      }
+      ctx.drawImage(video, 0, 0);
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) {
+        throw ErrorHandler.createError('SCREENSHOT_ENCODE_FAILED', 'The screenshot could not be saved as PNG');
+      }
+      return blob;
+    } finally {
+      // The track is shared with the recording, so it is detached rather than stopped
+      video.pause();
+      video.srcObject = null;
+    }
+  }
+
+  /**
+   * Register a callback for when a camera or microphone track ends mid-recording,
+   * typically because the device was unplugged
+   */
+  onInputEnded(handler: ((kind: InputDeviceKind) => void) | null): void {
+    this.inputEndedHandler = handler;
+  }
+
+  private watchInputTrack(kind: InputDeviceKind, stream: MediaStream): void {
+    stream.getTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        if (!this.isRecording) return;
+        console.warn(`${kind} track ended during recording:`, track.label);
+        this.inputEndedHandler?.(kind);
+      });
+    });
+  }
+
+  /**
+   * Request a specific device, falling back to the default one if the
+   * remembered device has been unplugged or renamed since it was chosen
+   */
+  private async getUserMediaForDevice(
+    deviceId: string | null,
+    buildConstraints: (deviceConstraint: MediaTrackConstraints) => MediaStreamConstraints
+  ): Promise<MediaStream> {
+    if (!deviceId) {
+      return navigator.mediaDevices.getUserMedia(buildConstraints({}));
+    }
+
+    try {
+      return await navigator.mediaDevices.getUserMedia(buildConstraints({ deviceId: { exact: deviceId } }));
+    } catch (error) {
+      const name = error instanceof Error ? error.name : '';
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+        throw error;
+      }
+
+      console.warn('Selected device unavailable, falling back to default:', deviceId);
+      return navigator.mediaDevices.getUserMedia(buildConstraints({}));
+    }
+  }
+
+  setAudioGain(source: AudioSource, gain: number): void {
+    if (this.audioMixer) {
+      this.audioMixer.setGain(source, gain);
+    }
+  }
+
+  getAudioLevels(): Partial<Record<AudioSource, number>> {
+    return this.audioMixer ? this.audioMixer.getLevels() : {};
+  }
+
   async stopRecording(): Promise<Blob> {
     return new Promise((resolve, reject) => {
       if (!this.mediaRecorder) {
@@ -245,7 +564,7 @@ export class RecordingService {
             return;
           }
 
-          const mimeType = this.getOptimalMimeType();
+          const mimeType = this.getRecordedMimeType();
           console.log('Creating blob with MIME type:', mimeType);
           
           // Validate chunks before creating blob
@@ -283,6 +602,16 @@ export class RecordingService {
           }
           
           this.isRecording = false;
+
+          if (this.sessionId) {
+            RecordingStorageService.updateSession(this.sessionId, {
+              status: 'stopped',
+              duration: this.getElapsedTime(),
+            }).catch(error => {
+              console.warn('Failed to mark recording session as stopped:', error);
+            });
+          }
+
           resolve(blob);
         } catch (error) {
           console.error('Failed to create recording blob:', error);
@@ -292,7 +621,6 @@ export class RecordingService {
       };
 
       // Enhanced data available handler for final collection
-      const originalDataHandler = this.mediaRecorder.ondataavailable;
       this.mediaRecorder.ondataavailable = (event) => {
         console.log('Final data chunk:', {
           size: event.data.size,
@@ -301,14 +629,10 @@ export class RecordingService {
         });
         
         if (event.data && event.data.size > 0) {
-          this.recordedChunks.push(event.data);
           finalDataReceived = true;
         }
         
-        // Also call original handler if it exists
-        if (originalDataHandler) {
-          originalDataHandler(event);
-        }
+        this.handleDataChunk(event.data);
       };
 
       this.mediaRecorder.onstop = () => {
@@ -352,24 +676,11 @@ export class RecordingService {
     });
   }
 
-  private getOptimalMimeType(): string {
-    const mimeTypes = [
-      'video/webm;codecs=vp9,opus',
-      'video/webm;codecs=vp8,opus',
-      'video/webm;codecs=h264,opus',
-      'video/webm',
-      'video/mp4',
-    ];
-
-    for (const mimeType of mimeTypes) {
-      if (MediaRecorder.isTypeSupported(mimeType)) {
-        console.log('Selected MIME type:', mimeType);
-        return mimeType;
-      }
-    }
-
-    console.log('Using fallback MIME type: video/webm');
-    return 'video/webm';
+  /**
+   * Mime type of the data being written, as reported by the recorder when available
+   */
+  getRecordedMimeType(): string {
+    return this.mediaRecorder?.mimeType || this.mimeType;
   }
 
   cleanup(): void {
@@ -390,6 +701,16 @@ export class RecordingService {
         }
       }
 
+      if (this.compositor) {
+        this.compositor.stop();
+        this.compositor = null;
+      }
+
+      if (this.audioMixer) {
+        this.audioMixer.close();
+        this.audioMixer = null;
+      }
+
       if (this.composedStream) {
         this.composedStream.getTracks().forEach(track => {
           track.stop();
@@ -506,17 +827,16 @@ export class RecordingService {
     try {
       console.log('Requesting camera stream...');
       
-      const constraints: MediaStreamConstraints = {
+      this.cameraStream = await this.getUserMediaForDevice(options.cameraDeviceId, (deviceConstraint) => ({
         video: {
           width: { ideal: 640 },
           height: { ideal: 480 },
           frameRate: { ideal: options.frameRate },
-          facingMode: 'user',
+          ...(deviceConstraint.deviceId ? deviceConstraint : { facingMode: 'user' }),
         },
         audio: false,
-      };
-
-      this.cameraStream = await navigator.mediaDevices.getUserMedia(constraints);
+      }));
+      this.watchInputTrack('camera', this.cameraStream);
       
       console.log('Camera stream obtained:', {
         videoTracks: this.cameraStream.getVideoTracks().length,
@@ -542,7 +862,7 @@ export class RecordingService {
     try {
       console.log('Requesting microphone stream...');
       
-      this.microphoneStream = await navigator.mediaDevices.getUserMedia({
+      this.microphoneStream = await this.getUserMediaForDevice(options.microphoneDeviceId, (deviceConstraint) => ({
         video: false,
         audio: {
           echoCancellation: true,
@@ -550,8 +870,10 @@ export class RecordingService {
           autoGainControl: true,
           sampleRate: 44100,
           sampleSize: 16,
+          ...deviceConstraint,
         },
-      });
+      }));
+      this.watchInputTrack('microphone', this.microphoneStream);
       
       console.log('Microphone stream obtained:', {
         audioTracks: this.microphoneStream.getAudioTracks().length,
@@ -573,7 +895,7 @@ export class RecordingService {
   }
 
   private async setupMediaRecorder(options: RecordingOptions): Promise<void> {
-    this.composedStream = this.createComposedStream(options);
+    this.composedStream = await this.createComposedStream(options);
     
     if (!this.composedStream) {
       throw new Error('Failed to create composed stream');
@@ -584,8 +906,12 @@ export class RecordingService {
       audioTracks: this.composedStream.getAudioTracks().length,
     });
 
-    const mimeType = this.getOptimalMimeType();
-    console.log('Selected MIME type:', mimeType);
+    const { profile, mimeType } = CodecService.resolveProfile(
+      options.encodingProfile,
+      this.composedStream.getAudioTracks().length > 0
+    );
+    this.mimeType = mimeType;
+    console.log('Selected MIME type:', { mimeType, profile, requested: options.encodingProfile });
 
     if (!MediaRecorder.isTypeSupported(mimeType)) {
       throw new Error(`MIME type ${mimeType} is not supported`);
@@ -612,10 +938,29 @@ export class RecordingService {
     }
   }
 
-  private createComposedStream(options: RecordingOptions): MediaStream {
+  private async createComposedStream(options: RecordingOptions): Promise<MediaStream> {
     const tracks: MediaStreamTrack[] = [];
 
-    if (options.mode === 'screen' || options.mode === 'screen-camera') {
+    // Every recording goes through the compositor so live annotations can be
+    // painted into it; the camera is only drawn as a bubble over a screen
+    const baseStream = options.mode === 'camera' ? this.cameraStream : this.screenStream;
+    if (baseStream) {
+      try {
+        this.compositor = new VideoCompositor(options.frameRate, options.cameraBubble);
+        this.compositor.setAnnotations(this.annotations);
+        const bubbleStream = options.mode === 'screen-camera' ? this.cameraStream : null;
+        tracks.push(await this.compositor.start(baseStream, bubbleStream));
+        console.log('Added composited video track', { mode: options.mode, hasBubble: !!bubbleStream });
+      } catch (error) {
+        // Recording the plain source is better than failing the whole session
+        console.error('Failed to start compositor, recording source directly:', error);
+        ErrorHandler.logError('compositor-start', error);
+        this.compositor?.stop();
+        this.compositor = null;
+      }
+    }
+
+    if ((options.mode === 'screen' || options.mode === 'screen-camera') && !this.compositor) {
       if (this.screenStream) {
         const videoTrack = this.screenStream.getVideoTracks()[0];
         if (videoTrack) {
@@ -625,7 +970,7 @@ export class RecordingService {
       }
     }
 
-    if (options.mode === 'camera') {
+    if (options.mode === 'camera' && !this.compositor) {
       if (this.cameraStream) {
         const videoTrack = this.cameraStream.getVideoTracks()[0];
         if (videoTrack) {
@@ -635,20 +980,9 @@ export class RecordingService {
       }
     }
 
-    if (this.screenStream && options.systemAudio) {
-      const audioTracks = this.screenStream.getAudioTracks();
-      audioTracks.forEach(track => {
-        tracks.push(track);
-        console.log('Added system audio track');
-      });
-    }
-
-    if (this.microphoneStream && options.microphone) {
-      const audioTracks = this.microphoneStream.getAudioTracks();
-      audioTracks.forEach(track => {
-        tracks.push(track);
-        console.log('Added microphone audio track');
-      });
+    const audioTrack = await this.createMixedAudioTrack(options);
+    if (audioTrack) {
+      tracks.push(audioTrack);
     }
 
     if (tracks.length === 0) {
@@ -659,6 +993,41 @@ export class RecordingService {
     return new MediaStream(tracks);
   }
 
+  // MediaRecorder typically encodes only the first audio track of a stream,
+  // so system audio and microphone are mixed down to a single track.
+  private async createMixedAudioTrack(options: RecordingOptions): Promise<MediaStreamTrack | null> {
+    const sources: { id: AudioSource; stream: MediaStream }[] = [];
+
+    if (this.screenStream && options.systemAudio && this.screenStream.getAudioTracks().length > 0) {
+      sources.push({ id: 'system', stream: this.screenStream });
+    }
+
+    if (this.microphoneStream && options.microphone && this.microphoneStream.getAudioTracks().length > 0) {
+      sources.push({ id: 'microphone', stream: this.microphoneStream });
+    }
+
+    if (sources.length === 0) {
+      return null;
+    }
+
+    try {
+      this.audioMixer = new AudioMixer();
+      sources.forEach(({ id, stream }) => {
+        this.audioMixer!.addSource(id, stream, options.audioGains[id]);
+      });
+      await this.audioMixer.resume();
+
+      console.log('Added mixed audio track from sources:', sources.map(({ id }) => id));
+      return this.audioMixer.getOutputTrack();
+    } catch (error) {
+      console.error('Failed to create audio mixer, falling back to first audio source:', error);
+      ErrorHandler.logError('audio-mixer-start', error);
+      this.audioMixer?.close();
+      this.audioMixer = null;
+      return sources[0].stream.getAudioTracks()[0];
+    }
+  }
+
   private getVideoBitrate(resolution: string): number {
     switch (resolution) {
       case '480p':
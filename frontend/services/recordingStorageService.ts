@@ -0,0 +1,334 @@
+import { RecordingMode, ChapterMarker, EditRange, RedactionRegion, InteractionEvent, RecordingEvent } from '../contexts/RecordingContext';
+import type { VideoMetadata } from '../contexts/AppContext';
+import { ErrorHandler } from '../utils/errorHandler';
+import { RECORDING_STORAGE_CONFIG } from '../config';
+
+export interface StoredRecordingSession {
+  id: string;
+  mode: RecordingMode;
+  mimeType: string;
+  status: 'recording' | 'stopped';
+  startedAt: number;
+  updatedAt: number;
+  /** Recorded length in milliseconds as of the last persisted chunk */
+  duration: number;
+  chunkCount: number;
+  totalSize: number;
+  markers?: ChapterMarker[];
+  cuts?: EditRange[];
+  redactions?: RedactionRegion[];
+  interactions?: InteractionEvent[];
+  recordingEvents?: RecordingEvent[];
+}
+
+/** What an upload was started with, so it can be started again if its session expires */
+export interface StoredUploadDetails {
+  metadata?: VideoMetadata;
+  /** Markers relative to the uploaded video */
+  chapters?: ChapterMarker[];
+  /** Length of the uploaded video in milliseconds */
+  durationMs?: number;
+}
+
+/** A YouTube upload that can continue where it stopped, even after a reload */
+export interface StoredUpload {
+  id: string;
+  /** Resumable session URI from YouTube; sessions expire after about a week */
+  sessionUri: string;
+  blob: Blob;
+  title: string;
+  privacy: 'public' | 'private' | 'unlisted';
+  /** Bytes YouTube has confirmed receiving */
+  uploadedBytes: number;
+  /** Playlist to add the video to once it is uploaded */
+  playlistId?: string;
+  /** Image set as the video's thumbnail once it is uploaded */
+  thumbnail?: Blob;
+  /** Missing for uploads saved before details were kept */
+  details?: StoredUploadDetails;
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredChunk {
+  sessionId: string;
+  index: number;
+  data: Blob;
+}
+
+const SESSIONS_STORE = 'sessions';
+const CHUNKS_STORE = 'chunks';
+const UPLOADS_STORE = 'uploads';
+const SESSION_LOCK_PREFIX = 'recordlane-session-';
+
+export class RecordingStorageService {
+  private static dbPromise: Promise<IDBDatabase> | null = null;
+  /** Releases the Web Lock held for each session this tab owns */
+  private static sessionLocks = new Map<string, () => void>();
+
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Mark a session as owned by this tab until it is deleted. The browser
+   * drops the lock when the tab closes or crashes, so other tabs can tell a
+   * live session from one left behind.
+   */
+  static claimSession(id: string): void {
+    if (typeof navigator === 'undefined' || !navigator.locks || this.sessionLocks.has(id)) return;
+
+    navigator.locks.request(SESSION_LOCK_PREFIX + id, () => new Promise<void>(resolve => {
+      this.sessionLocks.set(id, resolve);
+    })).catch(error => {
+      ErrorHandler.logError('recording-session-lock', error, { sessionId: id });
+    });
+  }
+
+  /**
+   * Sessions owned by an open tab, this one included
+   * @returns Promise<Set<string> | null> - Session ids, or null if the browser has no Web Locks
+   */
+  static async getClaimedSessionIds(): Promise<Set<string> | null> {
+    if (typeof navigator === 'undefined' || !navigator.locks) return null;
+
+    const { held = [] } = await navigator.locks.query();
+    return new Set(held
+      .map(lock => lock.name ?? '')
+      .filter(name => name.startsWith(SESSION_LOCK_PREFIX))
+      .map(name => name.slice(SESSION_LOCK_PREFIX.length)));
+  }
+
+  static async createSession(session: Omit<StoredRecordingSession, 'updatedAt' | 'duration' | 'chunkCount' | 'totalSize'>): Promise<void> {
+    this.claimSession(session.id);
+    const db = await this.openDatabase();
+    const record: StoredRecordingSession = {
+      ...session,
+      updatedAt: Date.now(),
+      duration: 0,
+      chunkCount: 0,
+      totalSize: 0,
+    };
+
+    await this.runTransaction(db, [SESSIONS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).put(record);
+    });
+  }
+
+  /**
+   * Persist one MediaRecorder chunk and bump the session totals in the same transaction
+   * @param sessionId - Session the chunk belongs to
+   * @param index - Position of the chunk within the recording
+   * @param data - Chunk data from ondataavailable
+   * @param duration - Recorded length in milliseconds after this chunk
+   */
+  static async appendChunk(sessionId: string, index: number, data: Blob, duration: number): Promise<void> {
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [SESSIONS_STORE, CHUNKS_STORE], 'readwrite', (tx) => {
+      const chunk: StoredChunk = { sessionId, index, data };
+      tx.objectStore(CHUNKS_STORE).put(chunk);
+
+      const sessions = tx.objectStore(SESSIONS_STORE);
+      const request = sessions.get(sessionId);
+      request.onsuccess = () => {
+        const session = request.result as StoredRecordingSession | undefined;
+        if (!session) return;
+
+        sessions.put({
+          ...session,
+          updatedAt: Date.now(),
+          duration: Math.max(session.duration, duration),
+          chunkCount: Math.max(session.chunkCount, index + 1),
+          totalSize: session.totalSize + data.size,
+        });
+      };
+    });
+  }
+
+  static async updateSession(id: string, updates: Partial<Omit<StoredRecordingSession, 'id'>>): Promise<void> {
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [SESSIONS_STORE], 'readwrite', (tx) => {
+      const sessions = tx.objectStore(SESSIONS_STORE);
+      const request = sessions.get(id);
+      request.onsuccess = () => {
+        if (request.result) {
+          sessions.put({ ...request.result, ...updates, updatedAt: Date.now() });
+        }
+      };
+    });
+  }
+
+  static async listSessions(): Promise<StoredRecordingSession[]> {
+    const db = await this.openDatabase();
+    let sessions: StoredRecordingSession[] = [];
+
+    await this.runTransaction(db, [SESSIONS_STORE], 'readonly', (tx) => {
+      const request = tx.objectStore(SESSIONS_STORE).getAll();
+      request.onsuccess = () => {
+        sessions = request.result;
+      };
+    });
+
+    return sessions.sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Reassemble a persisted session into a single blob
+   * @param id - Session id
+   * @returns Promise<Blob> - The recording, in chunk order
+   */
+  static async loadRecording(id: string): Promise<Blob> {
+    const db = await this.openDatabase();
+    let session: StoredRecordingSession | undefined;
+    let chunks: StoredChunk[] = [];
+
+    await this.runTransaction(db, [SESSIONS_STORE, CHUNKS_STORE], 'readonly', (tx) => {
+      const sessionRequest = tx.objectStore(SESSIONS_STORE).get(id);
+      sessionRequest.onsuccess = () => {
+        session = sessionRequest.result;
+      };
+
+      const chunkRequest = tx.objectStore(CHUNKS_STORE).getAll(this.getChunkRange(id));
+      chunkRequest.onsuccess = () => {
+        chunks = chunkRequest.result;
+      };
+    });
+
+    if (!session) {
+      throw ErrorHandler.createError('SESSION_NOT_FOUND', 'Recording session not found');
+    }
+
+    if (chunks.length === 0) {
+      throw ErrorHandler.createError('NO_DATA', 'No recording data was saved for this session');
+    }
+
+    return new Blob(chunks.map(chunk => chunk.data), { type: session.mimeType });
+  }
+
+  static async deleteSession(id: string): Promise<void> {
+    this.sessionLocks.get(id)?.();
+    this.sessionLocks.delete(id);
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [SESSIONS_STORE, CHUNKS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(SESSIONS_STORE).delete(id);
+      tx.objectStore(CHUNKS_STORE).delete(this.getChunkRange(id));
+    });
+  }
+
+  static async saveUpload(upload: StoredUpload): Promise<void> {
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [UPLOADS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(UPLOADS_STORE).put(upload);
+    });
+  }
+
+  /**
+   * Record how far an upload has got. The blob is left in place rather than
+   * written again with every chunk.
+   */
+  static async updateUploadProgress(id: string, uploadedBytes: number): Promise<void> {
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [UPLOADS_STORE], 'readwrite', (tx) => {
+      const uploads = tx.objectStore(UPLOADS_STORE);
+      const request = uploads.get(id);
+      request.onsuccess = () => {
+        if (request.result) {
+          uploads.put({ ...request.result, uploadedBytes, updatedAt: Date.now() });
+        }
+      };
+    });
+  }
+
+  static async listUploads(): Promise<StoredUpload[]> {
+    const db = await this.openDatabase();
+    let uploads: StoredUpload[] = [];
+
+    await this.runTransaction(db, [UPLOADS_STORE], 'readonly', (tx) => {
+      const request = tx.objectStore(UPLOADS_STORE).getAll();
+      request.onsuccess = () => {
+        uploads = request.result;
+      };
+    });
+
+    return uploads.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  static async deleteUpload(id: string): Promise<void> {
+    const db = await this.openDatabase();
+
+    await this.runTransaction(db, [UPLOADS_STORE], 'readwrite', (tx) => {
+      tx.objectStore(UPLOADS_STORE).delete(id);
+    });
+  }
+
+  private static getChunkRange(sessionId: string): IDBKeyRange {
+    return IDBKeyRange.bound([sessionId, 0], [sessionId, Number.MAX_SAFE_INTEGER]);
+  }
+
+  private static openDatabase(): Promise<IDBDatabase> {
+    if (this.dbPromise) {
+      return this.dbPromise;
+    }
+
+    this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (!this.isSupported()) {
+        reject(ErrorHandler.createError('BROWSER_NOT_SUPPORTED', 'IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(RECORDING_STORAGE_CONFIG.databaseName, RECORDING_STORAGE_CONFIG.databaseVersion);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+          db.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'index'] });
+        }
+        if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+          db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version in another tab upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          this.dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(ErrorHandler.createError('STORAGE_BLOCKED', 'Recording storage is blocked by another tab'));
+    });
+
+    this.dbPromise.catch(error => {
+      ErrorHandler.logError('recording-storage-open', error);
+      this.dbPromise = null;
+    });
+
+    return this.dbPromise;
+  }
+
+  private static runTransaction(
+    db: IDBDatabase,
+    stores: string[],
+    mode: IDBTransactionMode,
+    work: (tx: IDBTransaction) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(stores, mode);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || ErrorHandler.createError('STORAGE_ABORTED', 'Recording storage transaction aborted'));
+      work(tx);
+    });
+  }
+}
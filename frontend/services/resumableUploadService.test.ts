@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ResumableUploadService } from './resumableUploadService';
+import { RecordingStorageService, StoredUpload } from './recordingStorageService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { UPLOAD_CONFIG } from '../config';
+
+vi.mock('../config', async (importOriginal) => {
+  const config = await importOriginal<typeof import('../config')>();
+  return { ...config, UPLOAD_CONFIG: { ...config.UPLOAD_CONFIG, chunkSize: 40, retryDelayMs: 0 } };
+});
+
+function storedUpload(): StoredUpload {
+  return {
+    id: 'upload-1',
+    sessionUri: 'https://upload.example/session',
+    blob: new Blob([new Uint8Array(100)], { type: 'video/webm' }),
+    title: 'Demo',
+    privacy: 'private',
+    uploadedBytes: 40,
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+function incomplete(committedBytes: number): Response {
+  return new Response(null, { status: 308, headers: { Range: `bytes=0-${committedBytes - 1}` } });
+}
+
+function isChunk(init?: RequestInit): boolean {
+  return !new Headers(init?.headers).get('Content-Range')?.startsWith('bytes */');
+}
+
+describe('ResumableUploadService.resume', () => {
+  beforeEach(() => {
+    vi.spyOn(RecordingStorageService, 'isSupported').mockReturnValue(false);
+    vi.spyOn(ErrorHandler, 'logError').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends the remaining chunks from the offset YouTube reports', async () => {
+    const committed = [80];
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (!isChunk(init)) return incomplete(40);
+      const next = committed.shift();
+      return next ? incomplete(next) : new Response(JSON.stringify({ id: 'video-1' }), { status: 200 });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await ResumableUploadService.resume(storedUpload());
+
+    expect(result.videoId).toBe('video-1');
+    expect(fetchMock.mock.calls.filter(([, init]) => isChunk(init))
+      .map(([, init]) => new Headers(init?.headers).get('Content-Range')))
+      .toEqual(['bytes 40-79/100', 'bytes 80-99/100']);
+  });
+
+  it('gives up when YouTube keeps reporting the same offset', async () => {
+    let chunks = 0;
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      // Drop the connection eventually so an endless loop fails instead of hanging
+      if (isChunk(init) && ++chunks > 10) throw new TypeError('Failed to fetch');
+      return incomplete(40);
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(ResumableUploadService.resume(storedUpload())).rejects.toMatchObject({ code: 'UPLOAD_CHUNK_FAILED' });
+    expect(fetchMock.mock.calls.filter(([, init]) => isChunk(init))).toHaveLength(UPLOAD_CONFIG.maxRetries + 1);
+  });
+});
@@ -0,0 +1,330 @@
+import { ErrorHandler, AppError } from '../utils/errorHandler';
+import { RetryService } from '../utils/retryService';
+import { RecordingStorageService, StoredUpload, StoredUploadDetails } from './recordingStorageService';
+import { UPLOAD_CONFIG } from '../config';
+import type { UploadProgress, UploadResult } from './realYouTubeService';
+
+const UPLOAD_ENDPOINT = 'https://www.googleapis.com/upload/youtube/v3/videos?uploadType=resumable&part=snippet,status';
+
+// YouTube reports an incomplete upload with 308 Resume Incomplete
+const STATUS_INCOMPLETE = 308;
+
+export interface ResumableUploadRequest {
+  blob: Blob;
+  title: string;
+  privacy: 'public' | 'private' | 'unlisted';
+  /** Video resource sent when the session is opened */
+  metadata: object;
+  /** Kept with the session so the video still reaches its playlist after a reload */
+  playlistId?: string;
+  /** Kept with the session like the playlist, and set once the video exists */
+  thumbnail?: Blob;
+  /** Kept with the session so an expired one can be opened again with the same details */
+  details?: StoredUploadDetails;
+}
+
+/** Lets a caller stop an upload and keep hold of its session */
+export interface UploadControl {
+  /** Id for the saved session; one is generated if missing */
+  uploadId?: string;
+  /** Stops the upload without discarding the session, so it can resume later */
+  signal?: AbortSignal;
+  /** Called once the session is open and saved */
+  onSession?: (upload: StoredUpload) => void;
+}
+
+/**
+ * Whether another try could succeed: the connection dropped, YouTube had a
+ * server error or it asked us to slow down. Auth, quota and validation
+ * errors fail the same way every time.
+ */
+export function isRetryableUploadError(error: any): boolean {
+  if (error instanceof TypeError) return true;
+
+  const status = error instanceof AppError ? error.context?.status : undefined;
+  return typeof status === 'number' && (status >= 500 || status === 429);
+}
+
+/**
+ * Uploads to YouTube in UPLOAD_CONFIG.chunkSize pieces over a resumable
+ * session. After a failed chunk the session is asked how much it holds and
+ * the upload carries on from there. The session and blob are kept in
+ * IndexedDB until the upload finishes, so it can resume after a reload.
+ * Only opening the session needs the access token; the session URI itself
+ * authorizes the chunks, so an upload outlasting its token still finishes.
+ * This is the only place uploads are retried: network errors, server
+ * errors and rate limiting get UPLOAD_CONFIG.maxRetries more tries with
+ * backoff, and every other error is thrown straight away with its status.
+ */
+export class ResumableUploadService {
+  private static retryService = new RetryService();
+
+  /**
+   * Open a session and upload the whole blob
+   * @param request - The video and its metadata
+   * @param accessToken - OAuth token for the signed-in channel
+   * @param onProgress - Called after every chunk YouTube confirms
+   * @param control - Abort signal and session callback
+   * @returns Promise<UploadResult> - The new video
+   */
+  static async start(
+    request: ResumableUploadRequest,
+    accessToken: string,
+    onProgress?: (progress: UploadProgress) => void,
+    control: UploadControl = {}
+  ): Promise<UploadResult> {
+    const sessionUri = await this.withRetries(() => this.openSession(request, accessToken, control.signal), control.signal);
+
+    const now = Date.now();
+    const upload: StoredUpload = {
+      id: control.uploadId ?? `upload-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      sessionUri,
+      blob: request.blob,
+      title: request.title,
+      privacy: request.privacy,
+      uploadedBytes: 0,
+      playlistId: request.playlistId,
+      thumbnail: request.thumbnail,
+      details: request.details,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    // An upload that cannot be kept still goes ahead; it just cannot survive a reload
+    if (RecordingStorageService.isSupported()) {
+      await RecordingStorageService.saveUpload(upload).catch(error => {
+        ErrorHandler.logError('upload-persist', error, { size: request.blob.size });
+      });
+    }
+    control.onSession?.(upload);
+
+    return this.sendChunks(upload, 0, onProgress, control.signal);
+  }
+
+  /**
+   * Carry on with an interrupted upload from what YouTube has already received
+   * @param upload - An upload from listPending
+   * @param onProgress - Called after every chunk YouTube confirms
+   * @param signal - Stops the upload again, keeping the session
+   * @returns Promise<UploadResult> - The new video
+   */
+  static async resume(
+    upload: StoredUpload,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<UploadResult> {
+    const status = await this.withRetries(() => this.queryStatus(upload, signal), signal);
+    if (typeof status !== 'number') {
+      await this.forget(upload.id);
+      return status;
+    }
+    return this.sendChunks(upload, status, onProgress, signal);
+  }
+
+  /**
+   * Uploads interrupted by a failure or a closed tab, oldest first
+   */
+  static async listPending(): Promise<StoredUpload[]> {
+    if (!RecordingStorageService.isSupported()) {
+      return [];
+    }
+    return RecordingStorageService.listUploads();
+  }
+
+  /**
+   * Drop an interrupted upload. YouTube discards the session on its own.
+   */
+  static async discard(id: string): Promise<void> {
+    await this.forget(id);
+  }
+
+  private static async sendChunks(
+    upload: StoredUpload,
+    startOffset: number,
+    onProgress?: (progress: UploadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<UploadResult> {
+    const total = upload.blob.size;
+    let offset = startOffset;
+    let failures = 0;
+
+    const reportProgress = () => onProgress?.({
+      loaded: offset,
+      total,
+      percentage: total > 0 ? Math.round((offset / total) * 100) : 0,
+    });
+    reportProgress();
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const end = Math.min(offset + UPLOAD_CONFIG.chunkSize, total);
+      let response: Response | null = null;
+
+      try {
+        response = await fetch(upload.sessionUri, {
+          method: 'PUT',
+          signal,
+          headers: {
+            'Content-Range': `bytes ${offset}-${end - 1}/${total}`,
+          },
+          body: upload.blob.slice(offset, end),
+        });
+      } catch (error) {
+        // A paused or cancelled upload stops here; its session is kept
+        if (signal?.aborted) throw error;
+        // The connection dropped; the status query below finds out what arrived
+        console.warn('Upload chunk failed:', error);
+      }
+
+      if (response?.ok) {
+        await this.forget(upload.id);
+        return this.toResult(await response.json());
+      }
+
+      if (response && response.status === STATUS_INCOMPLETE) {
+        const committed = this.getCommittedBytes(response);
+        const advanced = committed > offset;
+        offset = committed;
+        reportProgress();
+        this.saveProgress(upload.id, offset);
+        if (advanced) {
+          failures = 0;
+          continue;
+        }
+        // YouTube kept none of the chunk; sending it again counts towards the limit
+        console.warn('Upload chunk was not accepted at offset', offset);
+      } else if (response && response.status === 404) {
+        await this.forget(upload.id);
+        throw ErrorHandler.createError('UPLOAD_SESSION_EXPIRED', 'The upload session expired. Please sync the recording again.');
+      } else if (response && response.status < 500 && response.status !== 429) {
+        const errorText = await response.text();
+        throw ErrorHandler.createError('UPLOAD_CHUNK_FAILED', `Upload failed: ${errorText}`, undefined, { status: response.status });
+      }
+
+      failures++;
+      if (failures > UPLOAD_CONFIG.maxRetries) {
+        throw ErrorHandler.createError(
+          'UPLOAD_CHUNK_FAILED',
+          'Upload stopped after repeated failures. It can be resumed later.',
+          undefined,
+          { status: response?.status }
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, UPLOAD_CONFIG.retryDelayMs * 2 ** (failures - 1)));
+      signal?.throwIfAborted();
+
+      try {
+        const status = await this.queryStatus(upload, signal);
+        if (typeof status !== 'number') {
+          await this.forget(upload.id);
+          return status;
+        }
+        offset = status;
+        reportProgress();
+      } catch (error) {
+        if (signal?.aborted || (error instanceof AppError && error.code === 'UPLOAD_SESSION_EXPIRED')) {
+          throw error;
+        }
+        // Retry from the same offset; the next failure counts towards the limit
+        ErrorHandler.logError('upload-status', error, { uploadId: upload.id });
+      }
+    }
+  }
+
+  /**
+   * Open a resumable session for the video
+   * @returns The session URI the chunks are sent to
+   */
+  private static async openSession(request: ResumableUploadRequest, accessToken: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(UPLOAD_ENDPOINT, {
+      signal,
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'X-Upload-Content-Length': request.blob.size.toString(),
+        'X-Upload-Content-Type': request.blob.type || 'video/*',
+      },
+      body: JSON.stringify(request.metadata),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw ErrorHandler.createError('UPLOAD_INIT_FAILED', `Failed to initialize upload: ${errorText}`, undefined, { status: response.status });
+    }
+
+    const sessionUri = response.headers.get('Location');
+    if (!sessionUri) {
+      throw ErrorHandler.createError('UPLOAD_INIT_FAILED', 'No upload URL received');
+    }
+    return sessionUri;
+  }
+
+  /**
+   * Run a single request again after errors that another try could fix
+   */
+  private static withRetries<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.retryService.execute(operation, {
+      maxRetries: UPLOAD_CONFIG.maxRetries,
+      retryDelay: UPLOAD_CONFIG.retryDelayMs,
+      shouldRetry: (error) => !signal?.aborted && isRetryableUploadError(error),
+    });
+  }
+
+  /**
+   * Ask the session how many bytes it holds
+   * @returns The committed byte count, or the video if the upload already finished
+   */
+  private static async queryStatus(upload: StoredUpload, signal?: AbortSignal): Promise<number | UploadResult> {
+    const response = await fetch(upload.sessionUri, {
+      method: 'PUT',
+      signal,
+      headers: {
+        'Content-Range': `bytes */${upload.blob.size}`,
+      },
+    });
+
+    if (response.ok) {
+      return this.toResult(await response.json());
+    }
+    if (response.status === STATUS_INCOMPLETE) {
+      return this.getCommittedBytes(response);
+    }
+    if (response.status === 404) {
+      await this.forget(upload.id);
+      throw ErrorHandler.createError('UPLOAD_SESSION_EXPIRED', 'The upload session expired. Please sync the recording again.');
+    }
+    throw ErrorHandler.createError('UPLOAD_STATUS_FAILED', `Could not check upload progress (${response.status})`, undefined, { status: response.status });
+  }
+
+  /**
+   * Bytes received, from a "bytes=0-N" Range header; none if it is missing
+   */
+  private static getCommittedBytes(response: Response): number {
+    const match = response.headers.get('Range')?.match(/bytes=\d+-(\d+)/);
+    return match ? parseInt(match[1], 10) + 1 : 0;
+  }
+
+  private static toResult(video: { id: string }): UploadResult {
+    return {
+      videoId: video.id,
+      videoUrl: `https://www.youtube.com/watch?v=${video.id}`,
+    };
+  }
+
+  private static saveProgress(id: string, uploadedBytes: number): void {
+    if (!RecordingStorageService.isSupported()) return;
+
+    RecordingStorageService.updateUploadProgress(id, uploadedBytes).catch(error => {
+      ErrorHandler.logError('upload-progress-persist', error, { uploadId: id });
+    });
+  }
+
+  private static async forget(id: string): Promise<void> {
+    if (!RecordingStorageService.isSupported()) return;
+
+    await RecordingStorageService.deleteUpload(id).catch(error => {
+      ErrorHandler.logError('upload-forget', error, { uploadId: id });
+    });
+  }
+}
@@ -139,6 +139,32 @@ export async function updateRecording(data: UpdateRecordingRequest): Promise<Rec
   return recording
 }
 
+// Update the recording indexed for a YouTube video, if there is one
+export async function updateRecordingByVideoId(
+  youtubeVideoId: string,
+  data: Omit<UpdateRecordingRequest, 'id'>
+): Promise<Recording | null> {
+  const updateData: any = {
+    updated_at: new Date().toISOString()
+  }
+
+  if (data.title !== undefined) updateData.title = data.title
+  if (data.privacy !== undefined) updateData.privacy = data.privacy
+  if (data.thumbnailUrl !== undefined) updateData.thumbnail_url = data.thumbnailUrl
+
+  const { data: recordings, error } = await supabase
+    .from('recordings')
+    .update(updateData)
+    .eq('youtube_video_id', youtubeVideoId)
+    .select()
+
+  if (error) {
+    throw new Error(`Failed to update recording: ${error.message}`)
+  }
+
+  return recordings?.[0] ?? null
+}
+
 // Delete a recording
 export async function deleteRecording(id: string): Promise<void> {
   const { error } = await supabase
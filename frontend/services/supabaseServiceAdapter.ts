@@ -6,6 +6,7 @@ import {
   getRecording, 
   listRecordings, 
   updateRecording, 
+  updateRecordingByVideoId,
   deleteRecording,
   type CreateRecordingRequest,
   type ListRecordingsRequest,
@@ -46,6 +47,7 @@ export {
   getRecording,
   listRecordings,
   updateRecording,
+  updateRecordingByVideoId,
   deleteRecording,
   type CreateRecordingRequest,
   type ListRecordingsRequest,
@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { UploadQueueService, UploadQueueItem, UploadStarter } from './uploadQueueService';
+import { ResumableUploadService } from './resumableUploadService';
+import { StoredUpload } from './recordingStorageService';
+import { ErrorHandler } from '../utils/errorHandler';
+import { VideoMetadata } from '../contexts/AppContext';
+
+const metadata: VideoMetadata = {
+  description: 'Walkthrough',
+  tags: ['demo'],
+  categoryId: '27',
+  defaultLanguage: 'en',
+  madeForKids: false,
+  playlistId: 'playlist-1',
+};
+
+function storedUpload(): StoredUpload {
+  return {
+    id: 'upload-1',
+    sessionUri: 'https://upload.example/session',
+    blob: new Blob([new Uint8Array(100)], { type: 'video/webm' }),
+    title: 'Demo',
+    privacy: 'unlisted',
+    uploadedBytes: 40,
+    playlistId: 'playlist-1',
+    thumbnail: new Blob([new Uint8Array(4)], { type: 'image/png' }),
+    details: {
+      metadata,
+      chapters: [{ id: 'marker-1', label: 'Intro', timestamp: 0 }],
+      durationMs: 61000,
+    },
+    createdAt: 1,
+    updatedAt: 1,
+  };
+}
+
+function waitForStatus(queue: UploadQueueService, status: UploadQueueItem['status']): Promise<UploadQueueItem> {
+  return new Promise(resolve => {
+    const unsubscribe = queue.subscribe(items => {
+      const item = items.find(candidate => candidate.status === status);
+      if (item) {
+        unsubscribe();
+        resolve(item);
+      }
+    });
+  });
+}
+
+describe('UploadQueueService', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts a restored upload over with its saved details when the session has expired', async () => {
+    vi.spyOn(ResumableUploadService, 'resume').mockRejectedValue(
+      ErrorHandler.createError('UPLOAD_SESSION_EXPIRED', 'Upload session expired')
+    );
+    const startUpload = vi.fn<UploadStarter>().mockResolvedValue({ videoId: 'video-1', videoUrl: 'https://youtu.be/video-1' });
+    const queue = new UploadQueueService(startUpload);
+    const upload = storedUpload();
+
+    queue.restore(upload);
+    const completed = waitForStatus(queue, 'completed');
+    queue.resume(upload.id);
+    await completed;
+
+    expect(startUpload).toHaveBeenCalledTimes(1);
+    const [blob, title, privacy, , options] = startUpload.mock.calls[0];
+    expect(blob).toBe(upload.blob);
+    expect(title).toBe('Demo');
+    expect(privacy).toBe('unlisted');
+    expect(options).toEqual(expect.objectContaining({
+      metadata,
+      chapters: upload.details!.chapters,
+      durationMs: 61000,
+      thumbnail: upload.thumbnail,
+    }));
+  });
+
+  it('fails without retrying when YouTube rejects the upload', async () => {
+    vi.spyOn(ErrorHandler, 'logError').mockImplementation(() => {});
+    const startUpload = vi.fn<UploadStarter>().mockRejectedValue(
+      ErrorHandler.createError('UPLOAD_INIT_FAILED', 'Failed to initialize upload: quotaExceeded', undefined, { status: 403 })
+    );
+    const queue = new UploadQueueService(startUpload);
+
+    const failed = waitForStatus(queue, 'failed');
+    queue.enqueue('upload-2', new Blob([new Uint8Array(10)]), 'Demo', 'private');
+    await failed;
+
+    expect(startUpload).toHaveBeenCalledTimes(1);
+  });
+});
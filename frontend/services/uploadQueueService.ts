@@ -0,0 +1,269 @@
+import { ErrorHandler, AppError } from '../utils/errorHandler';
+import { UPLOAD_CONFIG } from '../config';
+import { ResumableUploadService } from './resumableUploadService';
+import { StoredUpload } from './recordingStorageService';
+import type { UploadOptions, UploadProgress, UploadResult } from './realYouTubeService';
+
+export type UploadQueueStatus = 'queued' | 'uploading' | 'paused' | 'failed' | 'completed' | 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  title: string;
+  privacy: 'public' | 'private' | 'unlisted';
+  size: number;
+  status: UploadQueueStatus;
+  /** Percentage YouTube has confirmed */
+  progress: number;
+  error: string | null;
+  result: UploadResult | null;
+  /** Playlist the video joins once it is uploaded */
+  playlistId: string | null;
+  /** Set as the video's thumbnail once it is uploaded */
+  thumbnail: Blob | null;
+}
+
+/** Opens a new upload with whichever YouTube service is configured */
+export type UploadStarter = (
+  blob: Blob,
+  title: string,
+  privacy: 'public' | 'private' | 'unlisted',
+  onProgress: (progress: UploadProgress) => void,
+  options: UploadOptions
+) => Promise<UploadResult>;
+
+interface QueueEntry {
+  item: UploadQueueItem;
+  blob: Blob;
+  options: UploadOptions;
+  /** Set once YouTube opens a session; later runs resume it instead of starting over */
+  session: StoredUpload | null;
+  controller: AbortController | null;
+}
+
+/**
+ * Uploads recordings to YouTube in the background, a few at a time. Each
+ * upload can be paused, resumed, cancelled or retried on its own. Pausing
+ * keeps the resumable session, so the upload carries on from what YouTube
+ * already holds. Network errors are retried inside ResumableUploadService;
+ * any other failure stops the upload until it is retried by hand.
+ */
+export class UploadQueueService {
+  private entries: QueueEntry[] = [];
+  private listeners = new Set<(items: UploadQueueItem[]) => void>();
+
+  constructor(private startUpload: UploadStarter, private concurrency = UPLOAD_CONFIG.concurrency) {}
+
+  /**
+   * Listen for changes to any upload
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (items: UploadQueueItem[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getItems(): UploadQueueItem[] {
+    return this.entries.map(entry => entry.item);
+  }
+
+  /**
+   * Add an upload behind the ones already waiting
+   * @param id - Shared with the recording the upload belongs to
+   */
+  enqueue(
+    id: string,
+    blob: Blob,
+    title: string,
+    privacy: 'public' | 'private' | 'unlisted',
+    options: UploadOptions = {}
+  ): void {
+    this.entries.push({
+      item: {
+        id,
+        title,
+        privacy,
+        size: blob.size,
+        status: 'queued',
+        progress: 0,
+        error: null,
+        result: null,
+        playlistId: options.metadata?.playlistId || null,
+        thumbnail: options.thumbnail ?? null,
+      },
+      blob,
+      options,
+      session: null,
+      controller: null,
+    });
+    this.emit();
+    this.pump();
+  }
+
+  /**
+   * Add an upload interrupted by a reload, paused until the user resumes it
+   */
+  restore(upload: StoredUpload): void {
+    this.entries.push({
+      item: {
+        id: upload.id,
+        title: upload.title,
+        privacy: upload.privacy,
+        size: upload.blob.size,
+        status: 'paused',
+        progress: upload.blob.size > 0 ? Math.round((upload.uploadedBytes / upload.blob.size) * 100) : 0,
+        error: null,
+        result: null,
+        playlistId: upload.playlistId ?? null,
+        thumbnail: upload.thumbnail ?? null,
+      },
+      blob: upload.blob,
+      // Used if the session has expired and the upload has to start over
+      options: { ...upload.details, thumbnail: upload.thumbnail },
+      session: upload,
+      controller: null,
+    });
+    this.emit();
+  }
+
+  pause(id: string): void {
+    const entry = this.find(id);
+    if (!entry || (entry.item.status !== 'queued' && entry.item.status !== 'uploading')) return;
+
+    entry.controller?.abort();
+    entry.controller = null;
+    this.update(entry, { status: 'paused' });
+    this.pump();
+  }
+
+  /**
+   * Put a paused or failed upload back in line
+   */
+  resume(id: string): void {
+    const entry = this.find(id);
+    if (!entry || (entry.item.status !== 'paused' && entry.item.status !== 'failed')) return;
+
+    this.update(entry, { status: 'queued', error: null });
+    this.pump();
+  }
+
+  async cancel(id: string): Promise<void> {
+    const entry = this.find(id);
+    if (!entry || entry.item.status === 'completed' || entry.item.status === 'cancelled') return;
+
+    entry.controller?.abort();
+    entry.controller = null;
+    this.update(entry, { status: 'cancelled' });
+    this.pump();
+    await this.discardSession(entry);
+  }
+
+  /**
+   * Drop finished and cancelled uploads from the list
+   */
+  clearFinished(): void {
+    this.entries = this.entries.filter(entry =>
+      entry.item.status !== 'completed' && entry.item.status !== 'cancelled'
+    );
+    this.emit();
+  }
+
+  private find(id: string): QueueEntry | undefined {
+    return this.entries.find(entry => entry.item.id === id);
+  }
+
+  private pump(): void {
+    let running = this.entries.filter(entry => entry.item.status === 'uploading').length;
+
+    for (const entry of this.entries) {
+      if (running >= this.concurrency) break;
+      if (entry.item.status === 'queued') {
+        running++;
+        this.run(entry);
+      }
+    }
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update(entry, { status: 'uploading', error: null });
+
+    const onProgress = (progress: UploadProgress) => {
+      if (!controller.signal.aborted) {
+        this.update(entry, { progress: progress.percentage });
+      }
+    };
+
+    try {
+      const result = await this.attempt(entry, controller.signal, onProgress);
+
+      if (!controller.signal.aborted) {
+        this.update(entry, { status: 'completed', progress: 100, result });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        ErrorHandler.logError('upload-queue', error, { uploadId: entry.item.id });
+        this.update(entry, { status: 'failed', error: ErrorHandler.formatErrorForUser(error) });
+      }
+    } finally {
+      if (entry.controller === controller) {
+        entry.controller = null;
+      }
+      // A session opened just as the upload was cancelled is dropped here
+      if (entry.item.status === 'cancelled') {
+        this.discardSession(entry).catch(error => {
+          ErrorHandler.logError('upload-queue-discard', error, { uploadId: entry.item.id });
+        });
+      }
+      this.pump();
+    }
+  }
+
+  private async attempt(
+    entry: QueueEntry,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void
+  ): Promise<UploadResult> {
+    if (entry.session) {
+      try {
+        return await ResumableUploadService.resume(entry.session, onProgress, signal);
+      } catch (error) {
+        if (!(error instanceof AppError && error.code === 'UPLOAD_SESSION_EXPIRED')) {
+          throw error;
+        }
+        // YouTube dropped the session, so start again with a new one
+        entry.session = null;
+      }
+    }
+
+    const { item } = entry;
+    return this.startUpload(entry.blob, item.title, item.privacy, onProgress, {
+      ...entry.options,
+      uploadId: item.id,
+      signal,
+      onSession: (session) => {
+        entry.session = session;
+      },
+    });
+  }
+
+  private async discardSession(entry: QueueEntry): Promise<void> {
+    if (!entry.session) return;
+
+    const { id } = entry.session;
+    entry.session = null;
+    await ResumableUploadService.discard(id);
+  }
+
+  private update(entry: QueueEntry, changes: Partial<UploadQueueItem>): void {
+    entry.item = { ...entry.item, ...changes };
+    this.emit();
+  }
+
+  private emit(): void {
+    const items = this.getItems();
+    this.listeners.forEach(listener => listener(items));
+  }
+}
@@ -0,0 +1,283 @@
+import { CameraBubbleOptions } from '../contexts/RecordingContext';
+import { ErrorHandler } from '../utils/errorHandler';
+import { AnnotationLayer } from './annotationLayer';
+import { COMPOSITOR_CONFIG } from '../config';
+
+// Timers in a worker keep firing while the RecordLane tab is in the background,
+// unlike requestAnimationFrame or main-thread intervals which get throttled.
+const FRAME_TICKER_SOURCE = `
+  let timer = null;
+  self.onmessage = (event) => {
+    clearInterval(timer);
+    if (event.data && event.data.interval) {
+      timer = setInterval(() => self.postMessage('tick'), event.data.interval);
+    }
+  };
+`;
+
+export class VideoCompositor {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private screenVideo: HTMLVideoElement | null = null;
+  private cameraVideo: HTMLVideoElement | null = null;
+  private outputStream: MediaStream | null = null;
+  private ticker: Worker | null = null;
+  private fallbackTimer?: ReturnType<typeof setInterval>;
+  private bubble: CameraBubbleOptions;
+  private frameRate: number;
+  private cameraVisible = true;
+  private annotations: AnnotationLayer | null = null;
+  private displaySurface: string | undefined;
+
+  constructor(frameRate: number, bubble: CameraBubbleOptions) {
+    this.frameRate = frameRate;
+    this.bubble = { ...bubble };
+    this.canvas = document.createElement('canvas');
+
+    const ctx = this.canvas.getContext('2d', { alpha: false });
+    if (!ctx) {
+      throw ErrorHandler.createError('COMPOSITOR_FAILED', 'Could not create compositor canvas context');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * Start drawing the screen and camera streams onto a single canvas
+   * @param screenStream - The captured display stream, or the camera in camera-only recordings
+   * @param cameraStream - The webcam stream drawn as a bubble; null for no bubble
+   * @returns Promise<MediaStreamTrack> - The composited video track
+   */
+  async start(screenStream: MediaStream, cameraStream: MediaStream | null): Promise<MediaStreamTrack> {
+    this.screenVideo = await this.createSourceVideo(screenStream);
+    if (cameraStream) {
+      this.cameraVideo = await this.createSourceVideo(cameraStream);
+    }
+
+    const settings = screenStream.getVideoTracks()[0]?.getSettings();
+    this.displaySurface = settings?.displaySurface;
+    this.canvas.width = settings?.width || this.screenVideo.videoWidth || 1280;
+    this.canvas.height = settings?.height || this.screenVideo.videoHeight || 720;
+
+    this.drawFrame();
+    this.outputStream = this.canvas.captureStream(this.frameRate);
+    this.startTicker();
+
+    const track = this.outputStream.getVideoTracks()[0];
+    if (!track) {
+      throw ErrorHandler.createError('COMPOSITOR_FAILED', 'Compositor canvas produced no video track');
+    }
+
+    console.log('Compositor started:', {
+      width: this.canvas.width,
+      height: this.canvas.height,
+      frameRate: this.frameRate,
+      hasCamera: !!this.cameraVideo,
+    });
+
+    return track;
+  }
+
+  updateBubble(bubble: Partial<CameraBubbleOptions>): void {
+    this.bubble = { ...this.bubble, ...bubble };
+  }
+
+  setCameraVisible(visible: boolean): void {
+    this.cameraVisible = visible;
+  }
+
+  /**
+   * Paint live annotations into every frame, under the camera bubble
+   */
+  setAnnotations(layer: AnnotationLayer | null): void {
+    this.annotations = layer;
+  }
+
+  stop(): void {
+    if (this.ticker) {
+      this.ticker.postMessage({ interval: 0 });
+      this.ticker.terminate();
+      this.ticker = null;
+    }
+
+    if (this.fallbackTimer) {
+      clearInterval(this.fallbackTimer);
+      this.fallbackTimer = undefined;
+    }
+
+    if (this.outputStream) {
+      this.outputStream.getTracks().forEach(track => track.stop());
+      this.outputStream = null;
+    }
+
+    [this.screenVideo, this.cameraVideo].forEach(video => {
+      if (video) {
+        video.pause();
+        video.srcObject = null;
+      }
+    });
+    this.screenVideo = null;
+    this.cameraVideo = null;
+  }
+
+  private async createSourceVideo(stream: MediaStream): Promise<HTMLVideoElement> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    return video;
+  }
+
+  private startTicker(): void {
+    const interval = Math.round(1000 / this.frameRate);
+
+    try {
+      const url = URL.createObjectURL(new Blob([FRAME_TICKER_SOURCE], { type: 'application/javascript' }));
+      this.ticker = new Worker(url);
+      URL.revokeObjectURL(url);
+      this.ticker.onmessage = () => this.drawFrame();
+      this.ticker.postMessage({ interval });
+    } catch (error) {
+      console.warn('Frame ticker worker unavailable, falling back to setInterval:', error);
+      this.fallbackTimer = setInterval(() => this.drawFrame(), interval);
+    }
+  }
+
+  private drawFrame(): void {
+    const screen = this.screenVideo;
+    if (!screen) return;
+
+    try {
+      // Follow the captured surface if the shared window is resized
+      if (screen.videoWidth && screen.videoHeight &&
+          (screen.videoWidth !== this.canvas.width || screen.videoHeight !== this.canvas.height)) {
+        this.canvas.width = screen.videoWidth;
+        this.canvas.height = screen.videoHeight;
+      }
+
+      this.ctx.drawImage(screen, 0, 0, this.canvas.width, this.canvas.height);
+
+      if (this.annotations?.hasContent()) {
+        this.drawAnnotations(this.annotations);
+      }
+
+      if (this.cameraVisible && this.cameraVideo && this.cameraVideo.videoWidth > 0) {
+        this.drawCameraBubble(this.cameraVideo);
+      }
+    } catch (error) {
+      ErrorHandler.logError('compositor-draw', error);
+    }
+  }
+
+  private drawAnnotations(layer: AnnotationLayer): void {
+    const page = layer.getSize();
+    if (!page.width || !page.height) return;
+
+    const area = this.getPageArea();
+    this.ctx.save();
+    this.ctx.translate(area.x, area.y);
+    this.ctx.scale(area.width / page.width, area.height / page.height);
+    layer.draw(this.ctx);
+    this.ctx.restore();
+  }
+
+  /**
+   * Where the RecordLane page sits in the captured frame, so annotations
+   * line up with what they were drawn over. A shared tab is the page itself;
+   * for a window or whole screen the browser's own position is used.
+   */
+  private getPageArea(): { x: number; y: number; width: number; height: number } {
+    const full = { x: 0, y: 0, width: this.canvas.width, height: this.canvas.height };
+    // Toolbars and tabs sit above the page; side borders are negligible
+    const chromeHeight = Math.max(0, window.outerHeight - window.innerHeight);
+
+    if (this.displaySurface === 'window' && window.outerWidth > 0 && window.outerHeight > 0) {
+      const scaleX = this.canvas.width / window.outerWidth;
+      const scaleY = this.canvas.height / window.outerHeight;
+      return { x: 0, y: chromeHeight * scaleY, width: window.innerWidth * scaleX, height: window.innerHeight * scaleY };
+    }
+
+    if (this.displaySurface === 'monitor' && window.screen.width > 0 && window.screen.height > 0) {
+      const scaleX = this.canvas.width / window.screen.width;
+      const scaleY = this.canvas.height / window.screen.height;
+      return {
+        x: window.screenX * scaleX,
+        y: (window.screenY + chromeHeight) * scaleY,
+        width: window.innerWidth * scaleX,
+        height: window.innerHeight * scaleY,
+      };
+    }
+
+    return full;
+  }
+
+  private drawCameraBubble(camera: HTMLVideoElement): void {
+    const { width, height } = this.getBubbleSize();
+    const { x, y } = this.getBubbleOrigin(width, height);
+    const ctx = this.ctx;
+
+    ctx.save();
+    this.traceBubblePath(x, y, width, height);
+    ctx.clip();
+
+    // Crop the camera frame to cover the bubble without distortion
+    const sourceAspect = camera.videoWidth / camera.videoHeight;
+    const targetAspect = width / height;
+    let sw = camera.videoWidth;
+    let sh = camera.videoHeight;
+    if (sourceAspect > targetAspect) {
+      sw = sh * targetAspect;
+    } else {
+      sh = sw / targetAspect;
+    }
+    const sx = (camera.videoWidth - sw) / 2;
+    const sy = (camera.videoHeight - sh) / 2;
+
+    ctx.drawImage(camera, sx, sy, sw, sh, x, y, width, height);
+    ctx.restore();
+
+    if (this.bubble.borderWidth > 0) {
+      ctx.save();
+      this.traceBubblePath(x, y, width, height);
+      ctx.lineWidth = this.bubble.borderWidth;
+      ctx.strokeStyle = this.bubble.borderColor;
+      ctx.stroke();
+      ctx.restore();
+    }
+  }
+
+  private getBubbleSize(): { width: number; height: number } {
+    const scale = COMPOSITOR_CONFIG.bubbleScale[this.bubble.size];
+    const height = Math.round(this.canvas.height * scale);
+    const width = this.bubble.shape === 'circle' ? height : Math.round(height * 4 / 3);
+    return { width, height };
+  }
+
+  private getBubbleOrigin(width: number, height: number): { x: number; y: number } {
+    const margin = Math.round(this.canvas.height * COMPOSITOR_CONFIG.bubbleMargin);
+    const left = this.bubble.position.endsWith('left');
+    const top = this.bubble.position.startsWith('top');
+
+    return {
+      x: left ? margin : this.canvas.width - width - margin,
+      y: top ? margin : this.canvas.height - height - margin,
+    };
+  }
+
+  private traceBubblePath(x: number, y: number, width: number, height: number): void {
+    const ctx = this.ctx;
+    ctx.beginPath();
+
+    if (this.bubble.shape === 'circle') {
+      ctx.arc(x + width / 2, y + height / 2, Math.min(width, height) / 2, 0, Math.PI * 2);
+    } else {
+      const radius = Math.min(width, height) * COMPOSITOR_CONFIG.cornerRadius;
+      ctx.moveTo(x + radius, y);
+      ctx.arcTo(x + width, y, x + width, y + height, radius);
+      ctx.arcTo(x + width, y + height, x, y + height, radius);
+      ctx.arcTo(x, y + height, x, y, radius);
+      ctx.arcTo(x, y, x + width, y, radius);
+      ctx.closePath();
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VideoTrimmingService } from './videoTrimmingService';
+import { EditRange } from '../contexts/RecordingContext';
+import { loadFixture, parseWebm, sourceTime, toBytes } from '../test/webm';
+
+const AUDIO_TRACK = 1;
+const VIDEO_TRACK = 2;
+
+// The fixture has video keyframes at 0, 1000 and 2000 ms. Without WebCodecs
+// (stubbed out below) a range starts at the keyframe before it.
+async function render(ranges: EditRange[]) {
+  const edited = await VideoTrimmingService.renderEdits(loadFixture('recorder.webm'), ranges);
+  const parsed = parseWebm(await toBytes(edited));
+  const blocks = parsed.clusters.flatMap(cluster => cluster.blocks);
+  return {
+    parsed,
+    video: blocks.filter(block => block.trackNumber === VIDEO_TRACK),
+    audio: blocks.filter(block => block.trackNumber === AUDIO_TRACK),
+  };
+}
+
+describe('VideoTrimmingService.renderEdits on WebM', () => {
+  beforeEach(() => {
+    // Without WebCodecs ranges are cut at keyframes, and without Web Audio the
+    // playback fallback refuses to run, so only the container-level path can succeed
+    vi.stubGlobal('VideoEncoder', undefined);
+    vi.stubGlobal('VideoDecoder', undefined);
+    vi.stubGlobal('AudioContext', undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('cuts at the keyframe before the start of a range', async () => {
+    const { parsed, video } = await render([{ start: 1500, end: 2500 }]);
+
+    expect(video[0].keyframe).toBe(true);
+    expect(video.map(sourceTime)).toEqual([1000, 1100, 1200, 1300, 1400, 1500, 1600, 1700, 1800, 1900, 2000, 2100, 2200, 2300, 2400]);
+    expect(video.map(block => block.timestamp)).toEqual(video.map(block => sourceTime(block) - 1000));
+    expect(parsed.duration).toBe(1500);
+  });
+
+  it('shifts timestamps so several kept ranges play back to back', async () => {
+    const { parsed, video } = await render([
+      { start: 0, end: 500 },
+      { start: 1000, end: 1500 },
+      { start: 2000, end: 2500 },
+    ]);
+
+    expect(video.map(block => [sourceTime(block), block.timestamp])).toEqual([
+      [0, 0], [100, 100], [200, 200], [300, 300], [400, 400],
+      [1000, 500], [1100, 600], [1200, 700], [1300, 800], [1400, 900],
+      [2000, 1000], [2100, 1100], [2200, 1200], [2300, 1300], [2400, 1400],
+    ]);
+    expect(video.filter(block => block.keyframe).map(block => block.timestamp)).toEqual([0, 500, 1000]);
+    expect(parsed.duration).toBe(1500);
+  });
+
+  it('keeps the audio frames of each kept range, shifted with the video', async () => {
+    const { audio } = await render([
+      { start: 0, end: 500 },
+      { start: 2000, end: 2500 },
+    ]);
+
+    const kept = audio.map(sourceTime);
+    expect(kept).toEqual([
+      ...Array.from({ length: 10 }, (_, i) => i * 50),
+      ...Array.from({ length: 10 }, (_, i) => 2000 + i * 50),
+    ]);
+    audio.forEach(block => {
+      expect(block.timestamp).toBe(sourceTime(block) < 2000 ? sourceTime(block) : sourceTime(block) - 1500);
+    });
+  });
+
+  it('never moves a cluster timecode backwards, even when ranges start between keyframes', async () => {
+    const { parsed, video, audio } = await render([
+      { start: 700, end: 1200 },
+      { start: 1500, end: 2500 },
+      { start: 2600, end: 3000 },
+    ]);
+
+    const timecodes = parsed.clusters.map(cluster => cluster.timecode);
+    expect(timecodes).toEqual([...timecodes].sort((a, b) => a - b));
+    parsed.clusters.forEach(cluster => {
+      cluster.blocks.forEach(block => expect(block.timestamp).toBeGreaterThanOrEqual(cluster.timecode));
+    });
+    [video, audio].forEach(blocks => {
+      const times = blocks.map(block => block.timestamp);
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+    });
+    expect(parsed.cues.map(cue => cue.clusterPosition)).toEqual(
+      parsed.clusters.filter(cluster => cluster.blocks.some(block => block.trackNumber === VIDEO_TRACK && block.keyframe))
+        .map(cluster => cluster.position)
+    );
+  });
+
+  it('fails clearly instead of falling back to a silent recording', async () => {
+    const mp4 = new Blob([new Uint8Array(8)], { type: 'video/mp4' });
+
+    await expect(VideoTrimmingService.renderEdits(mp4, [{ start: 0, end: 500 }]))
+      .rejects.toMatchObject({ code: 'PLAYBACK_AUDIO_UNSUPPORTED' });
+  });
+
+  it('rejects edits that keep nothing', async () => {
+    await expect(VideoTrimmingService.renderEdits(loadFixture('recorder.webm'), [{ start: 500, end: 500 }]))
+      .rejects.toThrow('Nothing is left to render after the edits');
+  });
+});
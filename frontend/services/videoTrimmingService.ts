@@ -1,17 +1,643 @@
+import { EncodingProfile, EditRange, RedactionRegion, TitleCard, TitleCards, InteractionOverlay } from '../contexts/RecordingContext';
+import { CodecService } from './codecService';
+import { WebmRepairService } from './webmRepairService';
+import { WebmDemuxer, WebmFile, WebmFrame, WebmTrack } from './webmDemuxer';
+import { WebmMuxer, MuxFrame } from './webmMuxer';
+import { ErrorHandler } from '../utils/errorHandler';
+import { TRACK_TYPE_VIDEO } from '../utils/ebml';
+import { drawRedactions } from '../utils/redaction';
+import { drawInteractions, getInteractionSpans } from '../utils/interactionOverlay';
+import { drawTitleCard } from '../utils/titleCards';
+import { TITLE_CARD_CONFIG } from '../config';
+
+// WebCodecs names for the Matroska codec IDs whose streams can be spliced
+// with freshly encoded frames (no codec private data to keep in sync)
+const REENCODABLE_CODECS: Record<string, string> = {
+  V_VP8: 'vp8',
+  V_VP9: 'vp09.00.10.08',
+};
+
+// Share of the progress bar given to each trimming phase
+const DEMUX_PROGRESS = 0.5;
+const REENCODE_PROGRESS = 0.4;
+
+// Frames waiting in the decoder or encoder before more input is held back;
+// redacted spans can be long, and every queued frame holds a decoded picture
+const MAX_CODEC_QUEUE = 8;
+
+// Encoded frames are moved into a blob every time this much has built up,
+// which the browser can keep out of memory until the file is muxed
+const ENCODED_BATCH_BYTES = 16 * 1024 * 1024;
+
+// Drawing burned into the frames of the spans it covers
+interface BurnIn {
+  /** Source time ranges whose frames are drawn over, in milliseconds */
+  spans: EditRange[];
+  draw: (ctx: CanvasRenderingContext2D, timeMs: number) => void;
+}
+
+/**
+ * Collects frames from a VideoEncoder, moving their data into blobs in
+ * batches so a long re-encode does not hold every frame in memory
+ */
+function createEncodedFrameSink(trackNumber: number, toTicks: (micros: number) => number) {
+  const frames: MuxFrame[] = [];
+  let pending: { frame: MuxFrame; data: Uint8Array<ArrayBuffer> }[] = [];
+  let pendingBytes = 0;
+
+  const flush = () => {
+    if (pending.length === 0) return;
+
+    const batch = new Blob(pending.map(entry => entry.data));
+    let offset = 0;
+    pending.forEach(entry => {
+      entry.frame.data = batch.slice(offset, offset + entry.data.length);
+      offset += entry.data.length;
+    });
+    pending = [];
+    pendingBytes = 0;
+  };
+
+  return {
+    add(chunk: EncodedVideoChunk) {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const frame: MuxFrame = {
+        trackNumber,
+        timestamp: toTicks(chunk.timestamp),
+        keyframe: chunk.type === 'key',
+        flags: 0,
+        data,
+      };
+      frames.push(frame);
+      pending.push({ frame, data });
+      pendingBytes += data.length;
+      if (pendingBytes >= ENCODED_BATCH_BYTES) {
+        flush();
+      }
+    },
+    /** Move what is left into a blob once the encoder is flushed */
+    finish(): MuxFrame[] {
+      flush();
+      return frames;
+    },
+  };
+}
+
 export class VideoTrimmingService {
   /**
    * Trim a video blob to the specified start and end times
    * @param blob - The video blob to trim
    * @param startTime - Start time in seconds
    * @param endTime - End time in seconds
+   * @param profile - Encoding profile for the playback fallback, normally the one used to record
+   * @param onProgress - Called with the completed fraction, from 0 to 1
    * @returns Promise<Blob> - The trimmed video blob
    */
-  static async trimVideo(blob: Blob, startTime: number, endTime: number): Promise<Blob> {
+  static async trimVideo(
+    blob: Blob,
+    startTime: number,
+    endTime: number,
+    profile: EncodingProfile | null = null,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    return this.renderEdits(blob, [{ start: startTime * 1000, end: endTime * 1000 }], profile, onProgress);
+  }
+
+  /**
+   * Render the kept ranges of a video, in order, into one blob.
+   * WebM is cut at the container level, much faster than real time and with
+   * every track kept. Where WebCodecs can re-encode the partial group of
+   * pictures at the start of a range the cut is frame-accurate; otherwise the
+   * range starts at the keyframe before it. Other containers fall back to
+   * replaying the ranges into a canvas, with the sound routed alongside.
+   * Redactions and click and keystroke visuals are burned into the frames
+   * they cover, which are re-encoded; if that is not possible the playback
+   * fallback draws them instead.
+   * @param blob - The source video
+   * @param keepRanges - Ranges to keep, in milliseconds, sorted and non-overlapping
+   * @param profile - Encoding profile for the playback fallback, normally the one used to record
+   * @param onProgress - Called with the completed fraction, from 0 to 1
+   * @param redactions - Regions to blur or black out, in source time
+   * @param interactions - Clicks and key presses to draw, in source time
+   * @returns Promise<Blob> - The edited video blob
+   */
+  static async renderEdits(
+    blob: Blob,
+    keepRanges: EditRange[],
+    profile: EncodingProfile | null = null,
+    onProgress?: (progress: number) => void,
+    redactions: RedactionRegion[] = [],
+    interactions: InteractionOverlay | null = null
+  ): Promise<Blob> {
+    const ranges = keepRanges.filter(range => range.end > range.start);
+    if (ranges.length === 0) {
+      throw ErrorHandler.createError('TRIM_EMPTY', 'Nothing is left to render after the edits');
+    }
+
+    const burnIn = this.getBurnIn(redactions, interactions);
+
+    if (!blob.type || blob.type.includes('webm')) {
+      try {
+        const edited = await this.renderByRemux(blob, ranges, burnIn, onProgress);
+        onProgress?.(1);
+        return edited;
+      } catch (error) {
+        console.warn('Container-level edit failed, falling back to playback:', error);
+        ErrorHandler.logError('video-trim-remux', error, { ranges, size: blob.size });
+      }
+    }
+
+    return this.renderByPlayback(blob, ranges, burnIn, profile, onProgress);
+  }
+
+  /**
+   * Combine what is drawn over the frames. Redactions go last so nothing
+   * can be drawn back over a hidden area.
+   */
+  private static getBurnIn(redactions: RedactionRegion[], interactions: InteractionOverlay | null): BurnIn | null {
+    const interactionSpans = interactions ? getInteractionSpans(interactions.events, interactions.style) : [];
+    if (redactions.length === 0 && interactionSpans.length === 0) {
+      return null;
+    }
+
+    return {
+      spans: [...redactions, ...interactionSpans],
+      draw: (ctx, timeMs) => {
+        if (interactions) {
+          drawInteractions(ctx, interactions.events, interactions.style, timeMs);
+        }
+        drawRedactions(ctx, redactions, timeMs);
+      },
+    };
+  }
+
+  /**
+   * Put title cards before and after a video. WebM is extended at the
+   * container level with freshly encoded card frames, keeping every track;
+   * other containers are replayed into a canvas between the cards.
+   * @param blob - The finished video, after any edits
+   * @param cards - Intro and outro cards; a null card is skipped
+   * @param profile - Encoding profile for the playback fallback, normally the one used to record
+   * @param onProgress - Called with the completed fraction, from 0 to 1
+   * @returns Promise<Blob> - The video with its cards
+   */
+  static async addTitleCards(
+    blob: Blob,
+    cards: TitleCards,
+    profile: EncodingProfile | null = null,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    if (!cards.intro && !cards.outro) {
+      return blob;
+    }
+
+    if (!blob.type || blob.type.includes('webm')) {
+      try {
+        const withCards = await this.addTitleCardsByRemux(blob, cards, onProgress);
+        onProgress?.(1);
+        return withCards;
+      } catch (error) {
+        console.warn('Container-level title cards failed, falling back to playback:', error);
+        ErrorHandler.logError('video-title-cards-remux', error, { size: blob.size });
+      }
+    }
+
+    const duration = await this.getVideoDuration(blob);
+    if (!isFinite(duration)) {
+      throw ErrorHandler.createError('TITLE_CARD_NO_DURATION', 'Video length is unknown, so title cards cannot be added');
+    }
+    return this.renderByPlayback(blob, [{ start: 0, end: duration * 1000 }], null, profile, onProgress, cards);
+  }
+
+  /**
+   * Encode a whole video again with another profile by replaying it into a
+   * canvas. Real time, so used when nothing can be copied.
+   * @param blob - The source video
+   * @param profile - Encoding profile for the new file
+   * @param onProgress - Called with the completed fraction, from 0 to 1
+   * @returns Promise<Blob> - The re-encoded video
+   */
+  static async transcode(
+    blob: Blob,
+    profile: EncodingProfile,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const duration = await this.getVideoDuration(blob);
+    if (!isFinite(duration)) {
+      throw ErrorHandler.createError('TRANSCODE_NO_DURATION', 'Video length is unknown, so it cannot be converted');
+    }
+    return this.renderByPlayback(blob, [{ start: 0, end: duration * 1000 }], null, profile, onProgress);
+  }
+
+  private static async addTitleCardsByRemux(
+    blob: Blob,
+    cards: TitleCards,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const file = await WebmDemuxer.demux(blob, fraction => onProgress?.(fraction * DEMUX_PROGRESS));
+    const videoTrack = file.tracks.find(track => track.type === TRACK_TYPE_VIDEO);
+    if (!videoTrack || file.frames.length === 0) {
+      throw ErrorHandler.createError('TITLE_CARD_NO_VIDEO', 'Video has no picture to add title cards to');
+    }
+
+    const ticksPerMs = 1e6 / file.timecodeScale;
+    const frameTicks = Math.round(1000 / TITLE_CARD_CONFIG.frameRate * ticksPerMs);
+    const introTicks = cards.intro ? Math.round(cards.intro.durationMs * ticksPerMs) : 0;
+    // The last source frame is held for one frame before the outro begins
+    const outroStart = introTicks + file.frames.reduce((latest, frame) => Math.max(latest, frame.timestamp), 0) + frameTicks;
+    const outroTicks = cards.outro ? Math.round(cards.outro.durationMs * ticksPerMs) : 0;
+
+    const encodeCard = async (card: TitleCard, startTicks: number, progressStart: number) => {
+      const encoded = await this.encodeTitleCard(card, videoTrack, file.timecodeScale, startTicks,
+        fraction => onProgress?.(DEMUX_PROGRESS + (progressStart + fraction / 2) * REENCODE_PROGRESS));
+      if (!encoded) {
+        throw ErrorHandler.createError('TITLE_CARD_UNSUPPORTED', 'Title card frames cannot be encoded for this video');
+      }
+      return encoded;
+    };
+
+    const frames: MuxFrame[] = [
+      ...(cards.intro ? await encodeCard(cards.intro, 0, 0) : []),
+      ...file.frames.map(frame => ({ ...this.toMuxFrame(blob, frame), timestamp: frame.timestamp + introTicks })),
+      ...(cards.outro ? await encodeCard(cards.outro, outroStart, 0.5) : []),
+    ];
+
+    return WebmMuxer.mux({
+      ebmlHeader: file.ebmlHeader,
+      mimeType: blob.type,
+      timecodeScale: file.timecodeScale,
+      infoChildren: file.infoChildren,
+      tracksElement: file.tracksElement,
+      cueTrack: videoTrack.number,
+      frames,
+      duration: cards.outro ? outroStart + outroTicks : outroStart,
+    });
+  }
+
+  /**
+   * Encode a still title card as video frames matching a track's codec and size
+   * @param startTicks - Output time of the first card frame
+   * @returns The encoded frames, or null if this browser or codec cannot do it
+   */
+  private static async encodeTitleCard(
+    card: TitleCard,
+    track: WebmTrack,
+    timecodeScale: number,
+    startTicks: number,
+    onProgress: (fraction: number) => void
+  ): Promise<MuxFrame[] | null> {
+    const codec = REENCODABLE_CODECS[track.codecId];
+    if (!codec || !track.width || !track.height || typeof VideoEncoder === 'undefined') {
+      return null;
+    }
+
+    const config: VideoEncoderConfig = {
+      codec,
+      width: track.width,
+      height: track.height,
+      bitrate: TITLE_CARD_CONFIG.bitrate,
+      framerate: TITLE_CARD_CONFIG.frameRate,
+    };
+    if (!(await VideoEncoder.isConfigSupported(config)).supported) {
+      return null;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = track.width;
+    canvas.height = track.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      return null;
+    }
+    drawTitleCard(ctx, card);
+
+    const output = createEncodedFrameSink(track.number, micros => startTicks + Math.round(micros * 1000 / timecodeScale));
+    let failure: unknown = null;
+
+    const encoder = new VideoEncoder({
+      output: (chunk) => output.add(chunk),
+      error: (error) => {
+        failure = error;
+      },
+    });
+    encoder.configure(config);
+
+    const frameMicros = 1e6 / TITLE_CARD_CONFIG.frameRate;
+    const frameCount = Math.max(1, Math.round(card.durationMs * 1000 / frameMicros));
+
+    try {
+      for (let i = 0; i < frameCount && !failure; i++) {
+        while (encoder.encodeQueueSize > MAX_CODEC_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        const frame = new VideoFrame(canvas, { timestamp: Math.round(i * frameMicros), duration: Math.round(frameMicros) });
+        // A keyframe every couple of seconds keeps longer cards seekable
+        encoder.encode(frame, { keyFrame: i % (TITLE_CARD_CONFIG.frameRate * 2) === 0 });
+        frame.close();
+        onProgress((i + 1) / frameCount);
+      }
+
+      await encoder.flush();
+    } finally {
+      if (encoder.state !== 'closed') encoder.close();
+    }
+
+    if (failure) {
+      throw failure;
+    }
+    return output.finish();
+  }
+
+  private static async renderByRemux(
+    blob: Blob,
+    ranges: EditRange[],
+    burnIn: BurnIn | null,
+    onProgress?: (progress: number) => void
+  ): Promise<Blob> {
+    const file = await WebmDemuxer.demux(blob, fraction => onProgress?.(fraction * DEMUX_PROGRESS));
+    if (file.frames.length === 0) {
+      throw ErrorHandler.createError('TRIM_NO_FRAMES', 'Video contains no frames');
+    }
+
+    const ticksPerMs = 1e6 / file.timecodeScale;
+    const videoTrack = file.tracks.find(track => track.type === TRACK_TYPE_VIDEO) ?? null;
+    const videoFrames = videoTrack ? file.frames.filter(frame => frame.trackNumber === videoTrack.number) : [];
+
+    const sourceEndTicks = file.frames.reduce((latest, frame) => Math.max(latest, frame.timestamp), 0) + 1;
+
+    const frames: MuxFrame[] = [];
+    // Where the next range starts in the output, in ticks
+    let outputCursor = 0;
+
+    for (let rangeIndex = 0; rangeIndex < ranges.length; rangeIndex++) {
+      const startTicks = Math.round(ranges[rangeIndex].start * ticksPerMs);
+      const endTicks = Math.round(ranges[rangeIndex].end * ticksPerMs);
+      const reportRange = (fraction: number) => onProgress?.(
+        DEMUX_PROGRESS + ((rangeIndex + fraction) / ranges.length) * REENCODE_PROGRESS
+      );
+
+      // Frames can only be copied from a keyframe onwards
+      let keyframeIndex = -1;
+      videoFrames.forEach((frame, index) => {
+        if (frame.keyframe && frame.timestamp <= startTicks) {
+          keyframeIndex = index;
+        }
+      });
+      const burnSpans = burnIn?.spans.filter(span =>
+        span.start < ranges[rangeIndex].end && span.end > ranges[rangeIndex].start
+      ) ?? [];
+      const burning = videoTrack !== null && burnSpans.length > 0;
+      if (burning && keyframeIndex < 0) {
+        keyframeIndex = videoFrames.findIndex(frame => frame.keyframe);
+      }
+      const keyframeTicks = keyframeIndex >= 0 ? videoFrames[keyframeIndex].timestamp : startTicks;
+
+      // Source time that lands on the output cursor
+      let origin = keyframeTicks;
+      // Source video frames are copied from here; earlier ones come from the re-encode
+      let copyVideoFrom = keyframeTicks;
+      const rangeFrames: MuxFrame[] = [];
+
+      if (videoTrack && keyframeIndex >= 0 && (keyframeTicks < startTicks || burning)) {
+        // Drawn-over frames are re-encoded too, so copying resumes at the
+        // first keyframe after the last burn-in that overlaps this range
+        const burnedUntil = burnSpans
+          .reduce((latest, span) => Math.max(latest, Math.round(span.end * ticksPerMs)), startTicks);
+        const nextKeyframe = videoFrames.find((frame, index) =>
+          index > keyframeIndex && frame.keyframe && frame.timestamp > startTicks && frame.timestamp >= burnedUntil
+        );
+        const spliceTicks = Math.min(nextKeyframe?.timestamp ?? Infinity, endTicks);
+        const groupOfPictures = videoFrames.slice(keyframeIndex).filter(frame => frame.timestamp < spliceTicks);
+
+        const reencoded = await this.reencodeRange(
+          blob, file, videoTrack, groupOfPictures, startTicks, spliceTicks, burning ? burnIn : null, reportRange
+        );
+
+        if (reencoded) {
+          rangeFrames.push(...reencoded);
+          origin = startTicks;
+          copyVideoFrom = spliceTicks;
+        } else if (burning) {
+          throw ErrorHandler.createError('BURN_IN_UNSUPPORTED', 'Video frames cannot be re-encoded here to burn in redactions or click visuals');
+        } else {
+          console.warn('Frame-accurate cut unavailable, starting at the previous keyframe:', {
+            requestedStartMs: ranges[rangeIndex].start,
+            actualStartMs: keyframeTicks / ticksPerMs,
+          });
+        }
+      }
+
+      file.frames.forEach(frame => {
+        if (frame.timestamp >= endTicks) return;
+
+        const isVideo = videoTrack !== null && frame.trackNumber === videoTrack.number;
+        if (frame.timestamp < (isVideo ? copyVideoFrom : origin)) return;
+
+        rangeFrames.push(this.toMuxFrame(blob, frame));
+      });
+
+      if (rangeFrames.length === 0) continue;
+
+      const shift = outputCursor - origin;
+      rangeFrames.forEach(frame => {
+        frame.timestamp += shift;
+      });
+      frames.push(...rangeFrames);
+
+      outputCursor += Math.min(endTicks, sourceEndTicks) - origin;
+      reportRange(1);
+    }
+
+    if (frames.length === 0) {
+      throw ErrorHandler.createError('TRIM_EMPTY', 'No frames fall inside the kept ranges');
+    }
+
+    return WebmMuxer.mux({
+      ebmlHeader: file.ebmlHeader,
+      mimeType: blob.type,
+      timecodeScale: file.timecodeScale,
+      infoChildren: file.infoChildren,
+      tracksElement: file.tracksElement,
+      cueTrack: videoTrack?.number ?? null,
+      frames,
+      duration: outputCursor,
+    });
+  }
+
+  /**
+   * Decode a group of pictures and re-encode the frames from `startTicks`,
+   * so the output can begin on a new keyframe exactly at the cut. Frames
+   * inside a burn-in span are drawn over before they are encoded.
+   * @returns The encoded frames, or null if this browser or codec cannot do it
+   */
+  private static async reencodeRange(
+    blob: Blob,
+    file: WebmFile,
+    track: WebmTrack,
+    groupOfPictures: WebmFrame[],
+    startTicks: number,
+    endTicks: number,
+    burnIn: BurnIn | null,
+    onProgress: (fraction: number) => void
+  ): Promise<MuxFrame[] | null> {
+    const codec = REENCODABLE_CODECS[track.codecId];
+    if (!codec || !track.width || !track.height ||
+        typeof VideoDecoder === 'undefined' || typeof VideoEncoder === 'undefined' ||
+        groupOfPictures.some(frame => frame.flags & 0x06)) {
+      return null;
+    }
+
+    const toMicros = (ticks: number) => Math.round(ticks * file.timecodeScale / 1000);
+    const toTicks = (micros: number) => Math.round(micros * 1000 / file.timecodeScale);
+
+    // Match the source bitrate so the re-encoded seconds do not stand out
+    const sourceBytes = groupOfPictures.reduce((total, frame) => total + frame.dataEnd - frame.dataStart, 0);
+    const sourceSeconds = Math.max(1, (endTicks - groupOfPictures[0].timestamp)) / (1e9 / file.timecodeScale);
+    const bitrate = Math.max(500000, Math.round(sourceBytes * 8 / sourceSeconds));
+
+    const encoderConfig: VideoEncoderConfig = { codec, width: track.width, height: track.height, bitrate };
+    const decoderConfig: VideoDecoderConfig = { codec, codedWidth: track.width, codedHeight: track.height };
+
+    const [encoderSupport, decoderSupport] = await Promise.all([
+      VideoEncoder.isConfigSupported(encoderConfig),
+      VideoDecoder.isConfigSupported(decoderConfig),
+    ]);
+    if (!encoderSupport.supported || !decoderSupport.supported) {
+      return null;
+    }
+
+    let burnInCtx: CanvasRenderingContext2D | null = null;
+    if (burnIn) {
+      const canvas = document.createElement('canvas');
+      canvas.width = track.width;
+      canvas.height = track.height;
+      burnInCtx = canvas.getContext('2d');
+      if (!burnInCtx) {
+        return null;
+      }
+    }
+
+    const output = createEncodedFrameSink(track.number, toTicks);
+    let failure: unknown = null;
+    let isFirstFrame = true;
+
+    const encoder = new VideoEncoder({
+      output: (chunk) => output.add(chunk),
+      error: (error) => {
+        failure = error;
+      },
+    });
+    encoder.configure(encoderConfig);
+
+    const startMicros = toMicros(startTicks);
+    const endMicros = toMicros(endTicks);
+    const decoder = new VideoDecoder({
+      output: (frame) => {
+        if (frame.timestamp >= startMicros && frame.timestamp < endMicros) {
+          const timeMs = frame.timestamp / 1000;
+          if (burnIn && burnInCtx && burnIn.spans.some(span => timeMs >= span.start && timeMs < span.end)) {
+            burnInCtx.drawImage(frame, 0, 0, burnInCtx.canvas.width, burnInCtx.canvas.height);
+            burnIn.draw(burnInCtx, timeMs);
+            const drawnOver = new VideoFrame(burnInCtx.canvas, {
+              timestamp: frame.timestamp,
+              duration: frame.duration ?? undefined,
+            });
+            encoder.encode(drawnOver, { keyFrame: isFirstFrame });
+            drawnOver.close();
+          } else {
+            encoder.encode(frame, { keyFrame: isFirstFrame });
+          }
+          isFirstFrame = false;
+        }
+        frame.close();
+      },
+      error: (error) => {
+        failure = error;
+      },
+    });
+    decoder.configure(decoderConfig);
+
+    try {
+      for (let i = 0; i < groupOfPictures.length && !failure; i++) {
+        while (decoder.decodeQueueSize > MAX_CODEC_QUEUE || encoder.encodeQueueSize > MAX_CODEC_QUEUE) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        const frame = groupOfPictures[i];
+        const data = new Uint8Array(await blob.slice(frame.dataStart, frame.dataEnd).arrayBuffer());
+        decoder.decode(new EncodedVideoChunk({
+          type: frame.keyframe ? 'key' : 'delta',
+          timestamp: toMicros(frame.timestamp),
+          data,
+        }));
+        onProgress((i + 1) / groupOfPictures.length);
+      }
+
+      await decoder.flush();
+      await encoder.flush();
+    } finally {
+      if (decoder.state !== 'closed') decoder.close();
+      if (encoder.state !== 'closed') encoder.close();
+    }
+
+    if (failure) {
+      throw failure;
+    }
+    const frames = output.finish();
+    return frames.length > 0 ? frames : null;
+  }
+
+  private static toMuxFrame(blob: Blob, frame: WebmFrame): MuxFrame {
+    return {
+      trackNumber: frame.trackNumber,
+      timestamp: frame.timestamp,
+      keyframe: frame.keyframe,
+      flags: frame.flags,
+      data: blob.slice(frame.dataStart, frame.dataEnd),
+    };
+  }
+
+  /**
+   * Replay the ranges into a canvas and record them again, with the video's
+   * sound routed through Web Audio into the same recording. Slow (real time),
+   * so only used when the container cannot be cut directly. Title cards are
+   * held on the canvas for their duration around the ranges, over silence.
+   */
+  private static async renderByPlayback(
+    blob: Blob,
+    ranges: EditRange[],
+    burnIn: BurnIn | null,
+    profile: EncodingProfile | null,
+    onProgress?: (progress: number) => void,
+    titleCards: TitleCards = { intro: null, outro: null }
+  ): Promise<Blob> {
+    const introMs = titleCards.intro?.durationMs ?? 0;
+    const outroMs = titleCards.outro?.durationMs ?? 0;
+    const totalMs = introMs + outroMs + ranges.reduce((total, range) => total + range.end - range.start, 0);
+
+    // A canvas stream has no sound of its own; without Web Audio the result would be silent
+    if (typeof AudioContext === 'undefined') {
+      throw ErrorHandler.createError('PLAYBACK_AUDIO_UNSUPPORTED', 'This browser cannot keep the sound while re-recording the video');
+    }
+
+    const audioContext = new AudioContext();
+    const cleanUp = (video: HTMLVideoElement) => {
+      audioContext.close().catch(() => {});
+      URL.revokeObjectURL(video.src);
+    };
+
     return new Promise((resolve, reject) => {
       try {
         // Create a video element to load the blob
         const video = document.createElement('video');
         video.preload = 'metadata';
+
+        const fail = (error: unknown) => {
+          cleanUp(video);
+          reject(error);
+        };
         
         video.onloadedmetadata = () => {
           try {
@@ -20,7 +646,7 @@ export class VideoTrimmingService {
             const ctx = canvas.getContext('2d');
             
             if (!ctx) {
-              reject(new Error('Could not get canvas context'));
+              fail(new Error('Could not get canvas context'));
               return;
             }
 
@@ -28,13 +654,38 @@ export class VideoTrimmingService {
             canvas.width = video.videoWidth;
             canvas.height = video.videoHeight;
 
-            // Create a MediaRecorder to record the trimmed portion
-            const stream = canvas.captureStream(30); // 30 FPS
-            const mediaRecorder = new MediaRecorder(stream, {
-              mimeType: 'video/webm;codecs=vp9'
-            });
+            // The element's sound goes only to the recording, not the speakers
+            const audioDestination = audioContext.createMediaStreamDestination();
+            audioContext.createMediaElementSource(video).connect(audioDestination);
+            audioContext.resume().catch(() => {});
+
+            // Create a MediaRecorder to record the kept ranges
+            const stream = new MediaStream([
+              ...canvas.captureStream(30).getVideoTracks(), // 30 FPS
+              ...audioDestination.stream.getAudioTracks(),
+            ]);
+            const { mimeType } = CodecService.resolveProfile(profile, true);
+            const mediaRecorder = new MediaRecorder(stream, { mimeType });
 
             const chunks: Blob[] = [];
+            let rangeIndex = 0;
+            let renderedMs = introMs;
+
+            // Keep repainting the card so the canvas stream produces frames for its whole duration
+            const holdTitleCard = (card: TitleCard, offsetMs: number, done: () => void) => {
+              const startedAt = performance.now();
+              const paint = () => {
+                const elapsed = performance.now() - startedAt;
+                if (elapsed >= card.durationMs) {
+                  done();
+                  return;
+                }
+                drawTitleCard(ctx, card);
+                onProgress?.((offsetMs + elapsed) / totalMs);
+                requestAnimationFrame(paint);
+              };
+              paint();
+            };
             
             mediaRecorder.ondataavailable = (event) => {
               if (event.data.size > 0) {
@@ -43,32 +694,61 @@ export class VideoTrimmingService {
             };
 
             mediaRecorder.onstop = () => {
-              const trimmedBlob = new Blob(chunks, { type: 'video/webm' });
-              resolve(trimmedBlob);
+              cleanUp(video);
+              const editedBlob = new Blob(chunks, { type: mediaRecorder.mimeType || mimeType });
+              resolve(WebmRepairService.repair(editedBlob, totalMs));
             };
 
             mediaRecorder.onerror = (error) => {
-              reject(error);
+              fail(error);
             };
 
-            // Start recording
-            mediaRecorder.start();
+            // The recorder is paused while seeking between ranges so the gap is not recorded
+            video.onseeked = () => {
+              if (mediaRecorder.state === 'inactive') {
+                mediaRecorder.start();
+              } else if (mediaRecorder.state === 'paused') {
+                mediaRecorder.resume();
+              }
+              video.play().catch(fail);
+            };
 
-            // Play video from start time
-            video.currentTime = startTime;
-            video.play();
+            if (titleCards.intro) {
+              mediaRecorder.start();
+              holdTitleCard(titleCards.intro, 0, () => {
+                mediaRecorder.pause();
+                video.currentTime = ranges[0].start / 1000;
+              });
+            } else {
+              video.currentTime = ranges[0].start / 1000;
+            }
 
             // Function to draw video frames to canvas
             const drawFrame = () => {
-              if (video.currentTime >= endTime) {
-                // Stop recording when we reach the end time
-                mediaRecorder.stop();
+              const range = ranges[rangeIndex];
+
+              if (video.currentTime * 1000 >= range.end || video.ended) {
                 video.pause();
+                renderedMs += range.end - range.start;
+                rangeIndex++;
+
+                if (rangeIndex >= ranges.length) {
+                  if (titleCards.outro) {
+                    holdTitleCard(titleCards.outro, renderedMs, () => mediaRecorder.stop());
+                  } else {
+                    mediaRecorder.stop();
+                  }
+                } else {
+                  mediaRecorder.pause();
+                  video.currentTime = ranges[rangeIndex].start / 1000;
+                }
                 return;
               }
 
-              if (!video.paused && video.currentTime < endTime) {
+              if (!video.paused) {
                 ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                burnIn?.draw(ctx, video.currentTime * 1000);
+                onProgress?.((renderedMs + video.currentTime * 1000 - range.start) / totalMs);
                 requestAnimationFrame(drawFrame);
               }
             };
@@ -78,22 +758,23 @@ export class VideoTrimmingService {
             };
 
             video.onerror = (error) => {
-              reject(new Error('Video playback error: ' + error));
+              fail(new Error('Video playback error: ' + error));
             };
 
           } catch (error) {
-            reject(error);
+            fail(error);
           }
         };
 
         video.onerror = (error) => {
-          reject(new Error('Video loading error: ' + error));
+          fail(new Error('Video loading error: ' + error));
         };
 
         // Load the video
         video.src = URL.createObjectURL(blob);
 
       } catch (error) {
+        audioContext.close().catch(() => {});
         reject(error);
       }
     });
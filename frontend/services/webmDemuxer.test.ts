@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { WebmDemuxer } from './webmDemuxer';
+import { TRACK_TYPE_AUDIO, TRACK_TYPE_VIDEO } from '../utils/ebml';
+import { loadFixture, sourceTime, toBytes } from '../test/webm';
+
+describe('WebmDemuxer.demux', () => {
+  it('reads the tracks of a MediaRecorder file', async () => {
+    const file = await WebmDemuxer.demux(loadFixture('recorder.webm'));
+
+    expect(file.timecodeScale).toBe(1000000);
+    expect(file.tracks).toEqual([
+      expect.objectContaining({ number: 1, type: TRACK_TYPE_AUDIO, codecId: 'A_OPUS', sampleRate: 48000, channels: 1 }),
+      expect.objectContaining({ number: 2, type: TRACK_TYPE_VIDEO, codecId: 'V_VP8', width: 320, height: 240 }),
+    ]);
+    expect(file.tracks[0].codecPrivate).not.toBeNull();
+  });
+
+  it('lists every frame across unknown-size clusters with absolute timestamps', async () => {
+    const file = await WebmDemuxer.demux(loadFixture('recorder.webm'));
+    const audio = file.frames.filter(frame => frame.trackNumber === 1);
+    const video = file.frames.filter(frame => frame.trackNumber === 2);
+
+    expect(audio.map(frame => frame.timestamp)).toEqual(Array.from({ length: 60 }, (_, i) => i * 50));
+    expect(video.map(frame => frame.timestamp)).toEqual(Array.from({ length: 30 }, (_, i) => i * 100));
+    expect(video.filter(frame => frame.keyframe).map(frame => frame.timestamp)).toEqual([0, 1000, 2000]);
+  });
+
+  it('points each frame at its data in the source file', async () => {
+    const blob = loadFixture('recorder.webm');
+    const bytes = await toBytes(blob);
+    const file = await WebmDemuxer.demux(blob);
+
+    file.frames.forEach(frame => {
+      const payload = bytes.subarray(frame.dataStart, frame.dataEnd);
+      expect(payload[0]).toBe(frame.trackNumber);
+      expect(sourceTime({ payload })).toBe(frame.timestamp);
+    });
+  });
+
+  it('keeps the frames written completely before the file was cut off', async () => {
+    const file = await WebmDemuxer.demux(loadFixture('recorder-truncated.webm'));
+
+    expect(file.frames).toHaveLength(89);
+    expect(file.frames[file.frames.length - 1]).toEqual(expect.objectContaining({ trackNumber: 2, timestamp: 2900 }));
+  });
+});
@@ -0,0 +1,304 @@
+import { ErrorHandler } from '../utils/errorHandler';
+import {
+  EBML_IDS,
+  DEFAULT_TIMECODE_SCALE,
+  MAX_HEADER_SIZE,
+  EbmlElementHeader,
+  readElementHeader,
+  readChildren,
+  readUint,
+  readFloat,
+  readBlockHeader,
+} from '../utils/ebml';
+
+// Clusters are scanned block by block, so the blob is read through a window
+// rather than one slice per element
+const READ_WINDOW_BYTES = 1024 * 1024;
+
+// A cluster with an unknown size ends where the next top-level element starts
+export const TOP_LEVEL_IDS = new Set<number>([
+  EBML_IDS.EBML,
+  EBML_IDS.SeekHead,
+  EBML_IDS.Info,
+  EBML_IDS.Tracks,
+  EBML_IDS.Cluster,
+  EBML_IDS.Cues,
+  EBML_IDS.Chapters,
+  EBML_IDS.Tags,
+  EBML_IDS.Attachments,
+]);
+
+export interface WebmTrack {
+  number: number;
+  /** Matroska TrackType: 1 video, 2 audio */
+  type: number;
+  codecId: string;
+  /** Decoder setup data, e.g. the avcC record for H.264 or OpusHead for Opus */
+  codecPrivate: Uint8Array | null;
+  width: number | null;
+  height: number | null;
+  sampleRate: number | null;
+  channels: number | null;
+}
+
+export interface WebmFrame {
+  trackNumber: number;
+  /** Absolute time in TimecodeScale units */
+  timestamp: number;
+  keyframe: boolean;
+  /** Lacing and invisibility bits, kept so laced audio survives a remux */
+  flags: number;
+  /** Range of the frame data in the source blob, after the block header */
+  dataStart: number;
+  dataEnd: number;
+}
+
+export interface WebmFile {
+  /** The EBML header element, copied verbatim into rewritten files */
+  ebmlHeader: Blob;
+  timecodeScale: number;
+  /** Info children other than Duration, which is rewritten */
+  infoChildren: Uint8Array[];
+  /** The complete Tracks element */
+  tracksElement: Uint8Array;
+  tracks: WebmTrack[];
+  frames: WebmFrame[];
+}
+
+export class BlobWindowReader {
+  private window: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+  private windowStart = 0;
+
+  constructor(private blob: Blob) {}
+
+  get size(): number {
+    return this.blob.size;
+  }
+
+  /**
+   * Read up to `length` bytes; fewer are returned at the end of the blob
+   */
+  async read(offset: number, length: number): Promise<Uint8Array<ArrayBuffer>> {
+    const end = Math.min(offset + length, this.blob.size);
+
+    if (offset < this.windowStart || end > this.windowStart + this.window.length) {
+      const windowEnd = Math.min(this.blob.size, offset + Math.max(length, READ_WINDOW_BYTES));
+      this.window = new Uint8Array(await this.blob.slice(offset, windowEnd).arrayBuffer());
+      this.windowStart = offset;
+    }
+
+    return this.window.subarray(offset - this.windowStart, end - this.windowStart);
+  }
+
+  async readHeader(offset: number): Promise<EbmlElementHeader | null> {
+    return readElementHeader(await this.read(offset, MAX_HEADER_SIZE), 0);
+  }
+}
+
+export class WebmDemuxer {
+  /**
+   * List every frame in a WebM file without loading the media data.
+   * A file cut off mid-cluster (e.g. a recovered recording) yields the frames
+   * that were written completely.
+   * @param blob - WebM file
+   * @param onProgress - Called with the fraction of the file scanned so far
+   * @returns Promise<WebmFile> - Header elements, tracks and frame index
+   */
+  static async demux(blob: Blob, onProgress?: (fraction: number) => void): Promise<WebmFile> {
+    const reader = new BlobWindowReader(blob);
+
+    const ebmlHeader = await reader.readHeader(0);
+    if (!ebmlHeader || ebmlHeader.id !== EBML_IDS.EBML || ebmlHeader.size === null) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'File does not start with an EBML header');
+    }
+    const ebmlEnd = ebmlHeader.headerSize + ebmlHeader.size;
+
+    const segmentHeader = await reader.readHeader(ebmlEnd);
+    if (!segmentHeader || segmentHeader.id !== EBML_IDS.Segment) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'File has no Segment element');
+    }
+
+    const segmentStart = ebmlEnd + segmentHeader.headerSize;
+    const segmentEnd = segmentHeader.size === null
+      ? reader.size
+      : Math.min(reader.size, segmentStart + segmentHeader.size);
+
+    const infoChildren: Uint8Array[] = [];
+    let timecodeScale = DEFAULT_TIMECODE_SCALE;
+    let tracksElement: Uint8Array | null = null;
+    const frames: WebmFrame[] = [];
+
+    let offset = segmentStart;
+    while (offset < segmentEnd) {
+      const header = await reader.readHeader(offset);
+      if (!header || header.id === EBML_IDS.EBML) break;
+
+      const dataStart = offset + header.headerSize;
+
+      if (header.id === EBML_IDS.Cluster) {
+        const clusterEnd = await this.readCluster(reader, dataStart, header.size, segmentEnd, frames);
+        if (clusterEnd <= dataStart) break;
+        offset = clusterEnd;
+        onProgress?.(offset / reader.size);
+        continue;
+      }
+
+      if (header.size === null || dataStart + header.size > segmentEnd) break;
+      const dataEnd = dataStart + header.size;
+
+      if (header.id === EBML_IDS.Info) {
+        const data = await reader.read(dataStart, header.size);
+        readChildren(data).forEach(child => {
+          if (child.size === null) return;
+          if (child.id === EBML_IDS.TimecodeScale) {
+            timecodeScale = readUint(data, child.dataOffset, child.size) || DEFAULT_TIMECODE_SCALE;
+          }
+          if (child.id !== EBML_IDS.Duration) {
+            infoChildren.push(data.slice(child.offset, child.dataOffset + child.size));
+          }
+        });
+      } else if (header.id === EBML_IDS.Tracks) {
+        tracksElement = (await reader.read(offset, dataEnd - offset)).slice();
+      }
+
+      offset = dataEnd;
+    }
+
+    if (!tracksElement || infoChildren.length === 0) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'File is missing its Info or Tracks element');
+    }
+
+    onProgress?.(1);
+
+    const tracksHeader = readElementHeader(tracksElement, 0)!;
+    return {
+      ebmlHeader: blob.slice(0, ebmlEnd),
+      timecodeScale,
+      infoChildren,
+      tracksElement,
+      tracks: this.parseTracks(tracksElement.subarray(tracksHeader.headerSize)),
+      frames,
+    };
+  }
+
+  /**
+   * Read the TrackEntry elements from a Tracks payload
+   */
+  static parseTracks(tracksData: Uint8Array): WebmTrack[] {
+    const tracks: WebmTrack[] = [];
+
+    readChildren(tracksData).forEach(entry => {
+      if (entry.id !== EBML_IDS.TrackEntry || entry.size === null) return;
+
+      const track: WebmTrack = {
+        number: 0,
+        type: 0,
+        codecId: '',
+        codecPrivate: null,
+        width: null,
+        height: null,
+        sampleRate: null,
+        channels: null,
+      };
+      readChildren(tracksData, entry.dataOffset, entry.dataOffset + entry.size).forEach(field => {
+        if (field.size === null) return;
+
+        if (field.id === EBML_IDS.TrackNumber) {
+          track.number = readUint(tracksData, field.dataOffset, field.size);
+        } else if (field.id === EBML_IDS.TrackType) {
+          track.type = readUint(tracksData, field.dataOffset, field.size);
+        } else if (field.id === EBML_IDS.CodecID) {
+          track.codecId = new TextDecoder().decode(tracksData.subarray(field.dataOffset, field.dataOffset + field.size));
+        } else if (field.id === EBML_IDS.CodecPrivate) {
+          track.codecPrivate = tracksData.slice(field.dataOffset, field.dataOffset + field.size);
+        } else if (field.id === EBML_IDS.Video) {
+          readChildren(tracksData, field.dataOffset, field.dataOffset + field.size).forEach(setting => {
+            if (setting.size === null) return;
+            if (setting.id === EBML_IDS.PixelWidth) {
+              track.width = readUint(tracksData, setting.dataOffset, setting.size);
+            } else if (setting.id === EBML_IDS.PixelHeight) {
+              track.height = readUint(tracksData, setting.dataOffset, setting.size);
+            }
+          });
+        } else if (field.id === EBML_IDS.Audio) {
+          readChildren(tracksData, field.dataOffset, field.dataOffset + field.size).forEach(setting => {
+            if (setting.size === null) return;
+            if (setting.id === EBML_IDS.SamplingFrequency) {
+              track.sampleRate = readFloat(tracksData, setting.dataOffset, setting.size);
+            } else if (setting.id === EBML_IDS.Channels) {
+              track.channels = readUint(tracksData, setting.dataOffset, setting.size);
+            }
+          });
+        }
+      });
+
+      if (track.number > 0) {
+        tracks.push(track);
+      }
+    });
+
+    return tracks;
+  }
+
+  /**
+   * Collect a cluster's blocks, stopping at its declared end, at the next
+   * top-level element when the size is unknown, or at a cut-off block
+   * @returns The offset just past the last complete child
+   */
+  private static async readCluster(
+    reader: BlobWindowReader,
+    dataStart: number,
+    size: number | null,
+    segmentEnd: number,
+    frames: WebmFrame[]
+  ): Promise<number> {
+    const limit = size === null ? segmentEnd : Math.min(segmentEnd, dataStart + size);
+    let clusterTimecode = 0;
+    let offset = dataStart;
+
+    while (offset < limit) {
+      const header = await reader.readHeader(offset);
+      if (!header || header.size === null || TOP_LEVEL_IDS.has(header.id)) break;
+
+      const childData = offset + header.headerSize;
+      const childEnd = childData + header.size;
+      if (childEnd > limit) break;
+
+      if (header.id === EBML_IDS.Timecode) {
+        clusterTimecode = readUint(await reader.read(childData, header.size), 0, header.size);
+      } else if (header.id === EBML_IDS.SimpleBlock) {
+        const block = readBlockHeader(await reader.read(childData, MAX_HEADER_SIZE), 0);
+        if (block) {
+          frames.push({
+            trackNumber: block.trackNumber,
+            timestamp: clusterTimecode + block.relativeTimecode,
+            keyframe: block.keyframe,
+            flags: block.flags & 0x0f,
+            dataStart: childData + block.headerSize,
+            dataEnd: childEnd,
+          });
+        }
+      } else if (header.id === EBML_IDS.BlockGroup) {
+        const group = await reader.read(childData, header.size);
+        const children = readChildren(group);
+        const blockElement = children.find(child => child.id === EBML_IDS.Block);
+        const block = blockElement ? readBlockHeader(group, blockElement.dataOffset) : null;
+        if (blockElement && blockElement.size !== null && block) {
+          frames.push({
+            trackNumber: block.trackNumber,
+            timestamp: clusterTimecode + block.relativeTimecode,
+            // Inside a BlockGroup, a block without references is a keyframe
+            keyframe: !children.some(child => child.id === EBML_IDS.ReferenceBlock),
+            flags: block.flags & 0x0f,
+            dataStart: childData + blockElement.dataOffset + block.headerSize,
+            dataEnd: childData + blockElement.dataOffset + blockElement.size,
+          });
+        }
+      }
+
+      offset = childEnd;
+    }
+
+    return offset;
+  }
+}
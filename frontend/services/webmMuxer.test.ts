@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { WebmMuxer, MuxFrame } from './webmMuxer';
+import { WebmDemuxer, WebmFile } from './webmDemuxer';
+import { loadFixture, parseWebm, sourceTime, toBytes } from '../test/webm';
+
+const VIDEO_TRACK = 2;
+
+function frameData(track: number, timestamp: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([track, timestamp >> 8, timestamp & 0xff, 0, 0xab, 0xcd]);
+}
+
+async function mux(file: WebmFile, frames: MuxFrame[], cueTrack: number | null = VIDEO_TRACK) {
+  const output = WebmMuxer.mux({
+    ebmlHeader: file.ebmlHeader,
+    mimeType: 'video/webm',
+    timecodeScale: file.timecodeScale,
+    infoChildren: file.infoChildren,
+    tracksElement: file.tracksElement,
+    cueTrack,
+    frames,
+    duration: 1234,
+  });
+  return parseWebm(await toBytes(output));
+}
+
+describe('WebmMuxer.mux', () => {
+  it('writes frames in timestamp order, starting a cluster at each video keyframe', async () => {
+    const file = await WebmDemuxer.demux(loadFixture('recorder.webm'));
+    const frames: MuxFrame[] = [
+      { trackNumber: VIDEO_TRACK, timestamp: 1000, keyframe: true, flags: 0, data: frameData(VIDEO_TRACK, 1000) },
+      { trackNumber: VIDEO_TRACK, timestamp: 0, keyframe: true, flags: 0, data: frameData(VIDEO_TRACK, 0) },
+      { trackNumber: 1, timestamp: 40, keyframe: true, flags: 0, data: frameData(1, 40) },
+      { trackNumber: VIDEO_TRACK, timestamp: 500, keyframe: false, flags: 0, data: frameData(VIDEO_TRACK, 500) },
+    ];
+
+    const parsed = await mux(file, frames);
+
+    expect(parsed.duration).toBe(1234);
+    expect(parsed.segmentSize).toBe(parsed.segmentPayloadSize);
+    expect(parsed.clusters.map(cluster => cluster.timecode)).toEqual([0, 1000]);
+    expect(parsed.clusters.flatMap(cluster => cluster.blocks.map(block => [block.trackNumber, block.timestamp, sourceTime(block)])))
+      .toEqual([[2, 0, 0], [1, 40, 40], [2, 500, 500], [2, 1000, 1000]]);
+    expect(parsed.cues).toEqual(parsed.clusters.map(cluster => ({
+      time: cluster.timecode,
+      track: VIDEO_TRACK,
+      clusterPosition: cluster.position,
+    })));
+  });
+
+  it('copies frame data sliced from the source file', async () => {
+    const blob = loadFixture('recorder.webm');
+    const file = await WebmDemuxer.demux(blob);
+    const frames = file.frames.map(frame => ({
+      trackNumber: frame.trackNumber,
+      timestamp: frame.timestamp,
+      keyframe: frame.keyframe,
+      flags: frame.flags,
+      data: blob.slice(frame.dataStart, frame.dataEnd),
+    }));
+
+    const parsed = await mux(file, frames);
+    const blocks = parsed.clusters.flatMap(cluster => cluster.blocks);
+
+    expect(blocks).toHaveLength(90);
+    blocks.forEach(block => {
+      expect(block.payload[0]).toBe(block.trackNumber);
+      expect(sourceTime(block)).toBe(block.timestamp);
+    });
+  });
+
+  it('caps clusters by time when there are no keyframes to split on', async () => {
+    const file = await WebmDemuxer.demux(loadFixture('recorder.webm'));
+    const frames = Array.from({ length: 241 }, (_, i) => ({
+      trackNumber: 1,
+      timestamp: i * 50,
+      keyframe: false,
+      flags: 0,
+      data: frameData(1, i * 50),
+    }));
+
+    const parsed = await mux(file, frames, null);
+
+    expect(parsed.clusters.length).toBeGreaterThan(1);
+    parsed.clusters.forEach(cluster => {
+      cluster.blocks.forEach(block => {
+        expect(block.timestamp - cluster.timecode).toBeLessThanOrEqual(5000);
+      });
+    });
+    expect(parsed.clusters.flatMap(cluster => cluster.blocks)).toHaveLength(241);
+  });
+});
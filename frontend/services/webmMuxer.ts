@@ -0,0 +1,165 @@
+import {
+  EBML_IDS,
+  encodeId,
+  encodeSize,
+  encodeUint,
+  encodeFloat64,
+  encodeElement,
+} from '../utils/ebml';
+
+// Seek positions are written at a fixed width so the SeekHead's size does not
+// depend on the positions it points to
+const SEEK_POSITION_BYTES = 8;
+
+// Block timecodes are signed 16-bit offsets from their cluster's timecode
+const MAX_RELATIVE_TIMECODE = 32767;
+
+// Audio-only files have no keyframes to split on, so clusters are capped by time
+const MAX_CLUSTER_DURATION_MS = 5000;
+
+export interface MuxFrame {
+  trackNumber: number;
+  /** Absolute time in TimecodeScale units */
+  timestamp: number;
+  keyframe: boolean;
+  /** Lacing and invisibility bits from the source block */
+  flags: number;
+  /** Frame data without a block header: a slice of the source file or freshly encoded bytes */
+  data: Blob | Uint8Array<ArrayBuffer>;
+}
+
+export interface MuxInput {
+  ebmlHeader: Blob;
+  mimeType?: string;
+  timecodeScale: number;
+  /** Info children other than Duration */
+  infoChildren: Uint8Array[];
+  tracksElement: Uint8Array;
+  /** Track that starts new clusters and gets cue points, normally the video track */
+  cueTrack: number | null;
+  frames: MuxFrame[];
+  /** In TimecodeScale units */
+  duration: number;
+}
+
+export interface CueEntry {
+  /** In TimecodeScale units */
+  time: number;
+  track: number;
+  /** Cluster offset from the start of the Segment payload */
+  clusterPosition: number;
+}
+
+/**
+ * Build a SeekHead pointing at the given top-level elements
+ * @param entries - Element IDs and their offsets from the start of the Segment payload
+ */
+export function buildSeekHead(entries: { id: number; position: number }[]): Uint8Array<ArrayBuffer> {
+  return encodeElement(EBML_IDS.SeekHead, entries.map(entry => encodeElement(EBML_IDS.Seek, [
+    encodeElement(EBML_IDS.SeekID, encodeId(entry.id)),
+    encodeElement(EBML_IDS.SeekPosition, encodeUint(entry.position, SEEK_POSITION_BYTES)),
+  ])));
+}
+
+export function buildCues(entries: CueEntry[]): Uint8Array<ArrayBuffer> {
+  return encodeElement(EBML_IDS.Cues, entries.map(entry => encodeElement(EBML_IDS.CuePoint, [
+    encodeElement(EBML_IDS.CueTime, encodeUint(Math.max(0, entry.time))),
+    encodeElement(EBML_IDS.CueTrackPositions, [
+      encodeElement(EBML_IDS.CueTrack, encodeUint(entry.track)),
+      encodeElement(EBML_IDS.CueClusterPosition, encodeUint(entry.clusterPosition)),
+    ]),
+  ])));
+}
+
+export class WebmMuxer {
+  /**
+   * Write frames into a complete, seekable WebM file. Media data stays in the
+   * source blob slices; only headers are allocated.
+   * @param input - Header elements from the source file and the frames to write
+   * @returns Blob - The new WebM file
+   */
+  static mux(input: MuxInput): Blob {
+    const frames = [...input.frames].sort((a, b) => a.timestamp - b.timestamp);
+    const maxClusterTicks = Math.min(MAX_RELATIVE_TIMECODE, MAX_CLUSTER_DURATION_MS * 1000000 / input.timecodeScale);
+
+    const info = encodeElement(EBML_IDS.Info, [
+      ...input.infoChildren,
+      encodeElement(EBML_IDS.Duration, encodeFloat64(input.duration)),
+    ]);
+
+    // Lay out the segment: SeekHead, Info, Tracks, Clusters, Cues
+    const seekHeadSize = buildSeekHead([
+      { id: EBML_IDS.Info, position: 0 },
+      { id: EBML_IDS.Tracks, position: 0 },
+      { id: EBML_IDS.Cues, position: 0 },
+    ]).length;
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + info.length;
+    let position = tracksPosition + input.tracksElement.length;
+
+    const clusterParts: BlobPart[] = [];
+    const cues: CueEntry[] = [];
+    let clusterTimecode = 0;
+    let clusterBlocks: BlobPart[] = [];
+    let clusterSize = 0;
+
+    const flushCluster = () => {
+      if (clusterBlocks.length === 0) return;
+
+      const timecode = encodeElement(EBML_IDS.Timecode, encodeUint(clusterTimecode));
+      const payloadSize = timecode.length + clusterSize;
+      const header = [encodeId(EBML_IDS.Cluster), encodeSize(payloadSize)];
+
+      clusterParts.push(...header, timecode, ...clusterBlocks);
+      position += header[0].length + header[1].length + payloadSize;
+      clusterBlocks = [];
+      clusterSize = 0;
+    };
+
+    frames.forEach(frame => {
+      const startsCluster = clusterBlocks.length === 0 ||
+        (frame.keyframe && frame.trackNumber === input.cueTrack) ||
+        frame.timestamp - clusterTimecode > maxClusterTicks;
+
+      if (startsCluster) {
+        flushCluster();
+        clusterTimecode = Math.max(0, frame.timestamp);
+        if (frame.keyframe && (input.cueTrack === null || frame.trackNumber === input.cueTrack)) {
+          cues.push({ time: clusterTimecode, track: frame.trackNumber, clusterPosition: position });
+        }
+      }
+
+      const dataSize = frame.data instanceof Blob ? frame.data.size : frame.data.length;
+      const blockHeader = new Uint8Array([
+        ...encodeSize(frame.trackNumber),
+        0, 0,
+        (frame.keyframe ? 0x80 : 0) | frame.flags,
+      ]);
+      new DataView(blockHeader.buffer).setInt16(blockHeader.length - 3, frame.timestamp - clusterTimecode);
+
+      const blockId = encodeId(EBML_IDS.SimpleBlock);
+      const blockSize = encodeSize(blockHeader.length + dataSize);
+      clusterBlocks.push(blockId, blockSize, blockHeader, frame.data);
+      clusterSize += blockId.length + blockSize.length + blockHeader.length + dataSize;
+    });
+    flushCluster();
+
+    const cuesElement = buildCues(cues);
+    const seekHead = buildSeekHead([
+      { id: EBML_IDS.Info, position: infoPosition },
+      { id: EBML_IDS.Tracks, position: tracksPosition },
+      { id: EBML_IDS.Cues, position },
+    ]);
+
+    return new Blob([
+      input.ebmlHeader,
+      encodeId(EBML_IDS.Segment),
+      encodeSize(position + cuesElement.length, 8),
+      seekHead,
+      info,
+      input.tracksElement.slice(),
+      ...clusterParts,
+      cuesElement,
+    ], { type: input.mimeType || 'video/webm' });
+  }
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { WebmRepairService } from './webmRepairService';
+import { EBML_IDS, encodeId, readChildren, readUint } from '../utils/ebml';
+import { loadFixture, parseWebm, toBytes } from '../test/webm';
+
+const AUDIO_TRACK = 1;
+const VIDEO_TRACK = 2;
+
+function findId(bytes: Uint8Array, id: number): number {
+  const pattern = encodeId(id);
+  return bytes.findIndex((_, index) => pattern.every((byte, i) => bytes[index + i] === byte));
+}
+
+async function repairFixture(name: string) {
+  const source = loadFixture(name);
+  const repaired = await WebmRepairService.repair(source);
+  return { repaired, parsed: parseWebm(await toBytes(repaired)) };
+}
+
+describe('WebmRepairService.repair', () => {
+  it('writes the Duration from the last block timestamp', async () => {
+    const { parsed } = await repairFixture('recorder.webm');
+
+    expect(parsed.duration).toBe(2950);
+  });
+
+  it('uses the fallback duration when no block has a timestamp past zero', async () => {
+    const bytes = await toBytes(loadFixture('recorder.webm'));
+    // Keep the first Cluster's header (ID, unknown size, Timecode) and its first block, the audio frame at 0 ms
+    const clusterStart = findId(bytes, EBML_IDS.Cluster);
+    const source = new Blob([bytes.subarray(0, clusterStart + 4 + 8 + 3 + 12)], { type: 'video/webm' });
+
+    const parsed = parseWebm(await toBytes(await WebmRepairService.repair(source, 1500)));
+    expect(parsed.clusters.map(cluster => cluster.blocks.length)).toEqual([1]);
+    expect(parsed.duration).toBe(1500);
+  });
+
+  it('gives the unknown-size Segment and Clusters real sizes', async () => {
+    const { parsed } = await repairFixture('recorder.webm');
+
+    expect(parsed.segmentSize).toBe(parsed.segmentPayloadSize);
+    expect(parsed.elements.map(element => element.id)).toEqual([
+      EBML_IDS.SeekHead,
+      EBML_IDS.Info,
+      EBML_IDS.Tracks,
+      EBML_IDS.Cluster,
+      EBML_IDS.Cluster,
+      EBML_IDS.Cluster,
+      EBML_IDS.Cues,
+    ]);
+    // The elements are read back to back, so the last one ending at the end of the file means none were skipped
+    const last = parsed.elements[parsed.elements.length - 1];
+    expect(last.dataOffset + last.size!).toBe(parsed.segmentPayloadSize);
+  });
+
+  it('keeps every block, in its original cluster', async () => {
+    const { parsed } = await repairFixture('recorder.webm');
+
+    expect(parsed.clusters.map(cluster => cluster.timecode)).toEqual([0, 1000, 2000]);
+    parsed.clusters.forEach(cluster => {
+      expect(cluster.blocks.filter(block => block.trackNumber === AUDIO_TRACK)).toHaveLength(20);
+      expect(cluster.blocks.filter(block => block.trackNumber === VIDEO_TRACK)).toHaveLength(10);
+    });
+  });
+
+  it('writes Cues on the video track that point at the real Cluster offsets', async () => {
+    const { parsed } = await repairFixture('recorder.webm');
+
+    expect(parsed.cues).toEqual(parsed.clusters.map(cluster => ({
+      time: cluster.timecode,
+      track: VIDEO_TRACK,
+      clusterPosition: cluster.position,
+    })));
+  });
+
+  it('points the SeekHead at Info, Tracks and Cues', async () => {
+    const { parsed, repaired } = await repairFixture('recorder.webm');
+    const bytes = await toBytes(repaired);
+    const payload = bytes.subarray(bytes.length - parsed.segmentPayloadSize);
+    const seekHead = parsed.elements[0];
+
+    const seeks = readChildren(payload, seekHead.dataOffset, seekHead.dataOffset + seekHead.size!).map(seek => {
+      const [id, position] = readChildren(payload, seek.dataOffset, seek.dataOffset + seek.size!);
+      return {
+        id: readUint(payload, id.dataOffset, id.size!),
+        position: readUint(payload, position.dataOffset, position.size!),
+      };
+    });
+
+    expect(seeks).toEqual([EBML_IDS.Info, EBML_IDS.Tracks, EBML_IDS.Cues].map(id => ({
+      id,
+      position: parsed.elements.find(element => element.id === id)!.offset,
+    })));
+  });
+
+  it('recovers a file cut off mid-block, dropping only the partial block', async () => {
+    const { parsed } = await repairFixture('recorder-truncated.webm');
+
+    expect(parsed.segmentSize).toBe(parsed.segmentPayloadSize);
+    expect(parsed.clusters.map(cluster => cluster.blocks.length)).toEqual([30, 30, 29]);
+    expect(parsed.duration).toBe(2900);
+    expect(parsed.cues.map(cue => cue.clusterPosition)).toEqual(parsed.clusters.map(cluster => cluster.position));
+  });
+
+  it('returns files that are not WebM unchanged', async () => {
+    const source = new Blob([new Uint8Array([0, 0, 0, 0x20, 0x66, 0x74, 0x79, 0x70])], { type: 'video/mp4' });
+
+    expect(await WebmRepairService.repair(source)).toBe(source);
+  });
+});
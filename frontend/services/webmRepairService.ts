@@ -0,0 +1,271 @@
+import { ErrorHandler } from '../utils/errorHandler';
+import {
+  EBML_IDS,
+  TRACK_TYPE_VIDEO,
+  DEFAULT_TIMECODE_SCALE,
+  MAX_HEADER_SIZE,
+  readChildren,
+  readUint,
+  readBlockHeader,
+  encodeId,
+  encodeSize,
+  encodeFloat64,
+  encodeElement,
+} from '../utils/ebml';
+import { BlobWindowReader, WebmDemuxer, TOP_LEVEL_IDS } from './webmDemuxer';
+import { buildSeekHead, buildCues, CueEntry } from './webmMuxer';
+
+interface ScannedCluster {
+  /** Payload range in the source blob */
+  dataStart: number;
+  dataEnd: number;
+  /** First keyframe time per track, in TimecodeScale units */
+  keyframes: Map<number, number>;
+  lastBlockTime: number | null;
+}
+
+export class WebmRepairService {
+  /**
+   * Make a MediaRecorder WebM file seekable by writing a Duration, sized
+   * clusters and a Cues index. Anything that is not WebM, or cannot be parsed,
+   * is returned unchanged.
+   * @param blob - Recording as produced by MediaRecorder
+   * @param fallbackDurationMs - Used when no block timestamps can be read
+   * @returns Promise<Blob> - The repaired recording
+   */
+  static async repair(blob: Blob, fallbackDurationMs?: number): Promise<Blob> {
+    if (blob.type && !blob.type.includes('webm')) {
+      return blob;
+    }
+
+    try {
+      const startTime = performance.now();
+      const repaired = await this.rebuild(blob, fallbackDurationMs);
+      console.log('WebM repaired:', {
+        originalSize: blob.size,
+        repairedSize: repaired.size,
+        elapsedMs: Math.round(performance.now() - startTime),
+      });
+      return repaired;
+    } catch (error) {
+      console.warn('WebM repair failed, using original recording:', error);
+      ErrorHandler.logError('webm-repair', error, { size: blob.size, type: blob.type });
+      return blob;
+    }
+  }
+
+  private static async rebuild(blob: Blob, fallbackDurationMs?: number): Promise<Blob> {
+    const reader = new BlobWindowReader(blob);
+
+    const ebmlHeader = await reader.readHeader(0);
+    if (!ebmlHeader || ebmlHeader.id !== EBML_IDS.EBML || ebmlHeader.size === null) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'Recording does not start with an EBML header');
+    }
+    const ebmlEnd = ebmlHeader.headerSize + ebmlHeader.size;
+
+    const segmentHeader = await reader.readHeader(ebmlEnd);
+    if (!segmentHeader || segmentHeader.id !== EBML_IDS.Segment) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'Recording has no Segment element');
+    }
+
+    const segmentStart = ebmlEnd + segmentHeader.headerSize;
+    const segmentEnd = segmentHeader.size === null
+      ? reader.size
+      : Math.min(reader.size, segmentStart + segmentHeader.size);
+
+    const infoChildren: Uint8Array[] = [];
+    let timecodeScale = DEFAULT_TIMECODE_SCALE;
+    let tracks: Uint8Array | null = null;
+    let cueTrack: number | null = null;
+    const extraElements: { start: number; end: number }[] = [];
+    const clusters: ScannedCluster[] = [];
+
+    let offset = segmentStart;
+    while (offset < segmentEnd) {
+      const header = await reader.readHeader(offset);
+      if (!header || header.id === EBML_IDS.EBML) break;
+
+      const dataStart = offset + header.headerSize;
+
+      if (header.id === EBML_IDS.Cluster) {
+        const cluster = await this.scanCluster(reader, dataStart, header.size, segmentEnd);
+        if (cluster.lastBlockTime !== null) {
+          clusters.push(cluster);
+        }
+        if (cluster.dataEnd <= dataStart) break;
+        offset = cluster.dataEnd;
+        continue;
+      }
+
+      // Every other element must be complete; a cut-off one ends the file
+      if (header.size === null || dataStart + header.size > segmentEnd) break;
+      const dataEnd = dataStart + header.size;
+
+      if (header.id === EBML_IDS.Info) {
+        const data = await reader.read(dataStart, header.size);
+        readChildren(data).forEach(child => {
+          if (child.size === null) return;
+          if (child.id === EBML_IDS.TimecodeScale) {
+            timecodeScale = readUint(data, child.dataOffset, child.size) || DEFAULT_TIMECODE_SCALE;
+          }
+          if (child.id !== EBML_IDS.Duration) {
+            infoChildren.push(data.slice(child.offset, child.dataOffset + child.size));
+          }
+        });
+      } else if (header.id === EBML_IDS.Tracks) {
+        tracks = (await reader.read(offset, dataEnd - offset)).slice();
+        const trackList = WebmDemuxer.parseTracks(tracks.subarray(header.headerSize));
+        cueTrack = (trackList.find(track => track.type === TRACK_TYPE_VIDEO) ?? trackList[0])?.number ?? null;
+      } else if (header.id !== EBML_IDS.SeekHead && header.id !== EBML_IDS.Cues && header.id !== EBML_IDS.Void) {
+        // Chapters, Tags and the like are carried over; the index elements are rebuilt below
+        extraElements.push({ start: offset, end: dataEnd });
+      }
+
+      offset = dataEnd;
+    }
+
+    if (!tracks || infoChildren.length === 0) {
+      throw ErrorHandler.createError('WEBM_INVALID', 'Recording is missing its Info or Tracks element');
+    }
+    if (clusters.length === 0) {
+      throw ErrorHandler.createError('WEBM_NO_CLUSTERS', 'Recording contains no media clusters');
+    }
+
+    const lastBlockTime = clusters.reduce((latest, cluster) => Math.max(latest, cluster.lastBlockTime ?? 0), 0);
+    const duration = lastBlockTime > 0 || fallbackDurationMs === undefined
+      ? lastBlockTime
+      : fallbackDurationMs * 1000000 / timecodeScale;
+
+    const info = encodeElement(EBML_IDS.Info, [
+      ...infoChildren,
+      encodeElement(EBML_IDS.Duration, encodeFloat64(duration)),
+    ]);
+
+    // Lay out the new segment: SeekHead, Info, Tracks, carried-over elements, Clusters, Cues
+    const seekHeadSize = buildSeekHead([
+      { id: EBML_IDS.Info, position: 0 },
+      { id: EBML_IDS.Tracks, position: 0 },
+      { id: EBML_IDS.Cues, position: 0 },
+    ]).length;
+    const infoPosition = seekHeadSize;
+    const tracksPosition = infoPosition + info.length;
+    let position = tracksPosition + tracks.length;
+    extraElements.forEach(element => {
+      position += element.end - element.start;
+    });
+
+    const clusterPositions = clusters.map(cluster => {
+      const clusterPosition = position;
+      position += encodeId(EBML_IDS.Cluster).length + 8 + (cluster.dataEnd - cluster.dataStart);
+      return clusterPosition;
+    });
+
+    const cuesPosition = position;
+    const cues = buildCues(this.getCueEntries(clusters, clusterPositions, cueTrack));
+    const seekHead = buildSeekHead([
+      { id: EBML_IDS.Info, position: infoPosition },
+      { id: EBML_IDS.Tracks, position: tracksPosition },
+      { id: EBML_IDS.Cues, position: cuesPosition },
+    ]);
+
+    const parts: BlobPart[] = [
+      blob.slice(0, ebmlEnd),
+      encodeId(EBML_IDS.Segment),
+      encodeSize(cuesPosition + cues.length, 8),
+      seekHead,
+      info,
+      tracks.slice(),
+      ...extraElements.map(element => blob.slice(element.start, element.end)),
+    ];
+
+    clusters.forEach(cluster => {
+      parts.push(
+        encodeId(EBML_IDS.Cluster),
+        encodeSize(cluster.dataEnd - cluster.dataStart, 8),
+        blob.slice(cluster.dataStart, cluster.dataEnd)
+      );
+    });
+    parts.push(cues);
+
+    return new Blob(parts, { type: blob.type || 'video/webm' });
+  }
+
+  /**
+   * Walk a cluster's blocks, stopping at its declared end, at the next
+   * top-level element when the size is unknown, or at a cut-off block
+   */
+  private static async scanCluster(
+    reader: BlobWindowReader,
+    dataStart: number,
+    size: number | null,
+    segmentEnd: number
+  ): Promise<ScannedCluster> {
+    const limit = size === null ? segmentEnd : Math.min(segmentEnd, dataStart + size);
+    const cluster: ScannedCluster = { dataStart, dataEnd: dataStart, keyframes: new Map(), lastBlockTime: null };
+    let clusterTimecode = 0;
+    let offset = dataStart;
+
+    while (offset < limit) {
+      const header = await reader.readHeader(offset);
+      if (!header || header.size === null || TOP_LEVEL_IDS.has(header.id)) break;
+
+      const childData = offset + header.headerSize;
+      const childEnd = childData + header.size;
+      if (childEnd > limit) break;
+
+      if (header.id === EBML_IDS.Timecode) {
+        clusterTimecode = readUint(await reader.read(childData, header.size), 0, header.size);
+      } else if (header.id === EBML_IDS.SimpleBlock) {
+        const block = readBlockHeader(await reader.read(childData, MAX_HEADER_SIZE), 0);
+        if (block) {
+          this.recordBlock(cluster, block.trackNumber, clusterTimecode + block.relativeTimecode, block.keyframe);
+        }
+      } else if (header.id === EBML_IDS.BlockGroup) {
+        const group = await reader.read(childData, header.size);
+        const children = readChildren(group);
+        const blockElement = children.find(child => child.id === EBML_IDS.Block);
+        const block = blockElement ? readBlockHeader(group, blockElement.dataOffset) : null;
+        if (block) {
+          // Inside a BlockGroup, a block without references is a keyframe
+          const keyframe = !children.some(child => child.id === EBML_IDS.ReferenceBlock);
+          this.recordBlock(cluster, block.trackNumber, clusterTimecode + block.relativeTimecode, keyframe);
+        }
+      }
+
+      offset = childEnd;
+      cluster.dataEnd = childEnd;
+    }
+
+    return cluster;
+  }
+
+  private static recordBlock(cluster: ScannedCluster, trackNumber: number, time: number, keyframe: boolean): void {
+    if (keyframe && !cluster.keyframes.has(trackNumber)) {
+      cluster.keyframes.set(trackNumber, time);
+    }
+    cluster.lastBlockTime = Math.max(cluster.lastBlockTime ?? 0, time);
+  }
+
+  /**
+   * One cue per cluster, at its first keyframe on the cue track
+   */
+  private static getCueEntries(
+    clusters: ScannedCluster[],
+    clusterPositions: number[],
+    cueTrack: number | null
+  ): CueEntry[] {
+    const entries: CueEntry[] = [];
+
+    clusters.forEach((cluster, index) => {
+      const track = cueTrack ?? cluster.keyframes.keys().next().value;
+      if (track === undefined) return;
+
+      const time = cluster.keyframes.get(track);
+      if (time === undefined) return;
+
+      entries.push({ time, track, clusterPosition: clusterPositions[index] });
+    });
+
+    return entries;
+  }
+}
@@ -0,0 +1,123 @@
+// Writes the WebM fixtures used by the container tests. Run from frontend/:
+//   npx vite-node test/fixtures/generateWebmFixtures.ts
+//
+// The files copy the layout Chrome's MediaRecorder produces: a Segment and
+// Clusters of unknown size, no Duration, no SeekHead and no Cues. Frame
+// payloads are not real VP8 or Opus; each one is
+//   [track number, timestamp high byte, timestamp low byte, keyframe flag, 0xab, 0xcd]
+// so tests can tell which source frame ended up where.
+//
+// recorder.webm           3 s: audio track 1 every 50 ms, VP8 video track 2 every
+//                         100 ms, keyframes and Clusters at 0, 1000 and 2000 ms
+// recorder-truncated.webm recorder.webm missing the last 3 bytes of its final block (audio at 2950 ms)
+
+import { writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { EBML_IDS, encodeElement, encodeFloat64, encodeId, encodeUint, concatBytes } from '../../utils/ebml';
+
+const OUTPUT_DIR = dirname(fileURLToPath(import.meta.url));
+
+// Element IDs only used in headers, so not part of EBML_IDS
+const EBMLVersion = 0x4286;
+const EBMLReadVersion = 0x42f7;
+const EBMLMaxIDLength = 0x42f2;
+const EBMLMaxSizeLength = 0x42f3;
+const DocType = 0x4282;
+const DocTypeVersion = 0x4287;
+const DocTypeReadVersion = 0x4285;
+const MuxingApp = 0x4d80;
+const WritingApp = 0x5741;
+const TrackUID = 0x73c5;
+
+// What MediaRecorder writes for a size it does not know yet
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const AUDIO_TRACK = 1;
+const VIDEO_TRACK = 2;
+const DURATION_MS = 3000;
+const CLUSTER_MS = 1000;
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+function simpleBlock(track: number, relativeTimecode: number, keyframe: boolean, timestamp: number): Uint8Array {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | track;
+  new DataView(header.buffer).setInt16(1, relativeTimecode);
+  header[3] = keyframe ? 0x80 : 0;
+  const payload = new Uint8Array([track, timestamp >> 8, timestamp & 0xff, keyframe ? 1 : 0, 0xab, 0xcd]);
+  return encodeElement(EBML_IDS.SimpleBlock, [header, payload]);
+}
+
+function buildRecorderFile(): Uint8Array {
+  const ebmlHeader = encodeElement(EBML_IDS.EBML, [
+    encodeElement(EBMLVersion, encodeUint(1)),
+    encodeElement(EBMLReadVersion, encodeUint(1)),
+    encodeElement(EBMLMaxIDLength, encodeUint(4)),
+    encodeElement(EBMLMaxSizeLength, encodeUint(8)),
+    encodeElement(DocType, text('webm')),
+    encodeElement(DocTypeVersion, encodeUint(4)),
+    encodeElement(DocTypeReadVersion, encodeUint(2)),
+  ]);
+
+  const info = encodeElement(EBML_IDS.Info, [
+    encodeElement(EBML_IDS.TimecodeScale, encodeUint(1000000)),
+    encodeElement(MuxingApp, text('Chrome')),
+    encodeElement(WritingApp, text('Chrome')),
+  ]);
+
+  const tracks = encodeElement(EBML_IDS.Tracks, [
+    encodeElement(EBML_IDS.TrackEntry, [
+      encodeElement(EBML_IDS.TrackNumber, encodeUint(AUDIO_TRACK)),
+      encodeElement(TrackUID, encodeUint(AUDIO_TRACK)),
+      encodeElement(EBML_IDS.TrackType, encodeUint(2)),
+      encodeElement(EBML_IDS.CodecID, text('A_OPUS')),
+      encodeElement(EBML_IDS.CodecPrivate, concatBytes([text('OpusHead'), new Uint8Array([1, 1, 0x38, 1, 0x80, 0xbb, 0, 0, 0, 0, 0])])),
+      encodeElement(EBML_IDS.Audio, [
+        encodeElement(EBML_IDS.SamplingFrequency, encodeFloat64(48000)),
+        encodeElement(EBML_IDS.Channels, encodeUint(1)),
+      ]),
+    ]),
+    encodeElement(EBML_IDS.TrackEntry, [
+      encodeElement(EBML_IDS.TrackNumber, encodeUint(VIDEO_TRACK)),
+      encodeElement(TrackUID, encodeUint(VIDEO_TRACK)),
+      encodeElement(EBML_IDS.TrackType, encodeUint(1)),
+      encodeElement(EBML_IDS.CodecID, text('V_VP8')),
+      encodeElement(EBML_IDS.Video, [
+        encodeElement(EBML_IDS.PixelWidth, encodeUint(320)),
+        encodeElement(EBML_IDS.PixelHeight, encodeUint(240)),
+      ]),
+    ]),
+  ]);
+
+  const clusters: Uint8Array[] = [];
+  for (let clusterStart = 0; clusterStart < DURATION_MS; clusterStart += CLUSTER_MS) {
+    const blocks: Uint8Array[] = [];
+    for (let time = clusterStart; time < clusterStart + CLUSTER_MS; time += 50) {
+      // Audio goes first at shared timestamps, as MediaRecorder interleaves it
+      blocks.push(simpleBlock(AUDIO_TRACK, time - clusterStart, true, time));
+      if (time % 100 === 0) {
+        blocks.push(simpleBlock(VIDEO_TRACK, time - clusterStart, time === clusterStart, time));
+      }
+    }
+    clusters.push(concatBytes([
+      encodeId(EBML_IDS.Cluster),
+      UNKNOWN_SIZE,
+      encodeElement(EBML_IDS.Timecode, encodeUint(clusterStart)),
+      ...blocks,
+    ]));
+  }
+
+  return concatBytes([
+    ebmlHeader,
+    encodeId(EBML_IDS.Segment),
+    UNKNOWN_SIZE,
+    info,
+    tracks,
+    ...clusters,
+  ]);
+}
+
+const recorder = buildRecorderFile();
+writeFileSync(join(OUTPUT_DIR, 'recorder.webm'), recorder);
+writeFileSync(join(OUTPUT_DIR, 'recorder-truncated.webm'), recorder.subarray(0, recorder.length - 3));
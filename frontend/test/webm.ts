@@ -0,0 +1,129 @@
+// Helpers for the container tests: load fixtures and read finished WebM files back
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  EBML_IDS,
+  EbmlElement,
+  readBlockHeader,
+  readChildren,
+  readElementHeader,
+  readFloat,
+  readUint,
+} from '../utils/ebml';
+
+const FIXTURES_DIR = join(__dirname, 'fixtures');
+
+export function loadFixture(name: string): Blob {
+  return new Blob([readFileSync(join(FIXTURES_DIR, name))], { type: 'video/webm' });
+}
+
+export async function toBytes(blob: Blob): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export interface ParsedBlock {
+  trackNumber: number;
+  /** Absolute time in TimecodeScale units */
+  timestamp: number;
+  keyframe: boolean;
+  /** Frame data without the block header */
+  payload: Uint8Array;
+}
+
+export interface ParsedCluster {
+  /** Offset from the start of the Segment payload */
+  position: number;
+  timecode: number;
+  blocks: ParsedBlock[];
+}
+
+export interface ParsedCue {
+  time: number;
+  track: number;
+  clusterPosition: number;
+}
+
+export interface ParsedWebm {
+  /** Declared Segment payload size; null when unknown */
+  segmentSize: number | null;
+  /** Bytes after the Segment header */
+  segmentPayloadSize: number;
+  /** Top-level elements, with offsets from the start of the Segment payload */
+  elements: EbmlElement[];
+  duration: number | null;
+  clusters: ParsedCluster[];
+  cues: ParsedCue[];
+}
+
+/**
+ * Read a WebM file whose Segment and Clusters all have known sizes, as the
+ * repair and mux output should
+ */
+export function parseWebm(bytes: Uint8Array): ParsedWebm {
+  const ebml = readElementHeader(bytes, 0)!;
+  const segmentOffset = ebml.headerSize + ebml.size!;
+  const segment = readElementHeader(bytes, segmentOffset)!;
+  const payload = bytes.subarray(segmentOffset + segment.headerSize);
+
+  const elements = readChildren(payload);
+  let duration: number | null = null;
+  const clusters: ParsedCluster[] = [];
+  const cues: ParsedCue[] = [];
+
+  elements.forEach(element => {
+    const children = readChildren(payload, element.dataOffset, element.dataOffset + element.size!);
+
+    if (element.id === EBML_IDS.Info) {
+      const durationElement = children.find(child => child.id === EBML_IDS.Duration);
+      if (durationElement) {
+        duration = readFloat(payload, durationElement.dataOffset, durationElement.size!);
+      }
+    } else if (element.id === EBML_IDS.Cluster) {
+      const timecodeElement = children.find(child => child.id === EBML_IDS.Timecode)!;
+      const timecode = readUint(payload, timecodeElement.dataOffset, timecodeElement.size!);
+      const blocks = children
+        .filter(child => child.id === EBML_IDS.SimpleBlock)
+        .map(child => {
+          const header = readBlockHeader(payload, child.dataOffset)!;
+          return {
+            trackNumber: header.trackNumber,
+            timestamp: timecode + header.relativeTimecode,
+            keyframe: header.keyframe,
+            payload: payload.slice(child.dataOffset + header.headerSize, child.dataOffset + child.size!),
+          };
+        });
+      clusters.push({ position: element.offset, timecode, blocks });
+    } else if (element.id === EBML_IDS.Cues) {
+      children.forEach(point => {
+        const fields = readChildren(payload, point.dataOffset, point.dataOffset + point.size!);
+        const time = fields.find(field => field.id === EBML_IDS.CueTime)!;
+        const positions = fields.find(field => field.id === EBML_IDS.CueTrackPositions)!;
+        const positionFields = readChildren(payload, positions.dataOffset, positions.dataOffset + positions.size!);
+        const track = positionFields.find(field => field.id === EBML_IDS.CueTrack)!;
+        const clusterPosition = positionFields.find(field => field.id === EBML_IDS.CueClusterPosition)!;
+        cues.push({
+          time: readUint(payload, time.dataOffset, time.size!),
+          track: readUint(payload, track.dataOffset, track.size!),
+          clusterPosition: readUint(payload, clusterPosition.dataOffset, clusterPosition.size!),
+        });
+      });
+    }
+  });
+
+  return {
+    segmentSize: segment.size,
+    segmentPayloadSize: payload.length,
+    elements,
+    duration,
+    clusters,
+    cues,
+  };
+}
+
+/**
+ * The source timestamp written into a fixture frame's payload
+ */
+export function sourceTime(block: { payload: Uint8Array }): number {
+  return (block.payload[1] << 8) | block.payload[2];
+}
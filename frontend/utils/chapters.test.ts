@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildChapterDescription, getChapterWarning } from './chapters';
+import { buildVideoResource } from './videoMetadata';
+import { ChapterMarker } from '../contexts/RecordingContext';
+import { VIDEO_METADATA_CONFIG } from '../config';
+
+function markers(...timestamps: number[]): ChapterMarker[] {
+  return timestamps.map((timestamp, index) => ({ id: `marker-${index}`, label: `Part ${index + 1}`, timestamp }));
+}
+
+describe('buildChapterDescription', () => {
+  it('drops chapters within ten seconds of the end of the video', () => {
+    expect(buildChapterDescription(markers(0, 20000, 40000, 55000), 60000)).toBe('0:00 Part 1\n0:20 Part 2\n0:40 Part 3');
+  });
+
+  it('keeps chapters near the end when the length is unknown', () => {
+    expect(buildChapterDescription(markers(0, 20000, 55000))).toBe('0:00 Part 1\n0:20 Part 2\n0:55 Part 3');
+  });
+});
+
+describe('buildVideoResource', () => {
+  it('uses the video length when adding chapters to the description', () => {
+    const resource = buildVideoResource('Demo', 'private', undefined, markers(0, 20000, 40000, 55000), 60000);
+
+    expect(resource.snippet?.description).toBe('0:00 Part 1\n0:20 Part 2\n0:40 Part 3');
+  });
+
+  it('leaves out the last chapters when they would make the description too long', () => {
+    // Room for the separator and the first two chapter lines, not the third
+    const text = 'x'.repeat(VIDEO_METADATA_CONFIG.maxDescriptionLength - '\n\n0:00 Part 1\n0:20 Part 2'.length);
+    const metadata = { description: text, tags: [], categoryId: '22', defaultLanguage: '', madeForKids: false, playlistId: '' };
+    const resource = buildVideoResource('Demo', 'private', metadata, markers(0, 20000, 40000), 60000);
+
+    expect(resource.snippet?.description).toBe(`${text}\n\n0:00 Part 1\n0:20 Part 2`);
+  });
+
+  it('keeps angle brackets out of chapter titles', () => {
+    const resource = buildVideoResource('Demo', 'private', undefined, [{ id: 'marker-0', label: '<Setup>', timestamp: 0 }]);
+
+    expect(resource.snippet?.description).toBe('0:00 Setup');
+  });
+});
+
+describe('getChapterWarning', () => {
+  it('says nothing when every marker becomes a chapter', () => {
+    expect(getChapterWarning(markers(0, 20000, 40000), 60000)).toBeNull();
+    expect(getChapterWarning([], 60000)).toBeNull();
+  });
+
+  it('warns when there are too few chapters for YouTube to show', () => {
+    expect(getChapterWarning(markers(0, 20000), 60000)).toMatch(/at least 3 chapters/);
+  });
+
+  it('counts the markers that will be left out', () => {
+    expect(getChapterWarning(markers(0, 5000, 20000, 40000, 55000), 60000)).toMatch(/^2 chapters are within 10 seconds/);
+  });
+
+  it('warns when chapters do not fit after the description', () => {
+    const text = 'x'.repeat(VIDEO_METADATA_CONFIG.maxDescriptionLength - 20);
+
+    expect(getChapterWarning(markers(0, 20000, 40000), 60000, text)).toMatch(/^2 chapters do not fit in the description/);
+  });
+});
@@ -0,0 +1,151 @@
+// Helpers for turning recording markers into YouTube chapters
+
+import { ChapterMarker, EditRange } from '../contexts/RecordingContext';
+import { formatDuration } from './formatters';
+import { mapTimeToEdit } from './editDecisionList';
+import { VIDEO_METADATA_CONFIG } from '../config';
+
+// YouTube only shows chapters when the list starts at 0:00, has at least
+// three entries and every chapter is at least ten seconds long
+const MIN_CHAPTER_LENGTH_MS = 10000;
+const MIN_CHAPTER_COUNT = 3;
+
+// Between the written description and the chapter block
+const CHAPTER_SEPARATOR = '\n\n';
+
+interface Chapter {
+  timestamp: number;
+  label: string;
+  /** The marker this chapter came from; missing for the added intro */
+  markerId?: string;
+}
+
+/**
+ * Pick the chapters YouTube will accept from the markers
+ * @param markers - Markers in any order, timestamps in milliseconds
+ * @param videoDurationMs - Length of the uploaded video, used to drop markers too close to the end
+ */
+function buildChapters(markers: ChapterMarker[], videoDurationMs?: number): Chapter[] {
+  const sorted = [...markers]
+    .filter(marker => marker.timestamp >= 0)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  const chapters: Chapter[] = [];
+
+  if (sorted[0].timestamp >= MIN_CHAPTER_LENGTH_MS) {
+    chapters.push({ timestamp: 0, label: 'Intro' });
+  }
+
+  sorted.forEach(marker => {
+    // YouTube rejects descriptions containing angle brackets
+    const label = marker.label.replace(/[<>]/g, '').trim() || 'Chapter';
+    const previous = chapters[chapters.length - 1];
+
+    if (!previous) {
+      // A marker dropped in the first few seconds becomes the opening chapter
+      chapters.push({ timestamp: 0, label, markerId: marker.id });
+    } else if (marker.timestamp - previous.timestamp >= MIN_CHAPTER_LENGTH_MS &&
+               (videoDurationMs === undefined || videoDurationMs - marker.timestamp >= MIN_CHAPTER_LENGTH_MS)) {
+      chapters.push({ timestamp: marker.timestamp, label, markerId: marker.id });
+    }
+  });
+
+  return chapters;
+}
+
+function formatChapter(chapter: Chapter): string {
+  return `${formatDuration(chapter.timestamp)} ${chapter.label}`;
+}
+
+/**
+ * Keep the chapters that fit after the description within YouTube's limit.
+ * Later chapters are dropped first, so the earlier ones still start at 0:00.
+ */
+function fitChapters(chapters: Chapter[], description: string): Chapter[] {
+  let room = VIDEO_METADATA_CONFIG.maxDescriptionLength -
+    (description ? description.length + CHAPTER_SEPARATOR.length : 0);
+
+  const fitted: Chapter[] = [];
+  for (const chapter of chapters) {
+    room -= formatChapter(chapter).length + (fitted.length > 0 ? 1 : 0);
+    if (room < 0) {
+      break;
+    }
+    fitted.push(chapter);
+  }
+  return fitted;
+}
+
+/**
+ * Build the chapter block for a video description
+ * @param markers - Markers in any order, timestamps in milliseconds
+ * @param videoDurationMs - Length of the uploaded video, used to drop markers too close to the end
+ * @returns string - One "m:ss Label" line per chapter, or an empty string if there are no usable markers
+ */
+export function buildChapterDescription(markers: ChapterMarker[], videoDurationMs?: number): string {
+  return buildChapters(markers, videoDurationMs).map(formatChapter).join('\n');
+}
+
+/**
+ * Add the chapter block after the written description, leaving out the
+ * chapters that would take it past YouTube's length limit
+ * @param description - The description from the details form
+ * @param markers - Markers relative to the uploaded video
+ * @param videoDurationMs - Length of the uploaded video, used to drop markers too close to the end
+ */
+export function appendChapterDescription(description: string, markers: ChapterMarker[], videoDurationMs?: number): string {
+  const text = description.trim();
+  const chapters = fitChapters(buildChapters(markers, videoDurationMs), text);
+  return [text, chapters.map(formatChapter).join('\n')].filter(Boolean).join(CHAPTER_SEPARATOR);
+}
+
+/**
+ * Explain which markers will not show on YouTube as chapters
+ * @param markers - Markers relative to the uploaded video
+ * @param videoDurationMs - Length of the uploaded video
+ * @param description - The description the chapters are added to
+ * @returns string | null - A message for the user, or null if every marker becomes a chapter
+ */
+export function getChapterWarning(markers: ChapterMarker[], videoDurationMs?: number, description = ''): string | null {
+  if (markers.length === 0) {
+    return null;
+  }
+
+  const usable = buildChapters(markers, videoDurationMs);
+  const chapters = fitChapters(usable, description.trim());
+  const overflow = usable.length - chapters.length;
+  if (overflow > 0) {
+    return `${overflow} ${overflow === 1 ? 'chapter does' : 'chapters do'} not fit in the description's ` +
+      `${VIDEO_METADATA_CONFIG.maxDescriptionLength} characters and will be left out. Shorten the description to keep them.`;
+  }
+
+  if (chapters.length < MIN_CHAPTER_COUNT) {
+    return `YouTube needs at least ${MIN_CHAPTER_COUNT} chapters, each ${MIN_CHAPTER_LENGTH_MS / 1000} seconds or longer, ` +
+      'to show them. These are added to the description as plain timestamps.';
+  }
+
+  const dropped = markers.length - chapters.filter(chapter => chapter.markerId).length;
+  if (dropped > 0) {
+    return `${dropped} ${dropped === 1 ? 'chapter is' : 'chapters are'} within ${MIN_CHAPTER_LENGTH_MS / 1000} seconds ` +
+      'of the previous chapter or the end of the video, and will be left out.';
+  }
+
+  return null;
+}
+
+/**
+ * Move markers onto the edited video, dropping the ones that were cut
+ * @param markers - Markers relative to the original recording
+ * @param keepRanges - Ranges of the recording kept by the edit, in order
+ * @returns ChapterMarker[] - Markers relative to the edited video
+ */
+export function mapMarkersToEdit(markers: ChapterMarker[], keepRanges: EditRange[]): ChapterMarker[] {
+  return markers.flatMap(marker => {
+    const timestamp = mapTimeToEdit(marker.timestamp, keepRanges);
+    return timestamp === null ? [] : [{ ...marker, timestamp }];
+  });
+}
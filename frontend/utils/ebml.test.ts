@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EBML_IDS,
+  encodeElement,
+  encodeSize,
+  readChildren,
+  readElementHeader,
+  readVint,
+} from './ebml';
+import { loadFixture, toBytes } from '../test/webm';
+
+describe('readVint', () => {
+  it('reads values of each length, dropping the length marker', () => {
+    expect(readVint(new Uint8Array([0x81]), 0)).toEqual({ value: 1, length: 1 });
+    expect(readVint(new Uint8Array([0x40, 0x02]), 0)).toEqual({ value: 2, length: 2 });
+    expect(readVint(new Uint8Array([0x21, 0x00, 0x00]), 0)).toEqual({ value: 0x10000, length: 3 });
+    expect(readVint(new Uint8Array([0x01, 0, 0, 0, 0, 0, 0x01, 0x00]), 0)).toEqual({ value: 256, length: 8 });
+  });
+
+  it('reads at an offset', () => {
+    expect(readVint(new Uint8Array([0xff, 0x42, 0x86]), 1)).toEqual({ value: 0x0286, length: 2 });
+  });
+
+  it('reports all value bits set as an unknown size', () => {
+    expect(readVint(new Uint8Array([0xff]), 0)).toEqual({ value: null, length: 1 });
+    expect(readVint(new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]), 0)).toEqual({ value: null, length: 8 });
+  });
+
+  it('returns null when the bytes run out or there is no length marker', () => {
+    expect(readVint(new Uint8Array([0x40]), 0)).toBeNull();
+    expect(readVint(new Uint8Array([0x81]), 1)).toBeNull();
+    expect(readVint(new Uint8Array([0x00, 0x01]), 0)).toBeNull();
+  });
+});
+
+describe('readElementHeader', () => {
+  it('reads the EBML header and unknown-size Segment of a MediaRecorder file', async () => {
+    const bytes = await toBytes(loadFixture('recorder.webm'));
+
+    const ebml = readElementHeader(bytes, 0);
+    expect(ebml).toEqual({ id: EBML_IDS.EBML, size: 31, headerSize: 5 });
+
+    const segment = readElementHeader(bytes, ebml!.headerSize + ebml!.size!);
+    expect(segment).toEqual({ id: EBML_IDS.Segment, size: null, headerSize: 12 });
+  });
+
+  it('returns null for a header cut off by the end of the buffer', () => {
+    expect(readElementHeader(new Uint8Array([0x1a, 0x45, 0xdf]), 0)).toBeNull();
+    expect(readElementHeader(new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x40]), 0)).toBeNull();
+  });
+
+  it('lists the complete children of a payload', async () => {
+    const bytes = await toBytes(loadFixture('recorder.webm'));
+    const ebml = readElementHeader(bytes, 0)!;
+
+    const children = readChildren(bytes, ebml.headerSize, ebml.headerSize + ebml.size!);
+    expect(children.map(child => child.id)).toEqual([0x4286, 0x42f7, 0x42f2, 0x42f3, 0x4282, 0x4287, 0x4285]);
+    const docType = children[4];
+    expect(new TextDecoder().decode(bytes.subarray(docType.dataOffset, docType.dataOffset + docType.size!))).toBe('webm');
+  });
+});
+
+describe('encodeSize', () => {
+  it('uses the shortest length that does not collide with the unknown marker', () => {
+    expect(Array.from(encodeSize(0))).toEqual([0x80]);
+    expect(Array.from(encodeSize(126))).toEqual([0xfe]);
+    expect(Array.from(encodeSize(127))).toEqual([0x40, 0x7f]);
+    expect(Array.from(encodeSize(0x3ffe))).toEqual([0x7f, 0xfe]);
+    expect(Array.from(encodeSize(0x3fff))).toEqual([0x20, 0x3f, 0xff]);
+  });
+
+  it('pads to a fixed length so a size can be patched in place', () => {
+    expect(Array.from(encodeSize(5, 8))).toEqual([0x01, 0, 0, 0, 0, 0, 0, 5]);
+  });
+
+  it('rejects a size that does not fit the fixed length', () => {
+    expect(() => encodeSize(127, 1)).toThrow(RangeError);
+  });
+
+  it('round-trips through readVint', () => {
+    [0, 1, 126, 127, 300, 0x3fff, 1234567, 2 ** 40].forEach(size => {
+      const bytes = encodeSize(size);
+      expect(readVint(bytes, 0)).toEqual({ value: size, length: bytes.length });
+    });
+  });
+});
+
+describe('encodeElement', () => {
+  it('writes the ID, the payload size and the payload', () => {
+    expect(Array.from(encodeElement(EBML_IDS.Timecode, new Uint8Array([0x03, 0xe8])))).toEqual([0xe7, 0x82, 0x03, 0xe8]);
+  });
+
+  it('concatenates child elements into one payload', () => {
+    const element = encodeElement(EBML_IDS.Cluster, [
+      encodeElement(EBML_IDS.Timecode, new Uint8Array([0])),
+      encodeElement(EBML_IDS.Void, new Uint8Array(0)),
+    ]);
+
+    expect(Array.from(element)).toEqual([0x1f, 0x43, 0xb6, 0x75, 0x85, 0xe7, 0x81, 0x00, 0xec, 0x80]);
+    const header = readElementHeader(element, 0)!;
+    expect(readChildren(element, header.headerSize).map(child => child.id)).toEqual([EBML_IDS.Timecode, EBML_IDS.Void]);
+  });
+});
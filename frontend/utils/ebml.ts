@@ -0,0 +1,267 @@
+// Minimal EBML (Matroska / WebM) primitives: enough to walk a MediaRecorder
+// file and write WebM back out
+
+export const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Chapters: 0x1043a770,
+  Tags: 0x1254c367,
+  Attachments: 0x1941a469,
+  Void: 0xec,
+} as const;
+
+/** Matroska TrackType values */
+export const TRACK_TYPE_VIDEO = 1;
+export const TRACK_TYPE_AUDIO = 2;
+
+/** Default TimecodeScale: timestamps are in milliseconds */
+export const DEFAULT_TIMECODE_SCALE = 1000000;
+
+/** Longest possible element header: 4-byte ID plus 8-byte size */
+export const MAX_HEADER_SIZE = 12;
+
+export interface EbmlElementHeader {
+  id: number;
+  /** Payload size in bytes, or null when the writer left it unknown (live streams) */
+  size: number | null;
+  /** Length of the ID and size fields together */
+  headerSize: number;
+}
+
+export interface EbmlElement extends EbmlElementHeader {
+  /** Offset of the element's first header byte */
+  offset: number;
+  /** Offset of the first payload byte */
+  dataOffset: number;
+}
+
+export interface BlockHeader {
+  trackNumber: number;
+  /** Signed offset from the cluster timecode, in TimecodeScale units */
+  relativeTimecode: number;
+  keyframe: boolean;
+  /** Flags byte: lacing and invisibility bits are shared by Block and SimpleBlock */
+  flags: number;
+  /** Bytes taken by the track number, timecode and flags */
+  headerSize: number;
+}
+
+function vintLength(firstByte: number, maxLength: number): number {
+  for (let length = 1; length <= maxLength; length++) {
+    if (firstByte & (0x80 >> (length - 1))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Read an element ID, which keeps its length marker bits
+ * @returns The ID and its byte length, or null if the bytes run out or the ID is invalid
+ */
+export function readElementId(bytes: Uint8Array, offset: number): { id: number; length: number } | null {
+  if (offset >= bytes.length) return null;
+
+  const length = vintLength(bytes[offset], 4);
+  if (length === 0 || offset + length > bytes.length) return null;
+
+  let id = 0;
+  for (let i = 0; i < length; i++) {
+    id = id * 256 + bytes[offset + i];
+  }
+  return { id, length };
+}
+
+/**
+ * Read a variable-length integer such as an element size
+ * @returns The value (null when every value bit is set, meaning "unknown") and its byte length,
+ *          or null if the bytes run out or the integer is invalid
+ */
+export function readVint(bytes: Uint8Array, offset: number): { value: number | null; length: number } | null {
+  if (offset >= bytes.length) return null;
+
+  const length = vintLength(bytes[offset], 8);
+  if (length === 0 || offset + length > bytes.length) return null;
+
+  let value = bytes[offset] & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    const byte = bytes[offset + i];
+    value = value * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+
+  return { value: allOnes ? null : value, length };
+}
+
+/**
+ * Read an element's ID and size
+ * @returns The header, or null if it is cut off by the end of the buffer
+ */
+export function readElementHeader(bytes: Uint8Array, offset: number): EbmlElementHeader | null {
+  const id = readElementId(bytes, offset);
+  if (!id) return null;
+
+  const size = readVint(bytes, offset + id.length);
+  if (!size) return null;
+
+  return { id: id.id, size: size.value, headerSize: id.length + size.length };
+}
+
+/**
+ * List the complete child elements in a buffer holding a master element's payload
+ */
+export function readChildren(bytes: Uint8Array, start: number = 0, end: number = bytes.length): EbmlElement[] {
+  const children: EbmlElement[] = [];
+  let offset = start;
+
+  while (offset < end) {
+    const header = readElementHeader(bytes, offset);
+    if (!header || header.size === null) break;
+
+    const dataOffset = offset + header.headerSize;
+    if (dataOffset + header.size > end) break;
+
+    children.push({ ...header, offset, dataOffset });
+    offset = dataOffset + header.size;
+  }
+
+  return children;
+}
+
+export function readUint(bytes: Uint8Array, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+  }
+  return value;
+}
+
+export function readFloat(bytes: Uint8Array, offset: number, length: number): number {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, length);
+  if (length === 4) return view.getFloat32(0);
+  if (length === 8) return view.getFloat64(0);
+  return 0;
+}
+
+/**
+ * Read the fixed header at the start of a SimpleBlock or Block payload
+ * @returns The header, or null if the bytes run out
+ */
+export function readBlockHeader(bytes: Uint8Array, offset: number): BlockHeader | null {
+  const track = readVint(bytes, offset);
+  if (!track || track.value === null) return null;
+
+  const timecodeOffset = offset + track.length;
+  if (timecodeOffset + 3 > bytes.length) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + timecodeOffset, 3);
+  const flags = view.getUint8(2);
+  return {
+    trackNumber: track.value,
+    relativeTimecode: view.getInt16(0),
+    keyframe: (flags & 0x80) !== 0,
+    flags,
+    headerSize: track.length + 3,
+  };
+}
+
+export function encodeId(id: number): Uint8Array<ArrayBuffer> {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  return encodeBigEndian(id, length);
+}
+
+/**
+ * Encode an element size
+ * @param size - Payload size in bytes
+ * @param length - Fixed byte length; 8 lets a size be patched in place without moving data
+ */
+export function encodeSize(size: number, length?: number): Uint8Array<ArrayBuffer> {
+  let byteLength = length ?? 1;
+  // The all-ones value is reserved for "unknown", hence the strict comparison
+  while (length === undefined && size >= 2 ** (7 * byteLength) - 1) {
+    byteLength++;
+  }
+
+  if (byteLength > 8 || size >= 2 ** (7 * byteLength) - 1) {
+    throw new RangeError(`EBML size ${size} does not fit in ${byteLength} bytes`);
+  }
+
+  const bytes = encodeBigEndian(size, byteLength);
+  bytes[0] |= 0x80 >> (byteLength - 1);
+  return bytes;
+}
+
+/**
+ * Encode an unsigned integer payload
+ * @param length - Fixed byte length, so the element size does not depend on the value
+ */
+export function encodeUint(value: number, length?: number): Uint8Array<ArrayBuffer> {
+  let byteLength = length ?? 1;
+  while (length === undefined && byteLength < 8 && value >= 2 ** (8 * byteLength)) {
+    byteLength++;
+  }
+  return encodeBigEndian(value, byteLength);
+}
+
+export function encodeFloat64(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+export function encodeElement(id: number, payload: Uint8Array | Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const data = Array.isArray(payload) ? concatBytes(payload) : payload;
+  return concatBytes([encodeId(id), encodeSize(data.length), data]);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
+
+function encodeBigEndian(value: number, length: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
@@ -0,0 +1,98 @@
+// Edit decision list helpers. An EDL is stored as the ranges cut out of the
+// recording; the ranges that are kept are derived from it.
+
+import { EditRange } from '../contexts/RecordingContext';
+
+// Cuts shorter than this are treated as accidental clicks
+const MIN_CUT_MS = 100;
+
+/**
+ * Clamp cuts to the recording, drop tiny ones and merge overlaps
+ * @param cuts - Ranges to remove, in milliseconds, in any order
+ * @param durationMs - Length of the recording
+ * @returns EditRange[] - Sorted, non-overlapping cuts
+ */
+export function normalizeCuts(cuts: EditRange[], durationMs: number): EditRange[] {
+  const sorted = cuts
+    .map(cut => ({
+      start: Math.max(0, Math.min(cut.start, cut.end)),
+      end: Math.min(durationMs, Math.max(cut.start, cut.end)),
+    }))
+    .filter(cut => cut.end - cut.start >= MIN_CUT_MS)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: EditRange[] = [];
+  sorted.forEach(cut => {
+    const previous = merged[merged.length - 1];
+    if (previous && cut.start <= previous.end) {
+      previous.end = Math.max(previous.end, cut.end);
+    } else {
+      merged.push({ ...cut });
+    }
+  });
+
+  return merged;
+}
+
+export function addCut(cuts: EditRange[], cut: EditRange, durationMs: number): EditRange[] {
+  return normalizeCuts([...cuts, cut], durationMs);
+}
+
+/**
+ * Cut everything outside a range, replacing any existing cuts
+ */
+export function keepOnly(range: EditRange, durationMs: number): EditRange[] {
+  return normalizeCuts([
+    { start: 0, end: range.start },
+    { start: range.end, end: durationMs },
+  ], durationMs);
+}
+
+/**
+ * The ranges left after applying the cuts, in source time
+ */
+export function getKeepRanges(cuts: EditRange[], durationMs: number): EditRange[] {
+  const keep: EditRange[] = [];
+  let position = 0;
+
+  normalizeCuts(cuts, durationMs).forEach(cut => {
+    if (cut.start > position) {
+      keep.push({ start: position, end: cut.start });
+    }
+    position = cut.end;
+  });
+
+  if (position < durationMs) {
+    keep.push({ start: position, end: durationMs });
+  }
+
+  return keep;
+}
+
+export function getEditedDuration(cuts: EditRange[], durationMs: number): number {
+  return getKeepRanges(cuts, durationMs).reduce((total, range) => total + range.end - range.start, 0);
+}
+
+/**
+ * Find where a point in the source recording lands in the edited output
+ * @returns The output time in milliseconds, or null if the point was cut
+ */
+export function mapTimeToEdit(timeMs: number, keepRanges: EditRange[]): number | null {
+  let outputOffset = 0;
+
+  for (const range of keepRanges) {
+    if (timeMs >= range.start && timeMs < range.end) {
+      return outputOffset + timeMs - range.start;
+    }
+    outputOffset += range.end - range.start;
+  }
+
+  return null;
+}
+
+/**
+ * Find the cut containing a point, so playback can jump over it
+ */
+export function findCutAt(timeMs: number, cuts: EditRange[]): EditRange | null {
+  return cuts.find(cut => timeMs >= cut.start && timeMs < cut.end) ?? null;
+}
@@ -72,5 +72,6 @@ export function getFileExtension(mimeType: string): string {
     'video/mov': 'mov',
   };
   
-  return mimeMap[mimeType] || 'webm';
+  // Recorder mime types carry codec parameters, e.g. video/webm;codecs=vp9,opus
+  return mimeMap[mimeType.split(';')[0].trim()] || 'webm';
 }
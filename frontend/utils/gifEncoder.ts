@@ -0,0 +1,173 @@
+// Animated GIF writer with a fixed palette. Screen recordings are mostly flat
+// UI colors and greys, which a 6x6x6 colour cube plus a grey ramp covers
+// without per-frame quantization.
+
+const CUBE_LEVELS = 6;
+const GREY_LEVELS = 40;
+// Pixels whose channels differ by less than this are drawn from the grey ramp
+const GREY_TOLERANCE = 12;
+const MAX_CODES = 4096;
+
+function buildPalette(): Uint8Array<ArrayBuffer> {
+  const palette = new Uint8Array(256 * 3);
+  let index = 0;
+
+  for (let r = 0; r < CUBE_LEVELS; r++) {
+    for (let g = 0; g < CUBE_LEVELS; g++) {
+      for (let b = 0; b < CUBE_LEVELS; b++) {
+        palette.set([r * 51, g * 51, b * 51], index * 3);
+        index++;
+      }
+    }
+  }
+
+  for (let i = 0; i < GREY_LEVELS; i++) {
+    const level = Math.round((i * 255) / (GREY_LEVELS - 1));
+    palette.set([level, level, level], index * 3);
+    index++;
+  }
+
+  return palette;
+}
+
+function toPaletteIndices(rgba: Uint8ClampedArray): Uint8Array {
+  const indices = new Uint8Array(rgba.length / 4);
+  const cubeSize = CUBE_LEVELS * CUBE_LEVELS * CUBE_LEVELS;
+
+  for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+    const r = rgba[p];
+    const g = rgba[p + 1];
+    const b = rgba[p + 2];
+
+    if (Math.max(r, g, b) - Math.min(r, g, b) < GREY_TOLERANCE) {
+      const grey = (r + g + b) / 3;
+      indices[i] = cubeSize + Math.round((grey * (GREY_LEVELS - 1)) / 255);
+    } else {
+      indices[i] = Math.round(r / 51) * 36 + Math.round(g / 51) * 6 + Math.round(b / 51);
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Compress palette indices with GIF's variable-width LZW
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array<ArrayBuffer> {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const writeCode = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writeCode(clearCode);
+  let prefix = indices[0];
+
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    writeCode(prefix);
+    if (nextCode === MAX_CODES) {
+      writeCode(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) {
+        codeSize++;
+      }
+      dictionary.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+
+  writeCode(prefix);
+  writeCode(endCode);
+  if (bitCount > 0) {
+    output.push(bitBuffer & 0xff);
+  }
+
+  return Uint8Array.from(output);
+}
+
+/**
+ * Split data into the length-prefixed sub-blocks GIF uses, ending with an empty one
+ */
+function toSubBlocks(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const blockCount = Math.ceil(data.length / 255);
+  const result = new Uint8Array(data.length + blockCount + 1);
+  let offset = 0;
+
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    result[offset++] = block.length;
+    result.set(block, offset);
+    offset += block.length;
+  }
+
+  return result;
+}
+
+const le16 = (value: number) => [value & 0xff, (value >> 8) & 0xff];
+
+export class GifEncoder {
+  private parts: BlobPart[] = [];
+
+  constructor(private width: number, private height: number) {
+    this.parts.push(
+      new Uint8Array([
+        ...'GIF89a'.split('').map(char => char.charCodeAt(0)),
+        ...le16(width), ...le16(height),
+        // Global colour table of 256 entries, 8 bits per channel
+        0xf7, 0, 0,
+      ]),
+      buildPalette(),
+      // Loop forever
+      new Uint8Array([
+        0x21, 0xff, 0x0b,
+        ...'NETSCAPE2.0'.split('').map(char => char.charCodeAt(0)),
+        0x03, 0x01, 0, 0, 0,
+      ]),
+    );
+  }
+
+  /**
+   * Append a full frame
+   * @param rgba - Pixels from getImageData, width x height
+   * @param delayMs - How long the frame is shown
+   */
+  addFrame(rgba: Uint8ClampedArray, delayMs: number): void {
+    const delay = Math.max(2, Math.round(delayMs / 10));
+
+    this.parts.push(
+      // Graphic control extension: frame delay in hundredths of a second
+      new Uint8Array([0x21, 0xf9, 0x04, 0x04, ...le16(delay), 0, 0]),
+      // Image descriptor covering the whole canvas
+      new Uint8Array([0x2c, 0, 0, 0, 0, ...le16(this.width), ...le16(this.height), 0]),
+      new Uint8Array([8]),
+      toSubBlocks(lzwEncode(toPaletteIndices(rgba), 8)),
+    );
+  }
+
+  finish(): Blob {
+    return new Blob([...this.parts, new Uint8Array([0x3b])], { type: 'image/gif' });
+  }
+}
@@ -0,0 +1,164 @@
+// Click ripples and the keystroke HUD, burned into recordings of this tab
+
+import { EditRange, InteractionEvent } from '../contexts/RecordingContext';
+import { InteractionOverlaySettings } from '../contexts/AppContext';
+import { INTERACTION_CONFIG } from '../config';
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock']);
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  'Escape': 'Esc',
+  'ArrowUp': '↑',
+  'ArrowDown': '↓',
+  'ArrowLeft': '←',
+  'ArrowRight': '→',
+  'Backspace': '⌫',
+  'Delete': 'Del',
+  'PageUp': 'PgUp',
+  'PageDown': 'PgDn',
+};
+
+/**
+ * Label a key press for the HUD, such as "Ctrl+S" or "Enter". Keys pressed
+ * with Ctrl, Alt or Cmd and keys that type nothing count as shortcuts.
+ * @param includeTyping - Also label plain characters; otherwise only shortcuts
+ * @returns The label, or null if the press should not be kept
+ */
+export function formatKeystroke(event: KeyboardEvent, includeTyping: boolean): { keys: string; shortcut: boolean } | null {
+  if (event.repeat || MODIFIER_KEYS.has(event.key)) return null;
+  // Never keep what is typed into a password field
+  if (event.target instanceof HTMLInputElement && event.target.type === 'password') return null;
+
+  const isCharacter = event.key.length === 1;
+  const hasCommandModifier = event.ctrlKey || event.altKey || event.metaKey;
+  if (isCharacter && !hasCommandModifier && !includeTyping) return null;
+
+  const key = KEY_LABELS[event.key] ?? (isCharacter ? event.key.toUpperCase() : event.key);
+  if (isCharacter && !hasCommandModifier) {
+    // Typed text reads better as typed, apart from the space bar
+    return { keys: event.key === ' ' ? key : event.key, shortcut: false };
+  }
+
+  const keys = [
+    event.ctrlKey && 'Ctrl',
+    event.altKey && 'Alt',
+    event.shiftKey && !isCharacter && 'Shift',
+    event.metaKey && 'Cmd',
+    key,
+  ].filter(Boolean).join('+');
+  return { keys, shortcut: true };
+}
+
+function isShown(event: InteractionEvent, style: InteractionOverlaySettings): boolean {
+  if (event.type === 'click') return style.showClicks;
+  return style.keystrokes === 'all' || (style.keystrokes === 'shortcuts' && event.shortcut);
+}
+
+/**
+ * The stretches of the recording that carry a ripple or the HUD, so only
+ * those frames need to be re-encoded
+ */
+export function getInteractionSpans(events: InteractionEvent[], style: InteractionOverlaySettings): EditRange[] {
+  return events
+    .filter(event => isShown(event, style))
+    .map(event => ({
+      start: event.timestamp,
+      end: event.timestamp + (event.type === 'click'
+        ? INTERACTION_CONFIG.rippleDurationMs
+        : INTERACTION_CONFIG.keystrokeDurationMs),
+    }));
+}
+
+/**
+ * Draw the ripples and key presses visible at a point in time over a frame
+ * already on the canvas. Clicks are placed by their share of the viewport,
+ * which is the whole frame in a recording of this tab.
+ * @param ctx - Canvas holding the frame
+ * @param events - Every recorded click and key press
+ * @param style - Which visuals to draw and how
+ * @param timeMs - Position of the frame in the recorded video
+ */
+export function drawInteractions(
+  ctx: CanvasRenderingContext2D,
+  events: InteractionEvent[],
+  style: InteractionOverlaySettings,
+  timeMs: number
+): void {
+  const { width, height } = ctx.canvas;
+  const recent = events.filter(event => isShown(event, style) && event.timestamp <= timeMs);
+
+  ctx.save();
+
+  recent.forEach(event => {
+    if (event.type !== 'click') return;
+    const progress = (timeMs - event.timestamp) / INTERACTION_CONFIG.rippleDurationMs;
+    if (progress >= 1) return;
+
+    const radius = height * (INTERACTION_CONFIG.rippleStartRadius +
+      (INTERACTION_CONFIG.rippleEndRadius - INTERACTION_CONFIG.rippleStartRadius) * progress);
+    ctx.globalAlpha = 1 - progress;
+    ctx.strokeStyle = style.clickColor;
+    ctx.fillStyle = style.clickColor;
+    ctx.lineWidth = Math.max(2, height * 0.004);
+    ctx.beginPath();
+    ctx.arc(event.x * width, event.y * height, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.globalAlpha = (1 - progress) * 0.3;
+    ctx.fill();
+  });
+
+  const keystrokes = recent
+    .filter(event => event.type === 'keystroke' && timeMs - event.timestamp < INTERACTION_CONFIG.keystrokeDurationMs)
+    .slice(-INTERACTION_CONFIG.maxKeystrokes);
+  if (keystrokes.length > 0) {
+    drawKeystrokeHud(ctx, keystrokes, style, timeMs);
+  }
+
+  ctx.restore();
+}
+
+function drawKeystrokeHud(
+  ctx: CanvasRenderingContext2D,
+  keystrokes: InteractionEvent[],
+  style: InteractionOverlaySettings,
+  timeMs: number
+): void {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(height * INTERACTION_CONFIG.keystrokeFontScale);
+  const padding = Math.round(fontSize * 0.5);
+  const gap = Math.round(fontSize * 0.3);
+  const margin = Math.round(height * 0.05);
+
+  ctx.font = `600 ${fontSize}px ${FONT_FAMILY}`;
+  ctx.textBaseline = 'middle';
+
+  const labels = keystrokes.map(event => event.type === 'keystroke' ? event.keys : '');
+  const widths = labels.map(label => ctx.measureText(label).width + padding * 2);
+  const totalWidth = widths.reduce((total, w) => total + w, 0) + gap * (labels.length - 1);
+  const boxHeight = fontSize + padding * 2;
+  const y = height - margin - boxHeight;
+
+  let x = style.keystrokePosition === 'bottom-left'
+    ? margin
+    : style.keystrokePosition === 'bottom-right'
+      ? width - margin - totalWidth
+      : (width - totalWidth) / 2;
+
+  keystrokes.forEach((event, index) => {
+    // Each key fades over the last quarter of its time on screen
+    const age = (timeMs - event.timestamp) / INTERACTION_CONFIG.keystrokeDurationMs;
+    ctx.globalAlpha = age < 0.75 ? 1 : (1 - age) * 4;
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.beginPath();
+    ctx.roundRect(x, y, widths[index], boxHeight, padding);
+    ctx.fill();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(labels[index], x + padding, y + boxHeight / 2);
+    x += widths[index] + gap;
+  });
+}
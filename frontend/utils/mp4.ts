@@ -0,0 +1,60 @@
+// Minimal ISO BMFF (MP4) primitives: enough to write a progressive MP4 file
+// around frames copied from another container
+
+import { concatBytes } from './ebml';
+
+export function u8(value: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([value & 0xff]);
+}
+
+export function u16(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+}
+
+export function u24(value: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+export function u32(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+}
+
+export function u64(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setBigUint64(0, BigInt(Math.max(0, Math.round(value))));
+  return bytes;
+}
+
+export function zeros(length: number): Uint8Array<ArrayBuffer> {
+  return new Uint8Array(length);
+}
+
+/**
+ * Encode a four-character code such as a box type
+ */
+export function fourCC(code: string): Uint8Array<ArrayBuffer> {
+  return new Uint8Array([...code].map(char => char.charCodeAt(0)));
+}
+
+export function box(type: string, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const body = concatBytes(payload);
+  return concatBytes([u32(8 + body.length), fourCC(type), body]);
+}
+
+/**
+ * A box whose payload starts with a version byte and 24 bits of flags
+ */
+export function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  return box(type, u8(version), u24(flags), ...payload);
+}
+
+/** Identity transformation matrix used by mvhd and tkhd */
+export const UNITY_MATRIX = concatBytes([
+  u32(0x00010000), u32(0), u32(0),
+  u32(0), u32(0x00010000), u32(0),
+  u32(0), u32(0), u32(0x40000000),
+]);
@@ -0,0 +1,57 @@
+// Redaction helpers shared by the preview and the render paths
+
+import { RedactionRegion } from '../contexts/RecordingContext';
+import { REDACTION_CONFIG } from '../config';
+
+let blurCanvas: HTMLCanvasElement | null = null;
+
+export function getActiveRedactions(redactions: RedactionRegion[], timeMs: number): RedactionRegion[] {
+  return redactions.filter(region => timeMs >= region.start && timeMs < region.end);
+}
+
+/**
+ * Burn the redactions active at a point in time into a frame already drawn on
+ * the canvas. Blur is done by scaling the region down to one pixel per block
+ * and back up, which works in every browser and cannot be undone.
+ * @param ctx - Canvas holding the frame
+ * @param redactions - All regions; only those active at `timeMs` are drawn
+ * @param timeMs - Position of the frame in the recorded video
+ */
+export function drawRedactions(ctx: CanvasRenderingContext2D, redactions: RedactionRegion[], timeMs: number): void {
+  const { width, height } = ctx.canvas;
+
+  getActiveRedactions(redactions, timeMs).forEach(region => {
+    const x = Math.round(region.x * width);
+    const y = Math.round(region.y * height);
+    const w = Math.max(1, Math.round(region.width * width));
+    const h = Math.max(1, Math.round(region.height * height));
+
+    if (region.style === 'fill') {
+      ctx.fillStyle = REDACTION_CONFIG.fillColor;
+      ctx.fillRect(x, y, w, h);
+      return;
+    }
+
+    if (!blurCanvas) {
+      blurCanvas = document.createElement('canvas');
+    }
+    blurCanvas.width = Math.max(1, Math.round(w / REDACTION_CONFIG.blurBlockSize));
+    blurCanvas.height = Math.max(1, Math.round(h / REDACTION_CONFIG.blurBlockSize));
+    const blurCtx = blurCanvas.getContext('2d');
+    if (!blurCtx) {
+      // Never leave a region readable
+      ctx.fillStyle = REDACTION_CONFIG.fillColor;
+      ctx.fillRect(x, y, w, h);
+      return;
+    }
+
+    blurCtx.imageSmoothingEnabled = true;
+    blurCtx.drawImage(ctx.canvas, x, y, w, h, 0, 0, blurCanvas.width, blurCanvas.height);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(blurCanvas, 0, 0, blurCanvas.width, blurCanvas.height, x, y, w, h);
+    ctx.restore();
+  });
+}
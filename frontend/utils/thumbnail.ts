@@ -0,0 +1,98 @@
+// Custom YouTube thumbnails, drawn from a video frame or an uploaded image
+
+import { wrapText } from './titleCards';
+import { THUMBNAIL_CONFIG } from '../config';
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+/**
+ * Load a frame data URL or an image file for drawing
+ */
+export async function loadThumbnailImage(source: string | Blob): Promise<HTMLImageElement> {
+  const src = typeof source === 'string' ? source : URL.createObjectURL(source);
+
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error('Could not load the thumbnail image'));
+      image.src = src;
+    });
+  } finally {
+    // A loaded image keeps its pixels, so the file URL can go
+    if (typeof source !== 'string') {
+      URL.revokeObjectURL(src);
+    }
+  }
+}
+
+/**
+ * Fill the canvas with the image, cropped to cover it, and optionally the
+ * title over a dark band along the bottom
+ */
+export function drawThumbnail(ctx: CanvasRenderingContext2D, image: HTMLImageElement, title: string | null): void {
+  const { width, height } = ctx.canvas;
+
+  ctx.save();
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+
+  const text = title?.trim();
+  if (text) {
+    const fontSize = Math.round(height * THUMBNAIL_CONFIG.titleScale);
+    const padding = Math.round(fontSize * 0.6);
+    ctx.font = `800 ${fontSize}px ${FONT_FAMILY}`;
+    // Two lines at most; anything longer is cut short
+    const lines = wrapText(ctx, text, width - padding * 2).slice(0, 2);
+    const bandHeight = lines.length * fontSize * 1.2 + padding * 2;
+
+    const gradient = ctx.createLinearGradient(0, height - bandHeight * 1.5, 0, height);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    gradient.addColorStop(0.35, 'rgba(0, 0, 0, 0.75)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0.85)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, height - bandHeight * 1.5, width, bandHeight * 1.5);
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    lines.forEach((line, index) => {
+      ctx.fillText(line, padding, height - bandHeight + padding + index * fontSize * 1.2, width - padding * 2);
+    });
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Render the thumbnail as a JPEG at YouTube's recommended size, lowering the
+ * quality until it fits the upload limit
+ */
+export async function renderThumbnail(image: HTMLImageElement, title: string | null): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_CONFIG.width;
+  canvas.height = THUMBNAIL_CONFIG.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Could not get canvas context');
+  }
+
+  drawThumbnail(ctx, image, title);
+
+  let quality = THUMBNAIL_CONFIG.quality;
+  for (;;) {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+    if (!blob) {
+      throw new Error('Could not encode the thumbnail');
+    }
+    if (blob.size <= THUMBNAIL_CONFIG.maxBytes || quality <= 0.4) {
+      return blob;
+    }
+    quality -= 0.1;
+  }
+}
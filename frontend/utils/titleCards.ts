@@ -0,0 +1,133 @@
+// Intro and outro title cards, drawn onto a canvas as video frames
+
+import { TitleCard, TitleCards } from '../contexts/RecordingContext';
+import { IntroCardTemplate, OutroCardTemplate } from '../contexts/AppContext';
+import { format } from 'date-fns';
+
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", sans-serif';
+
+/**
+ * Split text into lines that fit the given width
+ */
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+
+  if (line) {
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Fill the canvas with a title card, scaled to the canvas size
+ */
+export function drawTitleCard(ctx: CanvasRenderingContext2D, card: TitleCard): void {
+  const { width, height } = ctx.canvas;
+  const maxTextWidth = width * 0.8;
+  const titleSize = Math.round(height * 0.07);
+  const subtitleSize = Math.round(height * 0.035);
+
+  ctx.save();
+  ctx.fillStyle = card.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.font = `bold ${titleSize}px ${FONT_FAMILY}`;
+  const titleLines = wrapText(ctx, card.title, maxTextWidth);
+
+  let logoWidth = 0;
+  let logoHeight = 0;
+  if (card.logo && card.logo.naturalWidth > 0 && card.logo.naturalHeight > 0) {
+    const scale = Math.min((height * 0.3) / card.logo.naturalHeight, (width * 0.5) / card.logo.naturalWidth);
+    logoWidth = card.logo.naturalWidth * scale;
+    logoHeight = card.logo.naturalHeight * scale;
+  }
+
+  const gap = titleSize * 0.6;
+  const blockHeight = (logoHeight ? logoHeight + gap : 0) +
+    titleLines.length * titleSize * 1.2 +
+    (card.subtitle.length ? gap + card.subtitle.length * subtitleSize * 1.4 : 0);
+  let y = (height - blockHeight) / 2;
+
+  if (card.logo && logoHeight) {
+    ctx.drawImage(card.logo, (width - logoWidth) / 2, y, logoWidth, logoHeight);
+    y += logoHeight + gap;
+  }
+
+  ctx.fillStyle = card.textColor;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+
+  titleLines.forEach(line => {
+    ctx.fillText(line, width / 2, y, maxTextWidth);
+    y += titleSize * 1.2;
+  });
+
+  if (card.subtitle.length) {
+    y += gap;
+    ctx.font = `${subtitleSize}px ${FONT_FAMILY}`;
+    ctx.globalAlpha = 0.8;
+    card.subtitle.forEach(line => {
+      ctx.fillText(line, width / 2, y, maxTextWidth);
+      y += subtitleSize * 1.4;
+    });
+  }
+
+  ctx.restore();
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load title card logo'));
+    image.src = src;
+  });
+}
+
+/**
+ * Fill the saved templates in for one recording
+ * @param details - Title and date of the recording shown on the intro card
+ * @returns Promise<TitleCards> - The enabled cards; disabled ones are null
+ */
+export async function buildTitleCards(
+  intro: IntroCardTemplate,
+  outro: OutroCardTemplate,
+  details: { title: string; date: Date }
+): Promise<TitleCards> {
+  const logo = outro.enabled && outro.logoDataUrl
+    ? await loadImage(outro.logoDataUrl).catch(error => {
+      console.warn('Title card logo could not be loaded, leaving it out:', error);
+      return null;
+    })
+    : null;
+
+  return {
+    intro: intro.enabled ? {
+      title: details.title,
+      subtitle: [intro.author.trim(), format(details.date, 'MMMM d, yyyy')].filter(Boolean),
+      backgroundColor: intro.backgroundColor,
+      textColor: intro.textColor,
+      logo: null,
+      durationMs: intro.durationSeconds * 1000,
+    } : null,
+    outro: outro.enabled ? {
+      title: outro.text,
+      subtitle: [],
+      backgroundColor: outro.backgroundColor,
+      textColor: outro.textColor,
+      logo,
+      durationMs: outro.durationSeconds * 1000,
+    } : null,
+  };
+}
@@ -0,0 +1,144 @@
+// Helpers for turning the YouTube details form into a video resource
+
+import { VideoMetadata } from '../contexts/AppContext';
+import { VideoDetails, YouTubeVideoResource } from '../services/realYouTubeService';
+import { ChapterMarker } from '../contexts/RecordingContext';
+import { appendChapterDescription } from './chapters';
+import { VIDEO_METADATA_CONFIG } from '../config';
+
+/**
+ * Split comma-separated tags, dropping blanks and repeats
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(',').map(tag => tag.trim()).filter(Boolean);
+  return tags.filter((tag, index) => tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index);
+}
+
+/**
+ * Length of the tags the way YouTube counts it: joined with commas, and
+ * with quotes around any tag containing a space
+ */
+export function getTagsLength(tags: string[]): number {
+  return tags.reduce((total, tag) => total + tag.length + (tag.includes(' ') ? 2 : 0), 0) +
+    Math.max(0, tags.length - 1);
+}
+
+/**
+ * Problems that would make YouTube reject a title
+ * @returns A message for the first problem, or null if the title is fine
+ */
+export function validateVideoTitle(title: string): string | null {
+  if (!title.trim()) {
+    return 'Titles cannot be empty';
+  }
+  if (title.length > VIDEO_METADATA_CONFIG.maxTitleLength) {
+    return `Titles are limited to ${VIDEO_METADATA_CONFIG.maxTitleLength} characters`;
+  }
+  if (/[<>]/.test(title)) {
+    return 'Titles cannot contain < or >';
+  }
+  return null;
+}
+
+/**
+ * Problems that would make YouTube reject a description
+ * @returns A message for the first problem, or null if the description is fine
+ */
+export function validateVideoDescription(description: string): string | null {
+  if (description.length > VIDEO_METADATA_CONFIG.maxDescriptionLength) {
+    return `Descriptions are limited to ${VIDEO_METADATA_CONFIG.maxDescriptionLength} characters`;
+  }
+  if (/[<>]/.test(description)) {
+    return 'Descriptions cannot contain < or >';
+  }
+  return null;
+}
+
+/**
+ * Problems that would make YouTube reject the details
+ * @returns A message for the first problem, or null if the details are fine
+ */
+export function validateVideoMetadata(metadata: VideoMetadata): string | null {
+  const descriptionError = validateVideoDescription(metadata.description);
+  if (descriptionError) {
+    return descriptionError;
+  }
+  if (getTagsLength(metadata.tags) > VIDEO_METADATA_CONFIG.maxTagsLength) {
+    return `Tags are limited to ${VIDEO_METADATA_CONFIG.maxTagsLength} characters in total`;
+  }
+  return null;
+}
+
+/**
+ * Build the snippet and status sent when an upload session is opened
+ * @param metadata - Details from the form; YouTube's defaults are used without them
+ * @param chapters - Markers relative to the uploaded video, appended to the description as far as they fit
+ * @param videoDurationMs - Length of the uploaded video, so chapters too close to the end are dropped
+ */
+export function buildVideoResource(
+  title: string,
+  privacy: 'public' | 'private' | 'unlisted',
+  metadata?: VideoMetadata,
+  chapters?: ChapterMarker[],
+  videoDurationMs?: number
+): YouTubeVideoResource {
+  const description = appendChapterDescription(metadata?.description ?? '', chapters ?? [], videoDurationMs);
+
+  return {
+    snippet: {
+      title,
+      description,
+      tags: metadata?.tags ?? [],
+      categoryId: metadata?.categoryId || '22', // People & Blogs
+      ...(metadata?.defaultLanguage && {
+        defaultLanguage: metadata.defaultLanguage,
+        defaultAudioLanguage: metadata.defaultLanguage,
+      }),
+    },
+    status: {
+      privacyStatus: privacy,
+      selfDeclaredMadeForKids: metadata?.madeForKids ?? false,
+    },
+  };
+}
+
+/**
+ * Read the editable details out of a video resource from videos.list
+ */
+export function parseVideoDetails(video: YouTubeVideoResource): VideoDetails {
+  return {
+    title: video.snippet?.title ?? '',
+    description: video.snippet?.description ?? '',
+    privacy: video.status?.privacyStatus ?? 'private',
+  };
+}
+
+/**
+ * Build the body for videos.update. YouTube replaces every writable field in
+ * the parts it is sent, so the rest of the current snippet and status is kept.
+ * @param video - The video as returned by videos.list with snippet and status
+ */
+export function buildVideoUpdate(video: YouTubeVideoResource, details: VideoDetails): YouTubeVideoResource {
+  const { snippet = {}, status = {} } = video;
+
+  return {
+    id: video.id,
+    snippet: {
+      title: details.title.trim(),
+      description: details.description,
+      tags: snippet.tags ?? [],
+      categoryId: snippet.categoryId || '22',
+      ...(snippet.defaultLanguage && { defaultLanguage: snippet.defaultLanguage }),
+      ...(snippet.defaultAudioLanguage && { defaultAudioLanguage: snippet.defaultAudioLanguage }),
+    },
+    status: {
+      privacyStatus: details.privacy,
+      embeddable: status.embeddable,
+      license: status.license,
+      publicStatsViewable: status.publicStatsViewable,
+      selfDeclaredMadeForKids: status.selfDeclaredMadeForKids ?? status.madeForKids ?? false,
+      // A scheduled publish only applies to private videos
+      ...(details.privacy === 'private' && status.publishAt && { publishAt: status.publishAt }),
+    },
+  };
+}
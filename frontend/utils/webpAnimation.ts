@@ -0,0 +1,84 @@
+// Animated WebP assembly. Browsers can encode still WebP images from a
+// canvas; their bitstreams are wrapped as ANMF frames of one animation.
+
+import { concatBytes } from './ebml';
+
+export interface WebpFrame {
+  /** A still WebP file, e.g. from canvas.toBlob(..., 'image/webp') */
+  data: Uint8Array;
+  durationMs: number;
+}
+
+const ascii = (text: string) => new Uint8Array([...text].map(char => char.charCodeAt(0)));
+
+const le24 = (value: number) => new Uint8Array([value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff]);
+
+function le32(value: number): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, true);
+  return bytes;
+}
+
+/**
+ * A RIFF chunk, padded to an even length
+ */
+function chunk(type: string, payload: Uint8Array): Uint8Array<ArrayBuffer> {
+  const padding = payload.length % 2 ? new Uint8Array(1) : new Uint8Array(0);
+  return concatBytes([ascii(type), le32(payload.length), payload, padding]);
+}
+
+/**
+ * Pull the image bitstream chunks (ALPH, VP8, VP8L) out of a still WebP file
+ */
+function extractImageChunks(webp: Uint8Array): Uint8Array<ArrayBuffer> {
+  const view = new DataView(webp.buffer, webp.byteOffset, webp.length);
+  const decoder = new TextDecoder();
+  if (webp.length < 12 || decoder.decode(webp.subarray(0, 4)) !== 'RIFF' || decoder.decode(webp.subarray(8, 12)) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image');
+  }
+
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+  while (offset + 8 <= webp.length) {
+    const type = decoder.decode(webp.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size % 2);
+
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') {
+      parts.push(webp.subarray(offset, Math.min(end, webp.length)));
+    }
+    offset = end;
+  }
+
+  if (parts.length === 0) {
+    throw new Error('WebP frame has no image data');
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Build a looping animated WebP from same-sized still frames
+ */
+export function buildAnimatedWebp(frames: WebpFrame[], width: number, height: number): Blob {
+  const vp8x = chunk('VP8X', concatBytes([
+    // Animation flag; frames are opaque
+    new Uint8Array([0x02, 0, 0, 0]),
+    le24(width - 1),
+    le24(height - 1),
+  ]));
+
+  // Background colour, then loop count 0 (forever)
+  const anim = chunk('ANIM', new Uint8Array([0, 0, 0, 0, 0, 0]));
+
+  const anmf = frames.map(frame => chunk('ANMF', concatBytes([
+    le24(0), le24(0),
+    le24(width - 1), le24(height - 1),
+    le24(Math.max(1, Math.round(frame.durationMs))),
+    // Do not blend with the previous frame, do not dispose
+    new Uint8Array([0x02]),
+    extractImageChunks(frame.data),
+  ])));
+
+  const body = concatBytes([ascii('WEBP'), vp8x, anim, ...anmf]);
+  return new Blob([ascii('RIFF'), le32(body.length), body], { type: 'image/webp' });
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import path from 'path'
 import tailwindcss from '@tailwindcss/vite'
@@ -15,5 +16,8 @@ export default defineConfig({
   mode: "development",
   build: {
     minify: false,
-  }
+  },
+  test: {
+    environment: 'happy-dom',
+  },
 })